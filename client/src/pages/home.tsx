@@ -4,6 +4,8 @@ import { apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
 import {
   Select,
   SelectContent,
@@ -32,20 +34,94 @@ import {
   GitCompare,
   Eye,
   Users,
+  Minimize2,
+  AlignLeft,
+  Layers,
+  FolderArchive,
 } from "lucide-react";
 import { Link } from "wouter";
 import MonacoEditor from "@/components/MonacoEditor";
 import CodeDiffViewer from "@/components/CodeDiffViewer";
-import type { ProcessRequest } from "@shared/schema";
+import {
+  OBFUSCATION_LEVELS,
+  describePlan,
+  resolveLevelPlan,
+  type ObfuscationLevel,
+} from "@shared/obfuscationLevels";
+import type {
+  PassReport,
+  ProcessRequest,
+  ProcessRequestBody,
+  Snapshot,
+} from "@shared/schema";
+
+type ProcessMode = ProcessRequest["mode"];
+
+// Past tense of each mode, for status messages and download names
+const MODE_RESULTS: Record<ProcessMode, string> = {
+  obfuscate: "obfuscated",
+  deobfuscate: "deobfuscated",
+  minify: "minified",
+  format: "formatted",
+};
+
+type FormatSettings = NonNullable<
+  NonNullable<ProcessRequest["settings"]>["format"]
+>;
 
 interface ProcessingStats {
   inputLines: number;
   outputLines: number;
   variablesRenamed: number;
   stringsEncoded: number;
+  constantPoolSize: number;
+  seed: number | null;
+  instructionCount: number;
+  vmSize: number;
+  blocksRecovered: number;
   processingTime: number;
 }
 
+interface TechniqueReport {
+  techniques: { technique: string; confidence: number; evidence: string[] }[];
+  obfuscators: { name: string; confidence: number; evidence: string[] }[];
+}
+
+interface VerificationResult {
+  verdict: "pass" | "fail" | "inconclusive";
+  divergence: {
+    kind: "output" | "return" | "error";
+    index?: number;
+    expected: string | null;
+    actual: string | null;
+  } | null;
+  outputLines: number;
+  message: string;
+}
+
+const TECHNIQUE_LABELS: Record<string, string> = {
+  loadstringWrapper: "Loadstring Wrapper",
+  virtualMachine: "VM Interpreter",
+  controlFlowFlattening: "Control Flow Flattening",
+  constantPool: "Constant Pool",
+  junkCode: "Junk Code",
+  proxyWrappers: "Proxy Wrappers",
+  stringEncoding: "String Encoding",
+  identifierMangling: "Identifier Mangling",
+};
+
+// Offer a blob to the user as a file download
+function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
 const defaultLuaCode = `-- Paste your Lua code here
 -- Example: Roblox script
 
@@ -68,9 +144,7 @@ game:GetService('UserInputService').InputBegan:Connect(function(input)
 end)`;
 
 export default function Home() {
-  const [currentMode, setCurrentMode] = useState<"obfuscate" | "deobfuscate">(
-    "obfuscate",
-  );
+  const [currentMode, setCurrentMode] = useState<ProcessMode>("obfuscate");
   const [inputCode, setInputCode] = useState(defaultLuaCode);
   const [outputCode, setOutputCode] = useState("");
   const [isProcessing, setIsProcessing] = useState(false);
@@ -79,17 +153,56 @@ export default function Home() {
     variableRenaming: true,
     stringEncoding: true,
     controlFlowObfuscation: false,
-    obfuscationLevel: "medium" as "light" | "medium" | "heavy",
+    obfuscationLevel: "medium" as ObfuscationLevel,
+    stripTypeAnnotations: false,
+    constantPool: false,
+    seed: undefined as number | undefined,
+    sourceMap: false,
+  });
+  // Run the input and output side by side and compare what they do
+  const [verifyOutput, setVerifyOutput] = useState(false);
+  const [verification, setVerification] = useState<VerificationResult | null>(
+    null,
+  );
+  // Comma-separated names and globs, split when the request is sent
+  const [preserveIdentifiers, setPreserveIdentifiers] = useState("");
+  const [formatSettings, setFormatSettings] = useState<FormatSettings>({
+    indentWidth: 4,
+    useTabs: false,
+    quoteStyle: "auto",
+    maxLineWidth: 100,
+    callParentheses: "always",
   });
+  // What's typed into the width field, clamped into range once it loses
+  // focus so a number can be typed digit by digit
+  const [maxLineWidthText, setMaxLineWidthText] = useState("100");
   const [stats, setStats] = useState<ProcessingStats>({
     inputLines: 0,
     outputLines: 0,
     variablesRenamed: 0,
     stringsEncoded: 0,
+    constantPoolSize: 0,
+    seed: null,
+    instructionCount: 0,
+    vmSize: 0,
+    blocksRecovered: 0,
     processingTime: 0,
   });
   const [statusMessage, setStatusMessage] = useState("Ready");
-  const [activeTab, setActiveTab] = useState<"editor" | "diff">("editor");
+  const [activeTab, setActiveTab] = useState<"editor" | "diff" | "layers">(
+    "editor",
+  );
+  // Sources unpacked from `loadstring` wrappers by deobfuscation
+  const [layers, setLayers] = useState<string[]>([]);
+  const [selectedLayer, setSelectedLayer] = useState(0);
+  const [passReports, setPassReports] = useState<PassReport[]>([]);
+  // Snapshots make responses several times larger, so they're opt-in
+  const [stepThroughPasses, setStepThroughPasses] = useState(false);
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  // 0 compares the input with the output; n compares snapshot n-1 with n
+  const [selectedStage, setSelectedStage] = useState(0);
+  const [techniqueReport, setTechniqueReport] =
+    useState<TechniqueReport | null>(null);
   const [diffViewMode, setDiffViewMode] = useState<"side-by-side" | "inline">(
     "side-by-side",
   );
@@ -97,7 +210,7 @@ export default function Home() {
   const { toast } = useToast();
 
   const processMutation = useMutation({
-    mutationFn: async (data: ProcessRequest) => {
+    mutationFn: async (data: ProcessRequestBody) => {
       try {
         const response = await apiRequest("POST", "/api/process", data);
         return await response.json();
@@ -109,21 +222,29 @@ export default function Home() {
     },
     onSuccess: (data) => {
       setOutputCode(data.outputCode);
+      setLayers(data.layers);
+      setSelectedLayer(0);
+      setTechniqueReport(data.techniqueReport);
+      setVerification(data.verification);
+      setPassReports(data.passes);
+      setSnapshots(data.snapshots);
+      setSelectedStage(0);
       setStats({
         inputLines: data.inputLines,
         outputLines: data.outputLines,
         variablesRenamed: data.variablesRenamed,
         stringsEncoded: data.stringsEncoded,
+        constantPoolSize: data.constantPoolSize,
+        seed: data.seed,
+        instructionCount: data.instructionCount,
+        vmSize: data.vmSize,
+        blocksRecovered: data.blocksRecovered,
         processingTime: data.processingTime,
       });
-      setStatusMessage(
-        currentMode === "obfuscate"
-          ? "Code obfuscated successfully"
-          : "Code deobfuscated successfully",
-      );
+      setStatusMessage(`Code ${MODE_RESULTS[currentMode]} successfully`);
       toast({
         title: "Success",
-        description: `Code ${currentMode}d successfully in ${data.processingTime}ms`,
+        description: `Code ${MODE_RESULTS[currentMode]} successfully in ${data.processingTime}ms`,
       });
 
       // Switch to diff view after successful processing if we have both codes
@@ -147,6 +268,42 @@ export default function Home() {
     },
   });
 
+  // The pass toggles only apply to the custom level; a preset is sent
+  // without them so it runs as described
+  const {
+    variableRenaming,
+    stringEncoding,
+    controlFlowObfuscation,
+    constantPool,
+  } = settings;
+  const passToggles =
+    settings.obfuscationLevel === "custom"
+      ? {
+          variableRenaming,
+          stringEncoding,
+          controlFlowObfuscation,
+          constantPool,
+        }
+      : {};
+
+  // The settings that apply to the current mode, as requests send them
+  const modeSettings = (): ProcessRequestBody["settings"] =>
+    currentMode === "obfuscate"
+      ? {
+          obfuscationLevel: settings.obfuscationLevel,
+          stripTypeAnnotations: settings.stripTypeAnnotations,
+          seed: settings.seed,
+          sourceMap: settings.sourceMap,
+          ...passToggles,
+          preserveIdentifiers: preserveIdentifiers
+            .split(",")
+            .map((name) => name.trim())
+            .filter(Boolean),
+        }
+      : currentMode === "format" || currentMode === "deobfuscate"
+        ? { format: formatSettings }
+        : undefined;
+
   const handleProcess = () => {
     if (!inputCode.trim()) {
       setStatusMessage("Please enter some Lua code first");
@@ -177,7 +334,12 @@ export default function Home() {
       processMutation.mutate({
         inputCode,
         mode: currentMode,
-        settings: currentMode === "obfuscate" ? settings : undefined,
+        // Formatting is a single step, with nothing in between to show
+        settings:
+          currentMode !== "format" && stepThroughPasses
+            ? { ...modeSettings(), snapshots: true }
+            : modeSettings(),
+        verify: currentMode === "obfuscate" && verifyOutput ? {} : undefined,
       });
       clearInterval(progressInterval);
     }, 1500);
@@ -186,18 +348,10 @@ export default function Home() {
   const handleDownload = () => {
     if (!outputCode) return;
 
-    const blob = new Blob([outputCode], { type: "text/plain" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download =
-      currentMode === "obfuscate"
-        ? "obfuscated_script.lua"
-        : "deobfuscated_script.lua";
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    saveBlob(
+      new Blob([outputCode], { type: "text/plain" }),
+      `${MODE_RESULTS[currentMode]}_script.lua`,
+    );
 
     setStatusMessage("File downloaded successfully");
     toast({
@@ -209,6 +363,16 @@ export default function Home() {
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
+    if (/\.rbx[ml]x$/i.test(file.name)) {
+      event.target.value = "";
+      processFileOnServer(
+        file,
+        "/api/roblox-file",
+        "application/xml",
+        /\.rbxlx$/i.test(file.name) ? "Place" : "Model",
+      );
+      return;
+    }
 
     const reader = new FileReader();
     reader.onload = (e) => {
@@ -223,6 +387,63 @@ export default function Home() {
     reader.readAsText(file);
   };
 
+  // Zipped Rojo projects, models and places go straight to the server and
+  // come back processed, in the same format
+  const processFileOnServer = async (
+    file: File,
+    endpoint: string,
+    contentType: string,
+    label: string,
+  ) => {
+    setIsProcessing(true);
+    setStatusMessage(`Processing ${label.toLowerCase()}...`);
+    try {
+      const settings = modeSettings();
+      const query = new URLSearchParams({ mode: currentMode });
+      if (settings) query.set("settings", JSON.stringify(settings));
+      const response = await fetch(`${endpoint}?${query}`, {
+        method: "POST",
+        headers: { "Content-Type": contentType },
+        body: file,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const { message } = await response
+          .json()
+          .catch(() => ({ message: response.statusText }));
+        throw new Error(message);
+      }
+      // `game.rbxlx` comes back as `game_obfuscated.rbxlx`
+      saveBlob(
+        await response.blob(),
+        file.name.replace(/(\.[^.]*)?$/, `_${MODE_RESULTS[currentMode]}$1`),
+      );
+      setStatusMessage(`${label} ${MODE_RESULTS[currentMode]}`);
+      toast({
+        title: "Success",
+        description: `${label} ${MODE_RESULTS[currentMode]} successfully`,
+      });
+    } catch (error) {
+      setStatusMessage("Processing failed");
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Processing failed",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleRojoUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file) {
+      processFileOnServer(file, "/api/rojo", "application/zip", "Rojo project");
+    }
+  };
+
   useEffect(() => {
     const lineCount = inputCode.split("\n").length;
     setStats((prev) => ({ ...prev, inputLines: lineCount }));
@@ -292,7 +513,7 @@ export default function Home() {
               <label className="text-xs text-gray-400 uppercase tracking-wide mb-2 block">
                 Mode
               </label>
-              <div className="flex bg-editor-grey rounded-lg p-1">
+              <div className="grid grid-cols-2 gap-1 bg-editor-grey rounded-lg p-1">
                 <Button
                   variant={currentMode === "obfuscate" ? "default" : "ghost"}
                   size="sm"
@@ -313,7 +534,42 @@ export default function Home() {
                   <Unlock className="w-4 h-4 mr-2" />
                   Deobfuscate
                 </Button>
+                <Button
+                  variant={currentMode === "minify" ? "default" : "ghost"}
+                  size="sm"
+                  className={`flex-1 ${currentMode === "minify" ? "bg-roblox-blue text-white" : "text-gray-300 hover:text-white"}`}
+                  onClick={() => setCurrentMode("minify")}
+                  data-testid="button-minify"
+                >
+                  <Minimize2 className="w-4 h-4 mr-2" />
+                  Minify
+                </Button>
+                <Button
+                  variant={currentMode === "format" ? "default" : "ghost"}
+                  size="sm"
+                  className={`flex-1 ${currentMode === "format" ? "bg-roblox-blue text-white" : "text-gray-300 hover:text-white"}`}
+                  onClick={() => setCurrentMode("format")}
+                  data-testid="button-format"
+                >
+                  <AlignLeft className="w-4 h-4 mr-2" />
+                  Format
+                </Button>
               </div>
+              {currentMode !== "format" && (
+                <div className="flex items-center space-x-3 mt-3">
+                  <Checkbox
+                    id="step-through-passes"
+                    checked={stepThroughPasses}
+                    onCheckedChange={(checked) =>
+                      setStepThroughPasses(!!checked)
+                    }
+                    data-testid="checkbox-step-through-passes"
+                  />
+                  <label htmlFor="step-through-passes" className="text-sm">
+                    Step Through Passes
+                  </label>
+                </div>
+              )}
             </div>
 
             {/* Obfuscation Settings */}
@@ -322,6 +578,7 @@ export default function Home() {
                 <div className="flex items-center space-x-3">
                   <Checkbox
                     id="variable-renaming"
+                    disabled={settings.obfuscationLevel !== "custom"}
                     checked={settings.variableRenaming}
                     onCheckedChange={(checked) =>
                       setSettings((prev) => ({
@@ -338,6 +595,7 @@ export default function Home() {
                 <div className="flex items-center space-x-3">
                   <Checkbox
                     id="string-encoding"
+                    disabled={settings.obfuscationLevel !== "custom"}
                     checked={settings.stringEncoding}
                     onCheckedChange={(checked) =>
                       setSettings((prev) => ({
@@ -354,6 +612,7 @@ export default function Home() {
                 <div className="flex items-center space-x-3">
                   <Checkbox
                     id="control-flow"
+                    disabled={settings.obfuscationLevel !== "custom"}
                     checked={settings.controlFlowObfuscation}
                     onCheckedChange={(checked) =>
                       setSettings((prev) => ({
@@ -367,13 +626,73 @@ export default function Home() {
                     Control Flow Obfuscation
                   </label>
                 </div>
+                <div className="flex items-center space-x-3">
+                  <Checkbox
+                    id="strip-types"
+                    checked={settings.stripTypeAnnotations}
+                    onCheckedChange={(checked) =>
+                      setSettings((prev) => ({
+                        ...prev,
+                        stripTypeAnnotations: !!checked,
+                      }))
+                    }
+                    data-testid="checkbox-strip-types"
+                  />
+                  <label htmlFor="strip-types" className="text-sm">
+                    Strip Type Annotations
+                  </label>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <Checkbox
+                    id="constant-pool"
+                    disabled={settings.obfuscationLevel !== "custom"}
+                    checked={settings.constantPool}
+                    onCheckedChange={(checked) =>
+                      setSettings((prev) => ({
+                        ...prev,
+                        constantPool: !!checked,
+                      }))
+                    }
+                    data-testid="checkbox-constant-pool"
+                  />
+                  <label htmlFor="constant-pool" className="text-sm">
+                    Encrypted Constant Pool
+                  </label>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <Checkbox
+                    id="source-map"
+                    checked={settings.sourceMap}
+                    onCheckedChange={(checked) =>
+                      setSettings((prev) => ({
+                        ...prev,
+                        sourceMap: !!checked,
+                      }))
+                    }
+                    data-testid="checkbox-source-map"
+                  />
+                  <label htmlFor="source-map" className="text-sm">
+                    Generate Source Map
+                  </label>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <Checkbox
+                    id="verify-output"
+                    checked={verifyOutput}
+                    onCheckedChange={(checked) => setVerifyOutput(!!checked)}
+                    data-testid="checkbox-verify-output"
+                  />
+                  <label htmlFor="verify-output" className="text-sm">
+                    Verify Equivalence
+                  </label>
+                </div>
                 <div>
                   <label className="text-xs text-gray-400 uppercase tracking-wide mb-2 block">
                     Obfuscation Level
                   </label>
                   <Select
                     value={settings.obfuscationLevel}
-                    onValueChange={(value: "light" | "medium" | "heavy") =>
+                    onValueChange={(value: ObfuscationLevel) =>
                       setSettings((prev) => ({
                         ...prev,
                         obfuscationLevel: value,
@@ -387,9 +706,213 @@ export default function Home() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="light">Light</SelectItem>
-                      <SelectItem value="medium">Medium</SelectItem>
-                      <SelectItem value="heavy">Heavy</SelectItem>
+                      {Object.entries(OBFUSCATION_LEVELS).map(
+                        ([value, level]) => (
+                          <SelectItem key={value} value={value}>
+                            {level.label}
+                          </SelectItem>
+                        ),
+                      )}
+                      <SelectItem value="custom">Custom</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p
+                    className="text-xs text-gray-400 mt-2"
+                    data-testid="text-level-summary"
+                  >
+                    {settings.obfuscationLevel === "custom"
+                      ? "Pick the passes with the checkboxes above"
+                      : OBFUSCATION_LEVELS[settings.obfuscationLevel].summary}
+                  </p>
+                  <ul
+                    className="text-xs text-gray-300 mt-2 space-y-1 list-disc list-inside"
+                    data-testid="list-level-passes"
+                  >
+                    {describePlan(
+                      resolveLevelPlan(settings.obfuscationLevel, passToggles),
+                    ).map((pass) => (
+                      <li key={pass}>{pass}</li>
+                    ))}
+                  </ul>
+                </div>
+                <div>
+                  <label
+                    htmlFor="seed"
+                    className="text-xs text-gray-400 uppercase tracking-wide mb-2 block"
+                  >
+                    Seed
+                  </label>
+                  <Input
+                    id="seed"
+                    type="number"
+                    min={0}
+                    placeholder="Random"
+                    className="bg-editor-grey border-border-dark"
+                    value={settings.seed ?? ""}
+                    onChange={(e) =>
+                      setSettings((prev) => ({
+                        ...prev,
+                        seed:
+                          e.target.value === ""
+                            ? undefined
+                            : Number.parseInt(e.target.value, 10),
+                      }))
+                    }
+                    data-testid="input-seed"
+                  />
+                </div>
+                <div>
+                  <label
+                    htmlFor="preserve-identifiers"
+                    className="text-xs text-gray-400 uppercase tracking-wide mb-2 block"
+                  >
+                    Preserve Identifiers
+                  </label>
+                  <Input
+                    id="preserve-identifiers"
+                    placeholder="e.g. Init, Public*"
+                    className="bg-editor-grey border-border-dark"
+                    value={preserveIdentifiers}
+                    onChange={(e) => setPreserveIdentifiers(e.target.value)}
+                    data-testid="input-preserve-identifiers"
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Format Settings; deobfuscated output is formatted too */}
+            {(currentMode === "format" || currentMode === "deobfuscate") && (
+              <div className="space-y-4">
+                <div className="flex items-center space-x-3">
+                  <Checkbox
+                    id="use-tabs"
+                    checked={formatSettings.useTabs}
+                    onCheckedChange={(checked) =>
+                      setFormatSettings((prev) => ({
+                        ...prev,
+                        useTabs: !!checked,
+                      }))
+                    }
+                    data-testid="checkbox-use-tabs"
+                  />
+                  <label htmlFor="use-tabs" className="text-sm">
+                    Indent With Tabs
+                  </label>
+                </div>
+                <div>
+                  <label
+                    htmlFor="indent-width"
+                    className="text-xs text-gray-400 uppercase tracking-wide mb-2 block"
+                  >
+                    Indent Width
+                  </label>
+                  <Input
+                    id="indent-width"
+                    type="number"
+                    min={1}
+                    max={8}
+                    disabled={formatSettings.useTabs}
+                    className="bg-editor-grey border-border-dark"
+                    value={formatSettings.indentWidth}
+                    onChange={(e) =>
+                      setFormatSettings((prev) => ({
+                        ...prev,
+                        indentWidth: Math.min(
+                          8,
+                          Math.max(1, Number.parseInt(e.target.value, 10) || 1),
+                        ),
+                      }))
+                    }
+                    data-testid="input-indent-width"
+                  />
+                </div>
+                <div>
+                  <label
+                    htmlFor="max-line-width"
+                    className="text-xs text-gray-400 uppercase tracking-wide mb-2 block"
+                  >
+                    Max Line Width
+                  </label>
+                  <Input
+                    id="max-line-width"
+                    type="number"
+                    min={40}
+                    max={240}
+                    className="bg-editor-grey border-border-dark"
+                    value={maxLineWidthText}
+                    onChange={(e) => setMaxLineWidthText(e.target.value)}
+                    onBlur={() => {
+                      const maxLineWidth = Math.min(
+                        240,
+                        Math.max(
+                          40,
+                          Number.parseInt(maxLineWidthText, 10) ||
+                            formatSettings.maxLineWidth,
+                        ),
+                      );
+                      setMaxLineWidthText(String(maxLineWidth));
+                      setFormatSettings((prev) => ({ ...prev, maxLineWidth }));
+                    }}
+                    data-testid="input-max-line-width"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs text-gray-400 uppercase tracking-wide mb-2 block">
+                    Quote Style
+                  </label>
+                  <Select
+                    value={formatSettings.quoteStyle}
+                    onValueChange={(value: FormatSettings["quoteStyle"]) =>
+                      setFormatSettings((prev) => ({
+                        ...prev,
+                        quoteStyle: value,
+                      }))
+                    }
+                  >
+                    <SelectTrigger
+                      className="w-full bg-editor-grey border-border-dark"
+                      data-testid="select-quote-style"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Fewest escapes</SelectItem>
+                      <SelectItem value="double">Double quotes</SelectItem>
+                      <SelectItem value="single">Single quotes</SelectItem>
+                      <SelectItem value="preserve">As written</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="text-xs text-gray-400 uppercase tracking-wide mb-2 block">
+                    Call Parentheses
+                  </label>
+                  <Select
+                    value={formatSettings.callParentheses}
+                    onValueChange={(value: FormatSettings["callParentheses"]) =>
+                      setFormatSettings((prev) => ({
+                        ...prev,
+                        callParentheses: value,
+                      }))
+                    }
+                  >
+                    <SelectTrigger
+                      className="w-full bg-editor-grey border-border-dark"
+                      data-testid="select-call-parentheses"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="always">Always</SelectItem>
+                      <SelectItem value="noSingleString">
+                        Omit for a single string
+                      </SelectItem>
+                      <SelectItem value="noSingleTable">
+                        Omit for a single table
+                      </SelectItem>
+                      <SelectItem value="none">
+                        Omit for a single string or table
+                      </SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -418,7 +941,7 @@ export default function Home() {
               <div>
                 <input
                   type="file"
-                  accept=".lua,.txt"
+                  accept=".lua,.txt,.rbxmx,.rbxlx"
                   onChange={handleFileUpload}
                   className="hidden"
                   id="file-upload"
@@ -433,7 +956,29 @@ export default function Home() {
                   data-testid="button-upload"
                 >
                   <Upload className="w-4 h-4 mr-2" />
-                  Load .lua File
+                  Load .lua or Model File
+                </Button>
+              </div>
+              <div>
+                <input
+                  type="file"
+                  accept=".zip"
+                  onChange={handleRojoUpload}
+                  className="hidden"
+                  id="rojo-upload"
+                  data-testid="input-rojo-upload"
+                />
+                <Button
+                  variant="outline"
+                  className="w-full bg-editor-grey hover:bg-gray-600 text-white border-border-dark"
+                  onClick={() =>
+                    document.getElementById("rojo-upload")?.click()
+                  }
+                  disabled={isProcessing}
+                  data-testid="button-rojo-upload"
+                >
+                  <FolderArchive className="w-4 h-4 mr-2" />
+                  Process Rojo Project
                 </Button>
               </div>
               <Button
@@ -483,13 +1028,140 @@ export default function Home() {
                   {stats.stringsEncoded}
                 </span>
               </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Constant Pool:</span>
+                <span data-testid="text-constant-pool-size">
+                  {stats.constantPoolSize}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Seed:</span>
+                <span data-testid="text-seed">{stats.seed ?? "-"}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">VM Instructions:</span>
+                <span data-testid="text-instruction-count">
+                  {stats.instructionCount}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">VM Size:</span>
+                <span data-testid="text-vm-size">{stats.vmSize}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Blocks Recovered:</span>
+                <span data-testid="text-blocks-recovered">
+                  {stats.blocksRecovered}
+                </span>
+              </div>
               <div className="flex justify-between">
                 <span className="text-gray-400">Processing Time:</span>
                 <span data-testid="text-processing-time">
                   {stats.processingTime}ms
                 </span>
               </div>
+              {verification && (
+                <div
+                  className="flex justify-between"
+                  title={verification.message}
+                >
+                  <span className="text-gray-400">Equivalence:</span>
+                  <span
+                    className={
+                      verification.verdict === "pass"
+                        ? "text-green-400"
+                        : verification.verdict === "fail"
+                          ? "text-red-400"
+                          : "text-yellow-400"
+                    }
+                    data-testid="text-verification"
+                  >
+                    {verification.verdict === "pass"
+                      ? "Pass"
+                      : verification.verdict === "fail"
+                        ? "Fail"
+                        : "Inconclusive"}
+                  </span>
+                </div>
+              )}
+              {verification?.divergence && (
+                <div
+                  className="text-xs bg-editor-dark rounded p-2 space-y-1 font-mono break-all"
+                  data-testid="text-divergence"
+                >
+                  <div className="text-gray-400 font-sans">
+                    {verification.message}
+                  </div>
+                  <div>
+                    Expected: {verification.divergence.expected ?? "nothing"}
+                  </div>
+                  <div>Got: {verification.divergence.actual ?? "nothing"}</div>
+                </div>
+              )}
             </div>
+
+            {passReports.some((pass) => pass.enabled) && (
+              <div className="mt-6" data-testid="pass-breakdown">
+                <h3 className="text-sm font-medium text-white mb-4">Passes</h3>
+                <div className="space-y-3 text-sm">
+                  {passReports
+                    .filter((pass) => pass.enabled)
+                    .map((pass) => (
+                      <div
+                        key={pass.name}
+                        className="flex justify-between"
+                        title={Object.entries(pass.stats)
+                          .map(([stat, value]) => `${stat}: ${value}`)
+                          .join("\n")}
+                        data-testid={`pass-${pass.name}`}
+                      >
+                        <span className="text-gray-400">{pass.name}</span>
+                        <span>
+                          {pass.nodesChanged} nodes, {pass.time}ms
+                        </span>
+                      </div>
+                    ))}
+                </div>
+              </div>
+            )}
+
+            {techniqueReport &&
+              (techniqueReport.techniques.length > 0 ||
+                techniqueReport.obfuscators.length > 0) && (
+                <div className="mt-6" data-testid="technique-report">
+                  <h3 className="text-sm font-medium text-white mb-4">
+                    Detected Techniques
+                  </h3>
+                  <div className="space-y-3 text-sm">
+                    {techniqueReport.obfuscators.map((match) => (
+                      <div
+                        key={match.name}
+                        className="flex justify-between"
+                        title={match.evidence.join("\n")}
+                      >
+                        <span className="text-gray-400">
+                          Obfuscator: {match.name}
+                        </span>
+                        <span>{Math.round(match.confidence * 100)}%</span>
+                      </div>
+                    ))}
+                    {techniqueReport.techniques.map((detection) => (
+                      <div
+                        key={detection.technique}
+                        className="flex justify-between"
+                        title={detection.evidence.join("\n")}
+                        data-testid={`technique-${detection.technique}`}
+                      >
+                        <span className="text-gray-400">
+                          {TECHNIQUE_LABELS[detection.technique] ??
+                            detection.technique}
+                        </span>
+                        <span>{Math.round(detection.confidence * 100)}%</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
           </div>
         </div>
 
@@ -523,6 +1195,20 @@ export default function Home() {
                 <GitCompare className="w-4 h-4 mr-2 inline" />
                 Code Differences
               </button>
+              {layers.length > 0 && (
+                <button
+                  className={`px-4 py-3 text-sm font-medium transition-colors ${
+                    activeTab === "layers"
+                      ? "text-white bg-editor-dark border-b-2 border-roblox-blue"
+                      : "text-gray-400 hover:text-white"
+                  }`}
+                  onClick={() => setActiveTab("layers")}
+                  data-testid="tab-layers"
+                >
+                  <Layers className="w-4 h-4 mr-2 inline" />
+                  Unpacked Layers ({layers.length})
+                </button>
+              )}
             </div>
           </div>
 
@@ -550,6 +1236,45 @@ export default function Home() {
                   />
                 </div>
               </div>
+            ) : activeTab === "layers" ? (
+              <div className="h-full p-4 flex flex-col">
+                <div className="mb-3 flex items-center justify-between">
+                  <div>
+                    <h3 className="text-sm font-medium text-white mb-1">
+                      Unpacked Layers
+                    </h3>
+                    <p className="text-xs text-gray-400">
+                      Each layer is the source the one before it passed to
+                      loadstring; the output is deobfuscated from the last
+                    </p>
+                  </div>
+                  <Select
+                    value={String(selectedLayer)}
+                    onValueChange={(value) => setSelectedLayer(Number(value))}
+                  >
+                    <SelectTrigger
+                      className="w-40 bg-editor-grey border-border-dark"
+                      data-testid="select-layer"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {layers.map((_, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          Layer {index + 1}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex-1 border border-border-dark">
+                  <MonacoEditor
+                    value={layers[selectedLayer] ?? ""}
+                    language="lua"
+                    readOnly={true}
+                  />
+                </div>
+              </div>
             ) : (
               <div className="h-full p-4">
                 {outputCode ? (
@@ -590,11 +1315,43 @@ export default function Home() {
                         </Button>
                       </div>
                     </div>
+                    {snapshots.length > 1 && (
+                      <div
+                        className="mb-3 flex items-center space-x-4"
+                        data-testid="stage-scrubber"
+                      >
+                        <span className="text-xs text-gray-400 whitespace-nowrap w-64">
+                          {selectedStage === 0
+                            ? "Input → Output"
+                            : `${snapshots[selectedStage - 1].stage} → ${snapshots[selectedStage].stage}`}
+                        </span>
+                        <Slider
+                          min={0}
+                          max={snapshots.length - 1}
+                          step={1}
+                          value={[selectedStage]}
+                          onValueChange={([stage]) => setSelectedStage(stage)}
+                          data-testid="slider-stage"
+                        />
+                      </div>
+                    )}
                     <CodeDiffViewer
-                      originalCode={inputCode}
-                      modifiedCode={outputCode}
+                      originalCode={
+                        selectedStage === 0
+                          ? inputCode
+                          : snapshots[selectedStage - 1].code
+                      }
+                      modifiedCode={
+                        selectedStage === 0
+                          ? outputCode
+                          : snapshots[selectedStage].code
+                      }
                       language="lua"
-                      height="calc(100% - 80px)"
+                      height={
+                        snapshots.length > 1
+                          ? "calc(100% - 120px)"
+                          : "calc(100% - 80px)"
+                      }
                       viewMode={diffViewMode}
                     />
                   </div>
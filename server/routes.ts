@@ -1,12 +1,31 @@
-import type { Express } from "express";
+import express, { type Express, type Request } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import {
+  demangleRequestSchema,
   processRequestSchema,
+  projectRequestSchema,
+  fileRequestSchema,
   shareScriptSchema,
   insertScriptCommentSchema,
+  totalStat,
 } from "@shared/schema";
 import { processLuaCode } from "./services/luaProcessor";
+import { processLuaProject } from "./services/projectProcessor";
+import { processRobloxFile } from "./services/robloxFile";
+import { processRojoArchive } from "./services/rojoProject";
+import { demangleStackTrace } from "./services/lua/sourceMap";
+import { verifyEquivalence } from "./services/lua/verifier";
+
+// Uploaded files are the request body; the mode and JSON settings come in
+// the query
+function parseFileRequest(req: Request) {
+  const { mode, settings } = req.query;
+  return fileRequestSchema.parse({
+    mode,
+    settings: typeof settings === "string" ? JSON.parse(settings) : undefined,
+  });
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Process Lua code endpoint
@@ -19,9 +38,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const endTime = Date.now();
       const processingTime = endTime - startTime;
 
+      // Checking the output is not part of processing it
+      const verification = validatedData.verify
+        ? verifyEquivalence(
+            validatedData.inputCode,
+            result.outputCode,
+            validatedData.verify,
+          )
+        : null;
+
       // Calculate stats
       const inputLines = validatedData.inputCode.split("\n").length;
       const outputLines = result.outputCode.split("\n").length;
+      const total = (stat: string) => totalStat(result.passes, stat);
+      // Totals over the passes; decoded strings count as encoded ones, as
+      // they always have for deobfuscation
+      const totals = {
+        variablesRenamed: total("variablesRenamed"),
+        stringsEncoded: total("stringsEncoded") + total("stringsDecoded"),
+        constantPoolSize: total("constantPoolSize"),
+        instructionCount: total("instructionCount"),
+        vmSize: total("vmSize"),
+        blocksRecovered: total("blocksRecovered"),
+      };
 
       // Store the processed script
       const processedScript = await storage.createProcessedScript({
@@ -33,8 +72,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           : null,
         inputLines,
         outputLines,
-        variablesRenamed: result.variablesRenamed,
-        stringsEncoded: result.stringsEncoded,
+        ...totals,
+        seed: result.seed,
+        sourceMap: result.sourceMap ? JSON.stringify(result.sourceMap) : null,
+        techniqueReport: result.techniqueReport
+          ? JSON.stringify(result.techniqueReport)
+          : null,
         processingTime,
       });
 
@@ -43,8 +86,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         outputCode: result.outputCode,
         inputLines,
         outputLines,
-        variablesRenamed: result.variablesRenamed,
-        stringsEncoded: result.stringsEncoded,
+        ...totals,
+        passes: result.passes,
+        snapshots: result.snapshots,
+        seed: result.seed,
+        layers: result.layers,
+        techniqueReport: result.techniqueReport,
+        verification,
+        sourceMap: result.sourceMap,
         processingTime,
       });
     } catch (error) {
@@ -55,6 +104,87 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Process every script of a project together
+  app.post("/api/project", async (req, res) => {
+    try {
+      const validatedData = projectRequestSchema.parse(req.body);
+
+      const startTime = Date.now();
+      const result = await processLuaProject(validatedData);
+      const processingTime = Date.now() - startTime;
+
+      res.json({ ...result, processingTime });
+    } catch (error) {
+      console.error("Project processing error:", error);
+      res.status(400).json({
+        message: error instanceof Error ? error.message : "Processing failed",
+      });
+    }
+  });
+
+  // Process a zipped Rojo project and send it back zipped the same way
+  app.post(
+    "/api/rojo",
+    express.raw({
+      type: [
+        "application/zip",
+        "application/x-zip-compressed",
+        "application/octet-stream",
+      ],
+      limit: "50mb",
+    }),
+    async (req, res) => {
+      try {
+        if (!Buffer.isBuffer(req.body)) {
+          throw new Error("Send the project as a zip archive");
+        }
+        const { archive, result } = await processRojoArchive(
+          req.body,
+          parseFileRequest(req),
+        );
+        if (result.seed !== null) {
+          res.setHeader("X-Obfuscation-Seed", String(result.seed));
+        }
+        res.type("application/zip").send(archive);
+      } catch (error) {
+        console.error("Rojo project error:", error);
+        res.status(400).json({
+          message: error instanceof Error ? error.message : "Processing failed",
+        });
+      }
+    },
+  );
+
+  // Process the scripts of a Roblox XML model or place, leaving the rest
+  // of the file as it was
+  app.post(
+    "/api/roblox-file",
+    express.raw({
+      type: ["application/xml", "text/xml", "application/octet-stream"],
+      limit: "100mb",
+    }),
+    async (req, res) => {
+      try {
+        if (!Buffer.isBuffer(req.body)) {
+          throw new Error("Send the model or place file as the body");
+        }
+        const { file, result } = await processRobloxFile(
+          req.body,
+          parseFileRequest(req),
+        );
+        if (result.seed !== null) {
+          res.setHeader("X-Obfuscation-Seed", String(result.seed));
+        }
+        res.type("application/xml").send(file);
+      } catch (error) {
+        console.error("Roblox file error:", error);
+        res.status(400).json({
+          message: error instanceof Error ? error.message : "Processing failed",
+        });
+      }
+    },
+  );
+
   // Get processing history
   app.get("/api/history", async (req, res) => {
     try {
@@ -80,6 +210,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Translate an error/stack trace from an obfuscated build back to the
+  // original names and lines
+  app.post("/api/script/:id/demangle", async (req, res) => {
+    try {
+      const { trace } = demangleRequestSchema.parse(req.body);
+      const script = await storage.getProcessedScript(req.params.id);
+      if (!script) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+      if (!script.sourceMap) {
+        return res
+          .status(400)
+          .json({ message: "Script was processed without a source map" });
+      }
+      res.json({
+        trace: demangleStackTrace(trace, JSON.parse(script.sourceMap)),
+      });
+    } catch (error) {
+      console.error("Demangle error:", error);
+      res.status(400).json({
+        message: error instanceof Error ? error.message : "Demangling failed",
+      });
+    }
+  });
+
   // Community sharing routes
 
   // Get shared scripts with pagination
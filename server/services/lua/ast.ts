@@ -0,0 +1,730 @@
+// AST node definitions for Lua source, loosely following the shape used by
+// luaparse so the passes read naturally to anyone who has used it.
+
+export interface Position {
+  line: number; // 1-based
+  column: number; // 0-based
+}
+
+export interface SourceLocation {
+  start: Position;
+  end: Position;
+}
+
+interface BaseNode {
+  loc?: SourceLocation;
+}
+
+// Expressions
+
+export interface Identifier extends BaseNode {
+  type: "Identifier";
+  name: string;
+  // Luau annotation on a declaration, e.g. `local x: number`
+  typeAnnotation?: TypeNode;
+}
+
+export interface NilLiteral extends BaseNode {
+  type: "NilLiteral";
+}
+
+export interface BooleanLiteral extends BaseNode {
+  type: "BooleanLiteral";
+  value: boolean;
+}
+
+export interface NumericLiteral extends BaseNode {
+  type: "NumericLiteral";
+  value: number;
+  raw?: string;
+}
+
+export interface StringLiteral extends BaseNode {
+  type: "StringLiteral";
+  value: string; // byte string: every char code is in 0-255
+  raw?: string;
+}
+
+export interface VarargLiteral extends BaseNode {
+  type: "VarargLiteral";
+}
+
+// Luau generics, vararg annotation and return type shared by every function
+interface FunctionSignature {
+  typeParameters?: GenericTypeParameter[];
+  varargAnnotation?: TypeNode;
+  returnType?: TypeNode;
+}
+
+export interface FunctionExpression extends BaseNode, FunctionSignature {
+  type: "FunctionExpression";
+  parameters: Identifier[];
+  isVararg: boolean;
+  body: Statement[];
+}
+
+export interface TableKey extends BaseNode {
+  type: "TableKey";
+  key: Expression;
+  value: Expression;
+}
+
+export interface TableKeyString extends BaseNode {
+  type: "TableKeyString";
+  key: Identifier;
+  value: Expression;
+}
+
+export interface TableValue extends BaseNode {
+  type: "TableValue";
+  value: Expression;
+}
+
+export type TableField = TableKey | TableKeyString | TableValue;
+
+export interface TableConstructorExpression extends BaseNode {
+  type: "TableConstructorExpression";
+  fields: TableField[];
+}
+
+export type BinaryOperator =
+  | "or"
+  | "and"
+  | "<"
+  | ">"
+  | "<="
+  | ">="
+  | "~="
+  | "=="
+  | ".."
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "//"
+  | "%"
+  | "^";
+
+export type CompoundOperator =
+  "+=" | "-=" | "*=" | "/=" | "//=" | "%=" | "^=" | "..=";
+
+export type UnaryOperator = "not" | "-" | "#";
+
+export interface BinaryExpression extends BaseNode {
+  type: "BinaryExpression";
+  operator: BinaryOperator;
+  left: Expression;
+  right: Expression;
+}
+
+export interface UnaryExpression extends BaseNode {
+  type: "UnaryExpression";
+  operator: UnaryOperator;
+  argument: Expression;
+}
+
+export interface ParenthesizedExpression extends BaseNode {
+  type: "ParenthesizedExpression";
+  expression: Expression;
+}
+
+export interface MemberExpression extends BaseNode {
+  type: "MemberExpression";
+  base: Expression;
+  indexer: "." | ":";
+  identifier: Identifier;
+}
+
+export interface IndexExpression extends BaseNode {
+  type: "IndexExpression";
+  base: Expression;
+  index: Expression;
+}
+
+export interface CallExpression extends BaseNode {
+  type: "CallExpression";
+  base: Expression;
+  arguments: Expression[];
+}
+
+export interface IfExpression extends BaseNode {
+  type: "IfExpression";
+  clauses: { condition: Expression; value: Expression }[];
+  orelse: Expression;
+}
+
+export interface InterpolatedStringExpression extends BaseNode {
+  type: "InterpolatedStringExpression";
+  // Byte strings between the `{}` holes; always one more than expressions
+  parts: string[];
+  expressions: Expression[];
+}
+
+export interface TypeAssertionExpression extends BaseNode {
+  type: "TypeAssertionExpression";
+  expression: Expression;
+  annotation: TypeNode;
+}
+
+export type Expression =
+  | Identifier
+  | NilLiteral
+  | BooleanLiteral
+  | NumericLiteral
+  | StringLiteral
+  | VarargLiteral
+  | FunctionExpression
+  | TableConstructorExpression
+  | BinaryExpression
+  | UnaryExpression
+  | ParenthesizedExpression
+  | MemberExpression
+  | IndexExpression
+  | CallExpression
+  | IfExpression
+  | InterpolatedStringExpression
+  | TypeAssertionExpression;
+
+// Luau types. Type names live in their own namespace, so they are kept as
+// plain strings rather than Identifier nodes and never touched by renaming.
+
+export interface GenericTypeParameter {
+  name: string;
+  isPack: boolean; // `T...`
+  default?: TypeNode;
+}
+
+export interface TypeReference extends BaseNode {
+  type: "TypeReference";
+  prefix?: string; // module in `Module.Type`
+  name: string;
+  parameters?: TypeNode[];
+}
+
+export interface TypeString extends BaseNode {
+  type: "TypeString";
+  value: string;
+  raw?: string;
+}
+
+export interface TypeTableProperty {
+  access?: "read" | "write";
+  name: string;
+  value: TypeNode;
+}
+
+export interface TypeTableIndexer {
+  access?: "read" | "write";
+  key: TypeNode;
+  value: TypeNode;
+}
+
+export interface TypeTable extends BaseNode {
+  type: "TypeTable";
+  properties: TypeTableProperty[];
+  indexer?: TypeTableIndexer;
+  array?: TypeNode; // `{ T }` shorthand
+}
+
+export interface TypeFunction extends BaseNode {
+  type: "TypeFunction";
+  typeParameters?: GenericTypeParameter[];
+  parameters: { name?: string; value: TypeNode }[];
+  returnType: TypeNode;
+}
+
+export interface TypeUnion extends BaseNode {
+  type: "TypeUnion";
+  types: TypeNode[];
+}
+
+export interface TypeIntersection extends BaseNode {
+  type: "TypeIntersection";
+  types: TypeNode[];
+}
+
+export interface TypeOptional extends BaseNode {
+  type: "TypeOptional";
+  value: TypeNode;
+}
+
+export interface TypeTypeof extends BaseNode {
+  type: "TypeTypeof";
+  expression: Expression;
+}
+
+export interface TypeParenthesized extends BaseNode {
+  type: "TypeParenthesized";
+  value: TypeNode;
+}
+
+// `(A, B)` in return position or as a generic argument
+export interface TypePack extends BaseNode {
+  type: "TypePack";
+  types: TypeNode[];
+}
+
+export interface TypeVariadic extends BaseNode {
+  type: "TypeVariadic";
+  value: TypeNode; // `...T`
+}
+
+export interface TypeGenericPack extends BaseNode {
+  type: "TypeGenericPack";
+  name: string; // `T...`
+}
+
+export type TypeNode =
+  | TypeReference
+  | TypeString
+  | TypeTable
+  | TypeFunction
+  | TypeUnion
+  | TypeIntersection
+  | TypeOptional
+  | TypeTypeof
+  | TypeParenthesized
+  | TypePack
+  | TypeVariadic
+  | TypeGenericPack;
+
+// Statements
+
+export interface LocalStatement extends BaseNode {
+  type: "LocalStatement";
+  variables: Identifier[];
+  init: Expression[];
+}
+
+export interface AssignmentStatement extends BaseNode {
+  type: "AssignmentStatement";
+  variables: Expression[];
+  init: Expression[];
+}
+
+export interface CompoundAssignmentStatement extends BaseNode {
+  type: "CompoundAssignmentStatement";
+  operator: CompoundOperator;
+  variable: Expression;
+  value: Expression;
+}
+
+export interface CallStatement extends BaseNode {
+  type: "CallStatement";
+  expression: CallExpression;
+}
+
+export interface DoStatement extends BaseNode {
+  type: "DoStatement";
+  body: Statement[];
+}
+
+export interface WhileStatement extends BaseNode {
+  type: "WhileStatement";
+  condition: Expression;
+  body: Statement[];
+}
+
+export interface RepeatStatement extends BaseNode {
+  type: "RepeatStatement";
+  body: Statement[];
+  condition: Expression;
+}
+
+export interface IfClause extends BaseNode {
+  type: "IfClause";
+  condition: Expression;
+  body: Statement[];
+}
+
+export interface IfStatement extends BaseNode {
+  type: "IfStatement";
+  clauses: IfClause[]; // `if` followed by every `elseif`
+  orelse: Statement[] | null;
+}
+
+export interface NumericForStatement extends BaseNode {
+  type: "NumericForStatement";
+  variable: Identifier;
+  start: Expression;
+  end: Expression;
+  step: Expression | null;
+  body: Statement[];
+}
+
+export interface GenericForStatement extends BaseNode {
+  type: "GenericForStatement";
+  variables: Identifier[];
+  iterators: Expression[];
+  body: Statement[];
+}
+
+export interface FunctionDeclaration extends BaseNode, FunctionSignature {
+  type: "FunctionDeclaration";
+  // `local function f` has an Identifier; `function a.b:c` a MemberExpression
+  identifier: Identifier | MemberExpression;
+  isLocal: boolean;
+  parameters: Identifier[];
+  isVararg: boolean;
+  body: Statement[];
+}
+
+export interface ReturnStatement extends BaseNode {
+  type: "ReturnStatement";
+  arguments: Expression[];
+}
+
+export interface BreakStatement extends BaseNode {
+  type: "BreakStatement";
+}
+
+export interface ContinueStatement extends BaseNode {
+  type: "ContinueStatement";
+}
+
+export interface TypeAliasStatement extends BaseNode {
+  type: "TypeAliasStatement";
+  name: string;
+  isExported: boolean;
+  typeParameters?: GenericTypeParameter[];
+  value: TypeNode;
+}
+
+export type Statement =
+  | LocalStatement
+  | AssignmentStatement
+  | CompoundAssignmentStatement
+  | CallStatement
+  | DoStatement
+  | WhileStatement
+  | RepeatStatement
+  | IfStatement
+  | NumericForStatement
+  | GenericForStatement
+  | FunctionDeclaration
+  | ReturnStatement
+  | BreakStatement
+  | ContinueStatement
+  | TypeAliasStatement;
+
+export interface Chunk extends BaseNode {
+  type: "Chunk";
+  body: Statement[];
+}
+
+export type FunctionNode = FunctionDeclaration | FunctionExpression;
+
+export type Node =
+  Chunk | Statement | Expression | IfClause | TableField | TypeNode;
+
+/**
+ * Direct children of a node, in source order.
+ */
+export function childrenOf(node: Node): Node[] {
+  switch (node.type) {
+    case "Chunk":
+    case "DoStatement":
+      return node.body;
+    case "LocalStatement":
+      return [...node.variables, ...node.init];
+    case "AssignmentStatement":
+      return [...node.variables, ...node.init];
+    case "CompoundAssignmentStatement":
+      return [node.variable, node.value];
+    case "CallStatement":
+      return [node.expression];
+    case "WhileStatement":
+      return [node.condition, ...node.body];
+    case "RepeatStatement":
+      return [...node.body, node.condition];
+    case "IfStatement":
+      return [...node.clauses, ...(node.orelse ?? [])];
+    case "IfClause":
+      return [node.condition, ...node.body];
+    case "NumericForStatement":
+      return [
+        node.variable,
+        node.start,
+        node.end,
+        ...(node.step ? [node.step] : []),
+        ...node.body,
+      ];
+    case "GenericForStatement":
+      return [...node.variables, ...node.iterators, ...node.body];
+    case "FunctionDeclaration":
+      return [
+        node.identifier,
+        ...signatureTypes(node),
+        ...node.parameters,
+        ...node.body,
+      ];
+    case "FunctionExpression":
+      return [...signatureTypes(node), ...node.parameters, ...node.body];
+    case "TypeAliasStatement":
+      return [...genericDefaults(node.typeParameters), node.value];
+    case "Identifier":
+      return node.typeAnnotation ? [node.typeAnnotation] : [];
+    case "ReturnStatement":
+      return node.arguments;
+    case "TableConstructorExpression":
+      return node.fields;
+    case "TableKey":
+    case "TableKeyString":
+      return [node.key, node.value];
+    case "TableValue":
+      return [node.value];
+    case "BinaryExpression":
+      return [node.left, node.right];
+    case "UnaryExpression":
+      return [node.argument];
+    case "ParenthesizedExpression":
+      return [node.expression];
+    case "MemberExpression":
+      return [node.base, node.identifier];
+    case "IndexExpression":
+      return [node.base, node.index];
+    case "CallExpression":
+      return [node.base, ...node.arguments];
+    case "IfExpression":
+      return [
+        ...node.clauses.flatMap((clause) => [clause.condition, clause.value]),
+        node.orelse,
+      ];
+    case "InterpolatedStringExpression":
+      return node.expressions;
+    case "TypeAssertionExpression":
+      return [node.expression, node.annotation];
+    case "TypeReference":
+      return node.parameters ?? [];
+    case "TypeTable":
+      return [
+        ...node.properties.map((property) => property.value),
+        ...(node.indexer ? [node.indexer.key, node.indexer.value] : []),
+        ...(node.array ? [node.array] : []),
+      ];
+    case "TypeFunction":
+      return [
+        ...genericDefaults(node.typeParameters),
+        ...node.parameters.map((parameter) => parameter.value),
+        node.returnType,
+      ];
+    case "TypeUnion":
+    case "TypeIntersection":
+    case "TypePack":
+      return node.types;
+    case "TypeOptional":
+    case "TypeParenthesized":
+    case "TypeVariadic":
+      return [node.value];
+    case "TypeTypeof":
+      return [node.expression];
+    default:
+      return [];
+  }
+}
+
+function genericDefaults(parameters?: GenericTypeParameter[]): TypeNode[] {
+  return (parameters ?? []).flatMap((p) => (p.default ? [p.default] : []));
+}
+
+function signatureTypes(node: FunctionNode): TypeNode[] {
+  return [
+    ...genericDefaults(node.typeParameters),
+    ...(node.varargAnnotation ? [node.varargAnnotation] : []),
+    ...(node.returnType ? [node.returnType] : []),
+  ];
+}
+
+export function isTypeNode(node: Node): node is TypeNode {
+  return (
+    node.type.startsWith("Type") &&
+    node.type !== "TypeAliasStatement" &&
+    node.type !== "TypeAssertionExpression"
+  );
+}
+
+/**
+ * Depth-first traversal. Returning `false` from `enter` skips the node's
+ * children.
+ */
+export function walk(
+  node: Node,
+  enter: (node: Node, parent: Node | null) => boolean | void,
+  leave?: (node: Node, parent: Node | null) => void,
+  parent: Node | null = null,
+): void {
+  if (enter(node, parent) === false) return;
+  for (const child of childrenOf(node)) {
+    walk(child, enter, leave, node);
+  }
+  leave?.(node, parent);
+}
+
+/**
+ * True for identifiers that name a variable, as opposed to a field name in
+ * `a.b`, `a:b()` or `{ b = 1 }`.
+ */
+export function isVariableReference(
+  node: Identifier,
+  parent: Node | null,
+): boolean {
+  if (!parent) return true;
+  if (parent.type === "MemberExpression") return parent.base === node;
+  if (parent.type === "TableKeyString") return parent.value === node;
+  return true;
+}
+
+/**
+ * Every statement list reachable from `node`, outermost first. Passes that
+ * insert or remove statements work on these arrays in place.
+ */
+export function collectBlocks(node: Node): Statement[][] {
+  const blocks: Statement[][] = [];
+  walk(node, (current) => {
+    switch (current.type) {
+      case "Chunk":
+      case "DoStatement":
+      case "WhileStatement":
+      case "RepeatStatement":
+      case "IfClause":
+      case "NumericForStatement":
+      case "GenericForStatement":
+      case "FunctionDeclaration":
+      case "FunctionExpression":
+        blocks.push(current.body);
+        break;
+      case "IfStatement":
+        if (current.orelse) blocks.push(current.orelse);
+        break;
+    }
+  });
+  return blocks;
+}
+
+/**
+ * Rewrite every expression under `node` bottom-up. `visit` receives an
+ * expression whose children have already been rewritten and returns its
+ * replacement (or the same node). Statements are updated in place.
+ */
+export function transformExpressions(
+  node: Node,
+  visit: (expression: Expression) => Expression,
+): void {
+  const map = (expression: Expression): Expression => {
+    transformExpressions(expression, visit);
+    return visit(expression);
+  };
+  const mapAll = (list: Expression[]) => {
+    for (let i = 0; i < list.length; i++) list[i] = map(list[i]);
+  };
+  const mapBody = (body: Statement[]) => {
+    for (const statement of body) transformExpressions(statement, visit);
+  };
+
+  switch (node.type) {
+    case "Chunk":
+    case "DoStatement":
+      mapBody(node.body);
+      return;
+    case "LocalStatement":
+      mapAll(node.init);
+      return;
+    case "AssignmentStatement":
+      // Targets are rewritten field by field so they stay assignable
+      for (const target of node.variables) transformExpressions(target, visit);
+      mapAll(node.init);
+      return;
+    case "CompoundAssignmentStatement":
+      transformExpressions(node.variable, visit);
+      node.value = map(node.value);
+      return;
+    case "CallStatement":
+      transformExpressions(node.expression, visit);
+      return;
+    case "WhileStatement":
+    case "RepeatStatement":
+      node.condition = map(node.condition);
+      mapBody(node.body);
+      return;
+    case "IfStatement":
+      for (const clause of node.clauses) transformExpressions(clause, visit);
+      if (node.orelse) mapBody(node.orelse);
+      return;
+    case "IfClause":
+      node.condition = map(node.condition);
+      mapBody(node.body);
+      return;
+    case "NumericForStatement":
+      node.start = map(node.start);
+      node.end = map(node.end);
+      if (node.step) node.step = map(node.step);
+      mapBody(node.body);
+      return;
+    case "GenericForStatement":
+      mapAll(node.iterators);
+      mapBody(node.body);
+      return;
+    case "FunctionDeclaration":
+      if (node.identifier.type === "MemberExpression") {
+        transformExpressions(node.identifier, visit);
+      }
+      mapBody(node.body);
+      return;
+    case "FunctionExpression":
+      mapBody(node.body);
+      return;
+    case "ReturnStatement":
+      mapAll(node.arguments);
+      return;
+    case "TableConstructorExpression":
+      for (const field of node.fields) transformExpressions(field, visit);
+      return;
+    case "TableKey":
+      node.key = map(node.key);
+      node.value = map(node.value);
+      return;
+    case "TableKeyString":
+    case "TableValue":
+      node.value = map(node.value);
+      return;
+    case "BinaryExpression":
+      node.left = map(node.left);
+      node.right = map(node.right);
+      return;
+    case "UnaryExpression":
+      node.argument = map(node.argument);
+      return;
+    case "ParenthesizedExpression":
+      node.expression = map(node.expression);
+      return;
+    case "MemberExpression":
+      node.base = map(node.base);
+      return;
+    case "IndexExpression":
+      node.base = map(node.base);
+      node.index = map(node.index);
+      return;
+    case "CallExpression":
+      // The callee keeps its own node so `a:b()` stays a method call
+      if (node.base.type === "MemberExpression") {
+        transformExpressions(node.base, visit);
+      } else {
+        node.base = map(node.base);
+      }
+      mapAll(node.arguments);
+      return;
+    case "IfExpression":
+      for (const clause of node.clauses) {
+        clause.condition = map(clause.condition);
+        clause.value = map(clause.value);
+      }
+      node.orelse = map(node.orelse);
+      return;
+    case "InterpolatedStringExpression":
+      mapAll(node.expressions);
+      return;
+    case "TypeAssertionExpression":
+      node.expression = map(node.expression);
+      return;
+  }
+}
@@ -0,0 +1,90 @@
+import type {
+  BinaryExpression,
+  BinaryOperator,
+  BooleanLiteral,
+  CallExpression,
+  Expression,
+  Identifier,
+  IndexExpression,
+  MemberExpression,
+  NilLiteral,
+  NumericLiteral,
+  ParenthesizedExpression,
+  StringLiteral,
+  UnaryExpression,
+  UnaryOperator,
+} from "./ast";
+
+// Small constructors for synthesized nodes. Generated nodes carry no `loc`
+// and no `raw`, so the printer formats them from their values.
+
+export function identifier(name: string): Identifier {
+  return { type: "Identifier", name };
+}
+
+export function nil(): NilLiteral {
+  return { type: "NilLiteral" };
+}
+
+export function boolean(value: boolean): BooleanLiteral {
+  return { type: "BooleanLiteral", value };
+}
+
+export function number(value: number): NumericLiteral {
+  return { type: "NumericLiteral", value };
+}
+
+export function string(value: string): StringLiteral {
+  return { type: "StringLiteral", value };
+}
+
+export function binary(
+  operator: BinaryOperator,
+  left: Expression,
+  right: Expression,
+): BinaryExpression {
+  return { type: "BinaryExpression", operator, left, right };
+}
+
+export function unary(
+  operator: UnaryOperator,
+  argument: Expression,
+): UnaryExpression {
+  return { type: "UnaryExpression", operator, argument };
+}
+
+export function paren(expression: Expression): ParenthesizedExpression {
+  return { type: "ParenthesizedExpression", expression };
+}
+
+export function member(
+  base: Expression,
+  name: string,
+  indexer: "." | ":" = ".",
+): MemberExpression {
+  return {
+    type: "MemberExpression",
+    base,
+    indexer,
+    identifier: identifier(name),
+  };
+}
+
+export function index(base: Expression, key: Expression): IndexExpression {
+  return { type: "IndexExpression", base, index: key };
+}
+
+export function call(base: Expression, args: Expression[]): CallExpression {
+  return { type: "CallExpression", base, arguments: args };
+}
+
+/**
+ * `a.b.c` from a dotted path.
+ */
+export function path(dotted: string): Expression {
+  const [head, ...rest] = dotted.split(".");
+  return rest.reduce<Expression>(
+    (base, name) => member(base, name),
+    identifier(head),
+  );
+}
@@ -0,0 +1,289 @@
+import {
+  transformExpressions,
+  type BinaryExpression,
+  type BinaryOperator,
+  type CallExpression,
+  type Chunk,
+  type Expression,
+  type Identifier,
+} from "./ast";
+import * as b from "./builders";
+import { analyzeScopes } from "./scope";
+
+type Literal = Expression & {
+  type: "NilLiteral" | "BooleanLiteral" | "NumericLiteral" | "StringLiteral";
+};
+
+function isLiteral(node: Expression): node is Literal {
+  return (
+    node.type === "NilLiteral" ||
+    node.type === "BooleanLiteral" ||
+    node.type === "NumericLiteral" ||
+    node.type === "StringLiteral"
+  );
+}
+
+function literalValue(node: Literal): string | number | boolean | null {
+  return node.type === "NilLiteral" ? null : node.value;
+}
+
+function isTruthy(node: Literal): boolean {
+  return !(
+    node.type === "NilLiteral" ||
+    (node.type === "BooleanLiteral" && !node.value)
+  );
+}
+
+// A folded number has to print back as the same value; infinities and NaN
+// would need a global (`math.huge`) and -0 prints as 0
+function numberResult(value: number): Expression | null {
+  return Number.isFinite(value) && !Object.is(value, -0)
+    ? b.number(value)
+    : null;
+}
+
+export const ARITHMETIC: Partial<
+  Record<BinaryOperator, (left: number, right: number) => number>
+> = {
+  "+": (left, right) => left + right,
+  "-": (left, right) => left - right,
+  "*": (left, right) => left * right,
+  "/": (left, right) => left / right,
+  "//": (left, right) => Math.floor(left / right),
+  // Lua's modulo takes the sign of the divisor
+  "%": (left, right) => left - Math.floor(left / right) * right,
+  "^": (left, right) => Math.pow(left, right),
+};
+
+export const COMPARISON: Partial<
+  Record<BinaryOperator, (left: number, right: number) => boolean>
+> = {
+  "<": (left, right) => left < right,
+  "<=": (left, right) => left <= right,
+  ">": (left, right) => left > right,
+  ">=": (left, right) => left >= right,
+};
+
+// How Lua turns a number into text for `..`. Luau and Lua 5.1 agree on
+// integers of this size; other numbers are left alone.
+function concatText(node: Literal): string | null {
+  if (node.type === "StringLiteral") return node.value;
+  if (
+    node.type === "NumericLiteral" &&
+    Number.isInteger(node.value) &&
+    Math.abs(node.value) < 1e14
+  ) {
+    return node.value.toFixed(0);
+  }
+  return null;
+}
+
+// `x and f()` yields one value, so a call or `...` taking its place must
+// stay truncated
+function singleValue(node: Expression): Expression {
+  return node.type === "CallExpression" || node.type === "VarargLiteral"
+    ? b.paren(node)
+    : node;
+}
+
+function foldBinary(node: BinaryExpression): Expression | null {
+  const { left, right, operator } = node;
+  if (operator === "and" || operator === "or") {
+    if (!isLiteral(left)) return null;
+    const pickLeft = isTruthy(left) === (operator === "or");
+    return pickLeft ? left : singleValue(right);
+  }
+  if (!isLiteral(left) || !isLiteral(right)) return null;
+
+  if (operator === "==" || operator === "~=") {
+    const equal = literalValue(left) === literalValue(right);
+    return b.boolean(operator === "==" ? equal : !equal);
+  }
+  if (operator === "..") {
+    const leftText = concatText(left);
+    const rightText = concatText(right);
+    return leftText !== null && rightText !== null
+      ? b.string(leftText + rightText)
+      : null;
+  }
+  // Arithmetic on strings coerces them, and string ordering depends on the
+  // host's locale, so only numbers are folded
+  if (left.type !== "NumericLiteral" || right.type !== "NumericLiteral") {
+    return null;
+  }
+  const arithmetic = ARITHMETIC[operator];
+  if (arithmetic) return numberResult(arithmetic(left.value, right.value));
+  const comparison = COMPARISON[operator];
+  if (comparison) return b.boolean(comparison(left.value, right.value));
+  return null;
+}
+
+// Longest string `string.rep` may build; anything longer stays a call
+const MAX_REPEAT_LENGTH = 4096;
+
+// Where `i` counts from for `string.sub` and `string.byte`: negative
+// positions count back from the end
+function position(index: number, length: number): number {
+  return index < 0 ? length + index + 1 : index;
+}
+
+// Integer arguments only; Lua would coerce numeric strings and truncate
+// fractions, but obfuscators don't rely on that
+function integerArguments(args: Expression[]): number[] | null {
+  const values: number[] = [];
+  for (const arg of args) {
+    if (arg.type !== "NumericLiteral" || !Number.isInteger(arg.value)) {
+      return null;
+    }
+    values.push(arg.value);
+  }
+  return values;
+}
+
+const STRING_FUNCTIONS: Record<
+  string,
+  (subject: string | null, args: number[]) => Expression | null
+> = {
+  char: (subject, codes) =>
+    subject === null && codes.every((code) => code >= 0 && code <= 255)
+      ? b.string(String.fromCharCode(...codes))
+      : null,
+  byte: (subject, [start = 1, end = start]) => {
+    if (subject === null) return null;
+    const first = Math.max(position(start, subject.length), 1);
+    const last = Math.min(position(end, subject.length), subject.length);
+    // A call returning several bytes, or none, has no single literal to
+    // stand in for it
+    return first === last ? b.number(subject.charCodeAt(first - 1)) : null;
+  },
+  rep: (subject, [count, ...rest]) => {
+    if (subject === null || count === undefined || rest.length > 0) {
+      return null;
+    }
+    if (subject.length * count > MAX_REPEAT_LENGTH) return null;
+    return b.string(count > 0 ? subject.repeat(count) : "");
+  },
+  reverse: (subject, args) =>
+    subject !== null && args.length === 0
+      ? b.string(Array.from(subject).reverse().join(""))
+      : null,
+  sub: (subject, [start, end = -1, ...rest]) => {
+    if (subject === null || start === undefined || rest.length > 0) {
+      return null;
+    }
+    const first = Math.max(position(start, subject.length), 1);
+    const last = Math.min(position(end, subject.length), subject.length);
+    return b.string(first <= last ? subject.slice(first - 1, last) : "");
+  },
+};
+
+// `string.f(...)` or `("literal"):f(...)` with constant arguments. For the
+// first form `string` has to be the global, not a local that shadows it.
+function foldStringCall(
+  node: CallExpression,
+  isGlobalString: (identifier: Identifier) => boolean,
+): Expression | null {
+  const callee = node.base;
+  if (callee.type !== "MemberExpression") return null;
+  const fold = Object.hasOwn(STRING_FUNCTIONS, callee.identifier.name)
+    ? STRING_FUNCTIONS[callee.identifier.name]
+    : undefined;
+  if (!fold) return null;
+
+  if (
+    callee.indexer === "." &&
+    callee.base.type === "Identifier" &&
+    isGlobalString(callee.base)
+  ) {
+    const [first, ...rest] = node.arguments;
+    // Every function but `char` takes the string first
+    if (callee.identifier.name === "char") {
+      const codes = integerArguments(node.arguments);
+      return codes && fold(null, codes);
+    }
+    if (first?.type !== "StringLiteral") return null;
+    const args = integerArguments(rest);
+    return args && fold(first.value, args);
+  }
+  if (callee.indexer === ":" && callee.base.type === "StringLiteral") {
+    const args = integerArguments(node.arguments);
+    return args && fold(callee.base.value, args);
+  }
+  return null;
+}
+
+function foldExpression(node: Expression): Expression | null {
+  switch (node.type) {
+    case "ParenthesizedExpression":
+      return isLiteral(node.expression) ? node.expression : null;
+    case "UnaryExpression": {
+      const argument = node.argument;
+      if (!isLiteral(argument)) return null;
+      if (node.operator === "not") return b.boolean(!isTruthy(argument));
+      if (node.operator === "-" && argument.type === "NumericLiteral") {
+        return numberResult(-argument.value);
+      }
+      if (node.operator === "#" && argument.type === "StringLiteral") {
+        return b.number(argument.value.length);
+      }
+      return null;
+    }
+    case "BinaryExpression":
+      return foldBinary(node);
+    default:
+      return null;
+  }
+}
+
+export interface FoldOptions {
+  // Also evaluate `string.char`, `string.byte`, `string.rep`,
+  // `string.reverse` and `string.sub` on constants. Assumes nothing has replaced the standard
+  // library functions, which holds for the scripts obfuscators produce but
+  // not for every script.
+  stringLibrary?: boolean;
+  // Whether to put a folded expression in place of the original; by
+  // default every one is
+  accept?: (folded: Expression, original: Expression) => boolean;
+}
+
+export interface FoldResult {
+  // Expressions replaced by a simpler one
+  folded: number;
+  // String library calls among them
+  stringCalls: number;
+}
+
+/**
+ * Evaluate operators whose operands are literals: arithmetic and comparisons
+ * on numbers, `..` on strings, `==`, `not`, `#` on strings, and `and`/`or`
+ * with a literal on the left. Folding runs bottom-up, so nested expressions
+ * collapse as far as their constants allow.
+ */
+export function foldConstants(
+  chunk: Chunk,
+  options: FoldOptions = {},
+): FoldResult {
+  let globalStrings: Set<Identifier> | null = null;
+  if (options.stringLibrary) {
+    globalStrings = new Set(analyzeScopes(chunk).globals.get("string"));
+  }
+
+  const result: FoldResult = { folded: 0, stringCalls: 0 };
+  transformExpressions(chunk, (expression) => {
+    let folded = foldExpression(expression);
+    let stringCall = false;
+    if (!folded && globalStrings && expression.type === "CallExpression") {
+      folded = foldStringCall(expression, (identifier) =>
+        globalStrings.has(identifier),
+      );
+      stringCall = folded !== null;
+    }
+    if (!folded || (options.accept && !options.accept(folded, expression))) {
+      return expression;
+    }
+    result.folded++;
+    if (stringCall) result.stringCalls++;
+    return folded;
+  });
+  return result;
+}
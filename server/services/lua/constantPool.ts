@@ -0,0 +1,189 @@
+import type { Expression, IndexExpression, Statement } from "./ast";
+import * as b from "./builders";
+import { parse } from "./parser";
+
+export interface ConstantPoolOptions {
+  level: "light" | "medium" | "heavy";
+  random: () => number;
+  // Returns a name that is not used anywhere in the chunk
+  generateName: () => string;
+}
+
+// Every entry is tagged so the decoder knows whether to hand back a string or
+// convert the text back into a number
+const STRING_TAG = "s";
+const NUMBER_TAG = "n";
+
+function randomByte(random: () => number): number {
+  return Math.floor(random() * 256);
+}
+
+/**
+ * Collects string and number constants into one table at the top of the
+ * script. The table holds the constants encrypted, and a generated decoder
+ * recovers them once at startup so each use site becomes a plain index.
+ *
+ * - light: XOR with a single key byte
+ * - medium: XOR with a repeating multi-byte key
+ * - heavy: XOR with a rolling key that is re-seeded for every entry and
+ *   advanced by each decrypted byte
+ */
+export class ConstantPool {
+  private readonly entries: string[] = [];
+  private readonly indexOf = new Map<string, number>();
+  private readonly references: { entry: number; node: IndexExpression }[] = [];
+  private readonly valuesName: string;
+
+  constructor(private readonly options: ConstantPoolOptions) {
+    this.valuesName = options.generateName();
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * An expression that reads `value` from the pool. Equal constants share one
+   * entry.
+   */
+  reference(value: string | number): Expression {
+    const entry =
+      typeof value === "number"
+        ? NUMBER_TAG + String(value)
+        : STRING_TAG + value;
+    let index = this.indexOf.get(entry);
+    if (index === undefined) {
+      index = this.entries.length;
+      this.entries.push(entry);
+      this.indexOf.set(entry, index);
+    }
+    const node = b.index(b.identifier(this.valuesName), b.number(index + 1));
+    this.references.push({ entry: index, node });
+    return node;
+  }
+
+  /**
+   * The encrypted table and its decoder, to be placed before any code that
+   * reads from the pool. Also shuffles the entries and renumbers the
+   * references handed out so far.
+   */
+  declarations(): Statement[] {
+    const { level, random, generateName } = this.options;
+
+    const order = this.entries.map((_, index) => index);
+    if (level !== "light") {
+      for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+      }
+    }
+    const slotOf = new Map(order.map((entry, slot) => [entry, slot]));
+    for (const { entry, node } of this.references) {
+      node.index = b.number(slotOf.get(entry)! + 1);
+    }
+
+    const [pool, xor, i, j, s, o, k, c, v, a, bb, r, p, x, y, key] = Array.from(
+      { length: 16 },
+      generateName,
+    );
+
+    // Decoder fragments: run once, run per entry, key byte for position `j`,
+    // and how the key moves on after each byte
+    let setup = "";
+    let entrySetup = "";
+    let keyAt: string;
+    let advance = "";
+    let encrypt: (bytes: number[], slot: number) => number[];
+    if (level === "light") {
+      const k0 = 1 + Math.floor(random() * 255);
+      keyAt = String(k0);
+      encrypt = (bytes) => bytes.map((byte) => byte ^ k0);
+    } else if (level === "medium") {
+      const keyBytes = Array.from(
+        { length: 4 + Math.floor(random() * 5) },
+        () => randomByte(random),
+      );
+      setup = `local ${key} = { ${keyBytes.join(", ")} }`;
+      keyAt = `${key}[(${j} - 1) % ${keyBytes.length} + 1]`;
+      encrypt = (bytes) =>
+        bytes.map((byte, n) => byte ^ keyBytes[n % keyBytes.length]);
+    } else {
+      const seed = randomByte(random);
+      const stride = 1 + 2 * Math.floor(random() * 64);
+      const multiplier = 1 + 4 * Math.floor(random() * 32);
+      const increment = randomByte(random);
+      entrySetup = `local ${k} = (${seed} + ${i} * ${stride}) % 256`;
+      keyAt = k;
+      advance = `${k} = (${k} * ${multiplier} + ${c} + ${increment}) % 256`;
+      encrypt = (bytes, slot) => {
+        let state = (seed + (slot + 1) * stride) % 256;
+        return bytes.map((byte) => {
+          const out = byte ^ state;
+          state = (state * multiplier + byte + increment) % 256;
+          return out;
+        });
+      };
+    }
+
+    const table: Expression = {
+      type: "TableConstructorExpression",
+      fields: order.map((entry, slot) => {
+        // String values are already byte strings
+        const bytes = Array.from(this.entries[entry]).map((char) =>
+          char.charCodeAt(0),
+        );
+        return {
+          type: "TableValue" as const,
+          value: b.string(
+            encrypt(bytes, slot)
+              .map((byte) => String.fromCharCode(byte))
+              .join(""),
+          ),
+        };
+      }),
+    };
+
+    // Lua 5.1 has no bitwise operators, so XOR is done bit by bit
+    const decoder = parse(`
+local ${this.valuesName} = {}
+do
+  ${setup}
+  local function ${xor}(${a}, ${bb})
+    local ${r}, ${p} = 0, 1
+    for _ = 1, 8 do
+      local ${x}, ${y} = ${a} % 2, ${bb} % 2
+      if ${x} ~= ${y} then
+        ${r} = ${r} + ${p}
+      end
+      ${a}, ${bb}, ${p} = (${a} - ${x}) / 2, (${bb} - ${y}) / 2, ${p} * 2
+    end
+    return ${r}
+  end
+  for ${i} = 1, #${pool} do
+    local ${s}, ${o} = ${pool}[${i}], {}
+    ${entrySetup}
+    for ${j} = 1, #${s} do
+      local ${c} = ${xor}(string.byte(${s}, ${j}), ${keyAt})
+      ${o}[${j}] = string.char(${c})
+      ${advance}
+    end
+    local ${v} = table.concat(${o})
+    if string.sub(${v}, 1, 1) == "${NUMBER_TAG}" then
+      ${this.valuesName}[${i}] = tonumber(string.sub(${v}, 2))
+    else
+      ${this.valuesName}[${i}] = string.sub(${v}, 2)
+    end
+  end
+end
+`).chunk.body;
+
+    return [
+      {
+        type: "LocalStatement",
+        variables: [b.identifier(pool)],
+        init: [table],
+      },
+      ...decoder,
+    ];
+  }
+}
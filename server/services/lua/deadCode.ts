@@ -0,0 +1,292 @@
+import {
+  collectBlocks,
+  walk,
+  type Chunk,
+  type Expression,
+  type IfClause,
+  type IfStatement,
+  type Node,
+  type Statement,
+  type WhileStatement,
+} from "./ast";
+import { ARITHMETIC, COMPARISON } from "./constantFolding";
+import { analyzeScopes, type Binding, type ScopeAnalysis } from "./scope";
+
+export type ConstantValue = number | boolean;
+
+// Value of a variable or table read, when it is known
+export type ConstantLookup = (node: Expression) => number | undefined;
+
+function isTruthy(value: ConstantValue): boolean {
+  return value !== false;
+}
+
+/**
+ * Evaluate a condition built from numbers, booleans and reads whose values
+ * `lookup` knows. Returns undefined as soon as anything is unknown.
+ */
+export function evaluateConstant(
+  node: Expression,
+  lookup: ConstantLookup,
+): ConstantValue | undefined {
+  switch (node.type) {
+    case "NumericLiteral":
+    case "BooleanLiteral":
+      return node.value;
+    case "ParenthesizedExpression":
+      return evaluateConstant(node.expression, lookup);
+    case "Identifier":
+    case "IndexExpression":
+      return lookup(node);
+    case "UnaryExpression": {
+      const argument = evaluateConstant(node.argument, lookup);
+      if (argument === undefined) return undefined;
+      if (node.operator === "not") return !isTruthy(argument);
+      if (node.operator === "-" && typeof argument === "number") {
+        return -argument;
+      }
+      return undefined;
+    }
+    case "BinaryExpression": {
+      const left = evaluateConstant(node.left, lookup);
+      if (left === undefined) return undefined;
+      // `and`/`or` settle on the left operand alone when they can
+      if (node.operator === "and" && !isTruthy(left)) return left;
+      if (node.operator === "or" && isTruthy(left)) return left;
+      const right = evaluateConstant(node.right, lookup);
+      if (right === undefined) return undefined;
+      if (node.operator === "and" || node.operator === "or") return right;
+      if (node.operator === "==") return left === right;
+      if (node.operator === "~=") return left !== right;
+      if (typeof left !== "number" || typeof right !== "number") {
+        return undefined;
+      }
+      const arithmetic = ARITHMETIC[node.operator];
+      if (arithmetic) return arithmetic(left, right);
+      const comparison = COMPARISON[node.operator];
+      return comparison?.(left, right);
+    }
+    default:
+      return undefined;
+  }
+}
+
+// `local t = { 12, 7, ... }` tables of numbers whose every use is `t[n]`
+function numberTables(
+  chunk: Chunk,
+  analysis: ScopeAnalysis,
+): Map<Binding, number[]> {
+  const tables = new Map<Binding, number[]>();
+  walk(chunk, (node) => {
+    if (
+      node.type !== "LocalStatement" ||
+      node.variables.length !== 1 ||
+      node.init.length !== 1 ||
+      node.init[0].type !== "TableConstructorExpression"
+    ) {
+      return;
+    }
+    const values: number[] = [];
+    for (const field of node.init[0].fields) {
+      if (
+        field.type !== "TableValue" ||
+        field.value.type !== "NumericLiteral"
+      ) {
+        return;
+      }
+      values.push(field.value.value);
+    }
+    const binding = analysis.resolved.get(node.variables[0]);
+    if (binding) tables.set(binding, values);
+  });
+
+  walk(chunk, (node, parent) => {
+    if (node.type !== "Identifier") return;
+    const binding = analysis.resolved.get(node);
+    if (!binding || !tables.has(binding) || node === binding.declaration) {
+      return;
+    }
+    if (
+      parent?.type !== "IndexExpression" ||
+      parent.base !== node ||
+      parent.index.type !== "NumericLiteral"
+    ) {
+      tables.delete(binding);
+    }
+  });
+  return tables;
+}
+
+type Decisions = Map<IfClause | WhileStatement, boolean>;
+
+// The bodies of an `if` that can still run given what's been decided
+function liveBodies(
+  statement: IfStatement,
+  decisions: Decisions,
+): Statement[][] {
+  const bodies: Statement[][] = [];
+  for (const clause of statement.clauses) {
+    const decision = decisions.get(clause);
+    if (decision === false) continue;
+    bodies.push(clause.body);
+    if (decision === true) return bodies;
+  }
+  if (statement.orelse) bodies.push(statement.orelse);
+  return bodies;
+}
+
+function walkLive(
+  node: Node,
+  decisions: Decisions,
+  visit: (node: Node, parent: Node | null) => void,
+): void {
+  walk(node, (current, parent) => {
+    visit(current, parent);
+    if (current.type === "IfStatement") {
+      for (const body of liveBodies(current, decisions)) {
+        for (const statement of body) walkLive(statement, decisions, visit);
+      }
+      return false;
+    }
+    if (current.type === "WhileStatement" && decisions.get(current) === false) {
+      return false;
+    }
+  });
+}
+
+// A block spliced into its parent must not leak locals into what follows
+function inline(body: Statement[]): Statement[] {
+  const declares = body.some(
+    (statement) =>
+      statement.type === "LocalStatement" ||
+      (statement.type === "FunctionDeclaration" && statement.isLocal),
+  );
+  return declares ? [{ type: "DoStatement", body }] : body;
+}
+
+// What replaces an `if` once its dead clauses are gone
+function pruneIf(statement: IfStatement, decisions: Decisions): Statement[] {
+  const clauses: IfClause[] = [];
+  let orelse = statement.orelse;
+  for (const clause of statement.clauses) {
+    const decision = decisions.get(clause);
+    if (decision === false) continue;
+    if (decision === true) {
+      orelse = clause.body;
+      break;
+    }
+    clauses.push(clause);
+  }
+  if (clauses.length === 0) return orelse ? inline(orelse) : [];
+  statement.clauses = clauses;
+  statement.orelse = orelse;
+  return [statement];
+}
+
+/**
+ * Remove `if` and `while` branches whose condition is settled: literal
+ * conditions, and opaque predicates over a table of numbers that is only
+ * ever written to from branches that are themselves dead. Returns how many
+ * branches were removed.
+ */
+export function removeDeadBranches(chunk: Chunk): number {
+  const analysis = analyzeScopes(chunk);
+  const tables = numberTables(chunk, analysis);
+  const lookup: ConstantLookup = (node) => {
+    if (
+      node.type !== "IndexExpression" ||
+      node.base.type !== "Identifier" ||
+      node.index.type !== "NumericLiteral"
+    ) {
+      return undefined;
+    }
+    const binding = analysis.resolved.get(node.base);
+    return binding && tables.get(binding)?.[node.index.value - 1];
+  };
+
+  const decide = (): Decisions => {
+    const decisions: Decisions = new Map();
+    walk(chunk, (node) => {
+      if (node.type !== "IfClause" && node.type !== "WhileStatement") return;
+      const value = evaluateConstant(node.condition, lookup);
+      if (value !== undefined) decisions.set(node, isTruthy(value));
+    });
+    return decisions;
+  };
+
+  // Assume every table is constant, then give up on the ones written to
+  // from code that can still run, until the assumption holds
+  let decisions = decide();
+  for (;;) {
+    const written = new Set<Binding>();
+    walkLive(chunk, decisions, (node) => {
+      const targets =
+        node.type === "AssignmentStatement"
+          ? node.variables
+          : node.type === "CompoundAssignmentStatement"
+            ? [node.variable]
+            : [];
+      for (const target of targets) {
+        if (target.type !== "IndexExpression") continue;
+        const binding =
+          target.base.type === "Identifier" &&
+          analysis.resolved.get(target.base);
+        if (binding && tables.has(binding)) written.add(binding);
+      }
+    });
+    if (written.size === 0) break;
+    written.forEach((binding) => tables.delete(binding));
+    decisions = decide();
+  }
+
+  let removed = 0;
+  // Innermost blocks first, so a body is pruned before it's spliced into
+  // its parent
+  for (const block of collectBlocks(chunk).reverse()) {
+    for (let i = block.length - 1; i >= 0; i--) {
+      const statement = block[i];
+      if (statement.type === "IfStatement") {
+        const branches = () =>
+          statement.clauses.length + (statement.orelse ? 1 : 0);
+        const before = branches();
+        const replacement = pruneIf(statement, decisions);
+        if (replacement[0] === statement) {
+          removed += before - branches();
+        } else {
+          removed += before - (replacement.length > 0 ? 1 : 0);
+          block.splice(i, 1, ...replacement);
+        }
+      } else if (
+        statement.type === "WhileStatement" &&
+        decisions.get(statement) === false
+      ) {
+        block.splice(i, 1);
+        removed++;
+      }
+    }
+  }
+
+  // Tables that only fed the removed predicates
+  for (const binding of Array.from(tables.keys())) {
+    let used = false;
+    walk(chunk, (node) => {
+      if (
+        node.type === "Identifier" &&
+        node !== binding.declaration &&
+        analysis.resolved.get(node) === binding
+      ) {
+        used = true;
+      }
+    });
+    if (used) continue;
+    for (const block of collectBlocks(chunk)) {
+      const index = block.findIndex(
+        (statement) =>
+          statement.type === "LocalStatement" &&
+          statement.variables[0] === binding.declaration,
+      );
+      if (index >= 0) block.splice(index, 1);
+    }
+  }
+  return removed;
+}
@@ -0,0 +1,714 @@
+import {
+  walk,
+  type Chunk,
+  type Expression,
+  type FunctionNode,
+  type Node,
+  type Statement,
+} from "./ast";
+import { evaluateConstant } from "./deadCode";
+import { parse } from "./parser";
+import { analyzeScopes, type Binding, type ScopeAnalysis } from "./scope";
+import { looksObfuscated } from "./semanticNames";
+
+export type Technique =
+  | "loadstringWrapper"
+  | "virtualMachine"
+  | "controlFlowFlattening"
+  | "constantPool"
+  | "junkCode"
+  | "proxyWrappers"
+  | "stringEncoding"
+  | "identifierMangling";
+
+export interface TechniqueDetection {
+  technique: Technique;
+  // 0 to 1: how sure the detector is that the technique was applied
+  confidence: number;
+  // What was seen, in a few words each
+  evidence: string[];
+}
+
+export interface ObfuscatorMatch {
+  name: string;
+  confidence: number;
+  evidence: string[];
+}
+
+export interface TechniqueReport {
+  // Most confident first; techniques that weren't seen are left out
+  techniques: TechniqueDetection[];
+  obfuscators: ObfuscatorMatch[];
+}
+
+// Confidence that grows with how much evidence there is, never reaching 1
+function grade(base: number, perItem: number, count: number): number {
+  return Math.round(Math.min(0.99, base + perItem * count) * 100) / 100;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+interface Context {
+  chunk: Chunk;
+  analysis: ScopeAnalysis;
+  // Locals holding a table of number literals, the kind opaque predicates
+  // and junk code read from
+  numberTables: Set<Binding>;
+}
+
+function isGlobal(node: Expression, name: string, context: Context): boolean {
+  return (
+    node.type === "Identifier" &&
+    node.name === name &&
+    !context.analysis.resolved.has(node)
+  );
+}
+
+// `string.char`, `string.byte` and friends, read from the global `string`
+function isStringFunction(
+  node: Expression,
+  name: string,
+  context: Context,
+): boolean {
+  return (
+    node.type === "MemberExpression" &&
+    node.indexer === "." &&
+    node.identifier.name === name &&
+    isGlobal(node.base, "string", context)
+  );
+}
+
+// Walks a function body or chunk without entering nested functions
+function walkBody(
+  body: Statement[],
+  enter: (node: Node, parent: Node | null) => void,
+): void {
+  for (const statement of body) {
+    walk(statement, (node, parent) => {
+      enter(node, parent);
+      if (
+        node.type === "FunctionExpression" ||
+        node.type === "FunctionDeclaration"
+      ) {
+        return false;
+      }
+    });
+  }
+}
+
+// `x == 12`, `12 == x` and the other comparisons with a literal, for `x`
+function comparedName(condition: Expression): string | null {
+  if (condition.type !== "BinaryExpression") return null;
+  if (!["==", "~=", "<", "<=", ">", ">="].includes(condition.operator)) {
+    return null;
+  }
+  const { left, right } = condition;
+  if (left.type === "Identifier" && right.type === "NumericLiteral") {
+    return left.name;
+  }
+  if (right.type === "Identifier" && left.type === "NumericLiteral") {
+    return right.name;
+  }
+  return null;
+}
+
+// Text a reader can make sense of, as opposed to encrypted bytes
+function isReadable(value: string): boolean {
+  return !/[^\x20-\x7e\n\t]/.test(value);
+}
+
+function detectLoadstring(context: Context): TechniqueDetection | null {
+  const evidence: string[] = [];
+  let computed = false;
+  walk(context.chunk, (node) => {
+    if (node.type !== "CallExpression") return;
+    const loader = ["loadstring", "load"].find((name) =>
+      isGlobal(node.base, name, context),
+    );
+    if (!loader) return;
+    const [argument] = node.arguments;
+    if (argument && argument.type !== "StringLiteral") computed = true;
+    evidence.push(
+      argument?.type === "StringLiteral"
+        ? `${loader} of a ${argument.value.length}-byte string`
+        : `${loader} of a computed string`,
+    );
+  });
+  if (evidence.length === 0) return null;
+  return {
+    technique: "loadstringWrapper",
+    confidence: computed ? 0.95 : 0.7,
+    evidence,
+  };
+}
+
+function detectVirtualMachine(context: Context): TechniqueDetection | null {
+  const evidence: string[] = [];
+  let handlers = 0;
+  walk(context.chunk, (node) => {
+    if (node.type !== "WhileStatement" && node.type !== "RepeatStatement") {
+      return;
+    }
+    // The opcode is fetched from the instruction array inside the loop...
+    const fetched = new Set<string>();
+    walkBody(node.body, (inner) => {
+      if (
+        inner.type !== "LocalStatement" &&
+        inner.type !== "AssignmentStatement"
+      ) {
+        return;
+      }
+      inner.variables.forEach((variable, i) => {
+        if (
+          variable.type === "Identifier" &&
+          inner.init[i]?.type === "IndexExpression"
+        ) {
+          fetched.add(variable.name);
+        }
+      });
+    });
+    // ...and compared against many opcode numbers, in a chain or a tree
+    const values = new Map<string, Set<number>>();
+    walkBody(node.body, (inner) => {
+      if (inner.type !== "IfClause") return;
+      const name = comparedName(inner.condition);
+      if (!name || !fetched.has(name)) return;
+      const { left, right } = inner.condition as Expression & {
+        type: "BinaryExpression";
+      };
+      const literal = left.type === "NumericLiteral" ? left : right;
+      if (literal.type !== "NumericLiteral") return;
+      const seen = values.get(name) ?? new Set<number>();
+      seen.add(literal.value);
+      values.set(name, seen);
+    });
+    values.forEach((seen, name) => {
+      if (seen.size < 12) return;
+      handlers = Math.max(handlers, seen.size);
+      evidence.push(
+        `dispatch loop comparing fetched '${name}' against ${seen.size} opcode numbers`,
+      );
+    });
+  });
+  if (evidence.length === 0) return null;
+
+  // The program rides along as a large blob of bytes or numbers
+  let blob = false;
+  walk(context.chunk, (node) => {
+    if (
+      node.type === "StringLiteral" &&
+      node.value.length >= 512 &&
+      !isReadable(node.value)
+    ) {
+      blob = true;
+    }
+    if (
+      node.type === "TableConstructorExpression" &&
+      node.fields.length >= 256
+    ) {
+      blob = true;
+    }
+  });
+  if (blob) evidence.push("large bytecode blob");
+  return {
+    technique: "virtualMachine",
+    confidence: grade(0.5 + (blob ? 0.2 : 0), 0.005, handlers),
+    evidence,
+  };
+}
+
+function detectFlattening(context: Context): TechniqueDetection | null {
+  let dispatchers = 0;
+  let blocks = 0;
+  walk(context.chunk, (node) => {
+    if (
+      node.type !== "WhileStatement" ||
+      node.condition.type !== "BinaryExpression"
+    ) {
+      return;
+    }
+    const state = comparedName(node.condition);
+    const [first] = node.body;
+    if (
+      node.condition.operator !== "~=" ||
+      !state ||
+      first?.type !== "IfStatement" ||
+      first.clauses.length < 3 ||
+      !first.clauses.every(
+        (clause) =>
+          clause.condition.type === "BinaryExpression" &&
+          clause.condition.operator === "==" &&
+          comparedName(clause.condition) === state,
+      )
+    ) {
+      return;
+    }
+    dispatchers++;
+    blocks += first.clauses.length;
+  });
+  if (dispatchers === 0) return null;
+  return {
+    technique: "controlFlowFlattening",
+    confidence: grade(0.6, 0.08, dispatchers),
+    evidence: [
+      `${plural(dispatchers, "state-machine dispatcher")} with ${plural(blocks, "block")}`,
+    ],
+  };
+}
+
+function detectConstantPool(context: Context): TechniqueDetection | null {
+  const { analysis } = context;
+  const evidence: string[] = [];
+  let best = 0;
+  const seen = new Set<Binding>();
+  walk(context.chunk, (node) => {
+    // `local pool = {...}`, or `pool = {...}` when the local was declared
+    // bare somewhere above
+    if (
+      (node.type !== "LocalStatement" && node.type !== "AssignmentStatement") ||
+      node.variables.length !== 1 ||
+      node.variables[0].type !== "Identifier" ||
+      node.init[0]?.type !== "TableConstructorExpression"
+    ) {
+      return;
+    }
+    const { fields } = node.init[0];
+    const strings = fields.flatMap((field) =>
+      field.type === "TableValue" && field.value.type === "StringLiteral"
+        ? [field.value.value]
+        : [],
+    );
+    if (strings.length < 8 || strings.length < fields.length * 0.8) return;
+    const binding = analysis.resolved.get(node.variables[0]);
+    if (!binding || seen.has(binding)) return;
+    seen.add(binding);
+    let reads = 0;
+    let decoded = false;
+    walk(context.chunk, (inner, parent) => {
+      if (
+        inner.type !== "Identifier" ||
+        analysis.resolved.get(inner) !== binding
+      ) {
+        return;
+      }
+      if (parent?.type === "IndexExpression" && parent.base === inner) reads++;
+      if (parent?.type === "UnaryExpression" && parent.operator === "#") {
+        decoded = true;
+      }
+    });
+    if (reads < 5 && !decoded) return;
+    const encrypted =
+      strings.filter((value) => !isReadable(value)).length > strings.length / 2;
+    const confidence =
+      0.5 + (encrypted ? 0.25 : 0) + (decoded || reads >= 20 ? 0.15 : 0);
+    best = Math.max(best, confidence);
+    evidence.push(
+      `'${binding.name}' holds ${strings.length} ${encrypted ? "encrypted " : ""}strings` +
+        (decoded ? ", decoded in a loop" : `, read ${plural(reads, "time")}`),
+    );
+  });
+  if (evidence.length === 0) return null;
+  return { technique: "constantPool", confidence: grade(best, 0, 0), evidence };
+}
+
+function detectJunkCode(context: Context): TechniqueDetection | null {
+  const { analysis, numberTables } = context;
+  let constant = 0;
+  let opaque = 0;
+  let dummies = 0;
+
+  // Whether a condition reads nothing but number tables and literals
+  const isOpaque = (condition: Expression) => {
+    let readsTable = false;
+    let readsOther = false;
+    walk(condition, (node, parent) => {
+      if (node.type !== "Identifier") return;
+      const binding = analysis.resolved.get(node);
+      if (
+        binding &&
+        numberTables.has(binding) &&
+        parent?.type === "IndexExpression" &&
+        parent.base === node
+      ) {
+        readsTable = true;
+      } else {
+        readsOther = true;
+      }
+    });
+    return readsTable && !readsOther;
+  };
+
+  walk(context.chunk, (node) => {
+    if (node.type === "IfClause" || node.type === "WhileStatement") {
+      const value = evaluateConstant(node.condition, () => undefined);
+      // `while true do` is an ordinary loop; `if true then` isn't
+      if (
+        value !== undefined &&
+        (node.type === "IfClause" || value === false)
+      ) {
+        constant++;
+      } else if (isOpaque(node.condition)) {
+        opaque++;
+      }
+    } else if (
+      node.type === "LocalStatement" &&
+      node.variables.length === 1 &&
+      node.variables[0].name === "_" &&
+      node.init.length === 1 &&
+      node.init[0].type === "NilLiteral"
+    ) {
+      dummies++;
+    } else if (
+      node.type === "NumericForStatement" &&
+      node.body.length === 0 &&
+      node.start.type === "NumericLiteral" &&
+      node.end.type === "NumericLiteral" &&
+      node.start.value > node.end.value
+    ) {
+      dummies++;
+    } else if (node.type === "DoStatement" && node.body.length === 0) {
+      dummies++;
+    }
+  });
+  const total = constant + opaque + dummies;
+  if (total < 2) return null;
+  const evidence: string[] = [];
+  if (opaque > 0) {
+    evidence.push(`${plural(opaque, "opaque predicate")} over a number table`);
+  }
+  if (constant > 0) {
+    evidence.push(`${plural(constant, "branch")} with a constant condition`);
+  }
+  if (dummies > 0) evidence.push(plural(dummies, "no-op statement"));
+  return {
+    technique: "junkCode",
+    confidence: grade(0.3, 0.07, total),
+    evidence,
+  };
+}
+
+// `function(a, b) return a + b end` and `function(...) return f(...) end`:
+// functions that only stand in for an operator or another function
+function isProxy(fn: FunctionNode): boolean {
+  const [statement] = fn.body;
+  if (fn.body.length !== 1 || statement.type !== "ReturnStatement") {
+    return false;
+  }
+  if (statement.arguments.length !== 1) return false;
+  const [result] = statement.arguments;
+  const names = fn.parameters.map((parameter) => parameter.name);
+  const isParameter = (node: Expression) =>
+    node.type === "Identifier" && names.includes(node.name);
+  const forwards = (args: Expression[]) =>
+    (fn.isVararg && args.length === 1 && args[0].type === "VarargLiteral") ||
+    (args.length === names.length &&
+      args.length > 0 &&
+      args.every(
+        (arg, i) => arg.type === "Identifier" && arg.name === names[i],
+      ));
+  switch (result.type) {
+    case "BinaryExpression":
+      return (
+        names.length === 2 &&
+        isParameter(result.left) &&
+        isParameter(result.right)
+      );
+    case "UnaryExpression":
+      return names.length === 1 && isParameter(result.argument);
+    case "IndexExpression":
+      return (
+        names.length === 2 &&
+        isParameter(result.base) &&
+        isParameter(result.index)
+      );
+    case "CallExpression":
+      return !isParameter(result.base) && forwards(result.arguments);
+    default:
+      return false;
+  }
+}
+
+function detectProxyWrappers(context: Context): TechniqueDetection | null {
+  const names: string[] = [];
+  walk(context.chunk, (node, parent) => {
+    if (node.type === "FunctionDeclaration" && isProxy(node)) {
+      names.push(
+        node.identifier.type === "Identifier"
+          ? node.identifier.name
+          : node.identifier.identifier.name,
+      );
+    } else if (
+      node.type === "FunctionExpression" &&
+      parent?.type === "LocalStatement" &&
+      isProxy(node)
+    ) {
+      names.push(parent.variables[parent.init.indexOf(node)]?.name ?? "?");
+    }
+  });
+  if (names.length === 0) return null;
+  const shown = names.slice(0, 5).map((name) => `'${name}'`);
+  return {
+    technique: "proxyWrappers",
+    confidence: grade(0.2, 0.12, names.length),
+    evidence: [
+      `${plural(names.length, "function")} that only forward to an operator or call: ${shown.join(", ")}${names.length > shown.length ? ", ..." : ""}`,
+    ],
+  };
+}
+
+function detectStringEncoding(context: Context): TechniqueDetection | null {
+  let charCalls = 0;
+  let escaped = 0;
+  let base64 = 0;
+  let alphabets = 0;
+  walk(context.chunk, (node) => {
+    if (
+      node.type === "CallExpression" &&
+      isStringFunction(node.base, "char", context) &&
+      node.arguments.length > 0 &&
+      node.arguments.every((arg) => arg.type === "NumericLiteral")
+    ) {
+      charCalls++;
+    } else if (node.type === "StringLiteral") {
+      const escapes = node.raw?.match(/\\(\d{1,3}|x[0-9a-fA-F]{2})/g) ?? [];
+      if (
+        escapes.length >= 4 &&
+        escapes.join("").length >= node.raw!.length / 2
+      ) {
+        escaped++;
+      } else if (
+        node.value.length >= 24 &&
+        node.value.length % 4 === 0 &&
+        /^[A-Za-z0-9+/]+=*$/.test(node.value) &&
+        /\d/.test(node.value) &&
+        /[a-z]/.test(node.value) &&
+        /[A-Z]/.test(node.value)
+      ) {
+        base64++;
+      } else if (node.value.length === 64 && new Set(node.value).size === 64) {
+        alphabets++;
+      }
+    }
+  });
+  const evidence: string[] = [];
+  if (charCalls > 0) {
+    evidence.push(
+      `${plural(charCalls, "string.char call")} on character codes`,
+    );
+  }
+  if (escaped > 0) {
+    evidence.push(`${plural(escaped, "string")} spelled in numeric escapes`);
+  }
+  if (base64 > 0) evidence.push(`${plural(base64, "base64-like string")}`);
+  if (alphabets > 0) evidence.push("a 64-character decoding alphabet");
+  const total = charCalls + escaped + base64 + alphabets * 3;
+  if (total === 0) return null;
+  return {
+    technique: "stringEncoding",
+    confidence: grade(0.35, 0.05, total),
+    evidence,
+  };
+}
+
+function detectMangling(context: Context): TechniqueDetection | null {
+  const declared = context.analysis.bindings.filter(
+    (binding) => binding.declaration,
+  );
+  const mangled = declared.filter((binding) => looksObfuscated(binding.name));
+  if (mangled.length < 3 || mangled.length < declared.length * 0.3) {
+    return null;
+  }
+  const examples = Array.from(
+    new Set(mangled.map((binding) => binding.name)),
+  ).slice(0, 3);
+  return {
+    technique: "identifierMangling",
+    confidence: grade(0.1, 0.9, mangled.length / declared.length),
+    evidence: [
+      `${mangled.length} of ${plural(declared.length, "local")} have meaningless names, e.g. ${examples.join(", ")}`,
+    ],
+  };
+}
+
+const DETECTORS = [
+  detectLoadstring,
+  detectVirtualMachine,
+  detectFlattening,
+  detectConstantPool,
+  detectJunkCode,
+  detectProxyWrappers,
+  detectStringEncoding,
+  detectMangling,
+];
+
+// Watermarks and names that public obfuscators leave in their output
+const SIGNATURES: { name: string; patterns: RegExp[] }[] = [
+  {
+    name: "Luraph",
+    patterns: [
+      /Luraph/i,
+      /\bLPH_(?:ENCSTR|ENCNUM|CRASH|JIT|JIT_MAX|NO_VIRTUALIZE)\b/,
+    ],
+  },
+  { name: "MoonSec", patterns: [/MoonSec/i, /\bMSEC_[A-Z_]+\b/] },
+  { name: "IronBrew", patterns: [/IronBrew/i, /\bgBits(?:8|16|32)\b/] },
+  {
+    name: "Prometheus",
+    // The string its watermark step puts in the code; the name alone turns
+    // up in comments and strings of scripts it never touched
+    patterns: [
+      /(?<=["'])This Script is Part of the Prometheus Obfuscator by Levno_710(?=["'])/,
+    ],
+  },
+  { name: "WeAreDevs", patterns: [/wearedevs\.net\/obfuscator/i] },
+  { name: "Synapse Xen", patterns: [/Synapse Xen/i] },
+];
+
+// What this app's own obfuscator leaves behind: names from its generators
+// and the rolling XOR key of its constant pool and bytecode
+function ownSignature(
+  source: string,
+  context: Context | null,
+): ObfuscatorMatch | null {
+  const evidence: string[] = [];
+  if (context) {
+    const names = context.analysis.bindings.map((binding) => binding.name);
+    const families = new Set(
+      names.flatMap((name) => {
+        const match = /^(_0x|_{1,3})[0-9a-f]{4}$/.exec(name);
+        return match ? [match[1]] : [];
+      }),
+    );
+    if (families.size >= 3) {
+      evidence.push("hex names from the `_0x`, `_`, `__` and `___` families");
+    }
+    if (names.filter((name) => /^[Il][lI1]{9}$/.test(name)).length >= 3) {
+      evidence.push("ten-character confusable names");
+    }
+  }
+  if (/\(\w+ \* \d+ \+ \w+ \+ \d+\) % 256/.test(source)) {
+    evidence.push("rolling XOR key");
+  }
+  if (evidence.length === 0) return null;
+  return {
+    name: "Chameleon Code",
+    confidence: grade(0.45, 0.2, evidence.length),
+    evidence,
+  };
+}
+
+function matchObfuscators(
+  source: string,
+  context: Context | null,
+): ObfuscatorMatch[] {
+  const matches: ObfuscatorMatch[] = [];
+  for (const { name, patterns } of SIGNATURES) {
+    const found = patterns.flatMap((pattern) => {
+      const match = pattern.exec(source);
+      return match ? [`found "${match[0]}"`] : [];
+    });
+    if (found.length > 0) {
+      matches.push({
+        name,
+        confidence: grade(0.6, 0.2, found.length - 1),
+        evidence: found,
+      });
+    }
+  }
+  const own = ownSignature(source, context);
+  if (own) matches.push(own);
+  return matches;
+}
+
+function numberTables(chunk: Chunk, analysis: ScopeAnalysis): Set<Binding> {
+  const tables = new Set<Binding>();
+  walk(chunk, (node) => {
+    if (
+      node.type === "LocalStatement" &&
+      node.variables.length === 1 &&
+      node.init[0]?.type === "TableConstructorExpression" &&
+      node.init[0].fields.length > 0 &&
+      node.init[0].fields.every(
+        (field) =>
+          field.type === "TableValue" && field.value.type === "NumericLiteral",
+      )
+    ) {
+      const binding = analysis.resolved.get(node.variables[0]);
+      if (binding) tables.add(binding);
+    }
+  });
+  return tables;
+}
+
+// Keeps the stronger of two reports on the same thing, with the evidence of
+// both
+function merge<T extends { confidence: number; evidence: string[] }>(
+  into: Map<string, T>,
+  key: string,
+  item: T,
+): void {
+  const existing = into.get(key);
+  if (!existing) {
+    into.set(key, item);
+    return;
+  }
+  into.set(key, {
+    ...existing,
+    confidence: Math.max(existing.confidence, item.confidence),
+    evidence: [...existing.evidence, ...item.evidence],
+  });
+}
+
+/**
+ * Work out which obfuscation techniques were applied to a script, and by
+ * which known obfuscator, with a confidence for each. `sources` is the
+ * script followed by any layers unpacked from it; evidence from a layer is
+ * labelled with its number.
+ */
+export function detectTechniques(sources: string[]): TechniqueReport {
+  const techniques = new Map<string, TechniqueDetection>();
+  const obfuscators = new Map<string, ObfuscatorMatch>();
+  sources.forEach((source, layer) => {
+    const label = (evidence: string[]) =>
+      layer === 0
+        ? evidence
+        : evidence.map((item) => `layer ${layer}: ${item}`);
+    let context: Context | null = null;
+    try {
+      const { chunk } = parse(source);
+      const analysis = analyzeScopes(chunk);
+      context = {
+        chunk,
+        analysis,
+        numberTables: numberTables(chunk, analysis),
+      };
+    } catch {
+      // Signatures can still be read from text that doesn't parse
+    }
+    if (context) {
+      for (const detect of DETECTORS) {
+        const detection = detect(context);
+        if (detection) {
+          merge(techniques, detection.technique, {
+            ...detection,
+            evidence: label(detection.evidence),
+          });
+        }
+      }
+    }
+    for (const match of matchObfuscators(source, context)) {
+      merge(obfuscators, match.name, {
+        ...match,
+        evidence: label(match.evidence),
+      });
+    }
+  });
+  const byConfidence = (a: { confidence: number }, b: { confidence: number }) =>
+    b.confidence - a.confidence;
+  return {
+    techniques: Array.from(techniques.values()).sort(byConfidence),
+    obfuscators: Array.from(obfuscators.values()).sort(byConfidence),
+  };
+}
@@ -0,0 +1,446 @@
+import {
+  walk,
+  type Chunk,
+  type Expression,
+  type FunctionNode,
+  type Identifier,
+  type Node,
+  type Statement,
+  type TypeAliasStatement,
+} from "./ast";
+import * as b from "./builders";
+import { analyzeScopes, renameBinding, type Binding } from "./scope";
+
+export interface FlattenOptions {
+  level: "light" | "medium" | "heavy";
+  random: () => number;
+  // Returns a name that is not used anywhere in the chunk
+  generateName: () => string;
+}
+
+interface LevelProfile {
+  maxBlockSize: number;
+  splitIfs: boolean;
+  splitLoops: boolean;
+  decoyRatio: number;
+  relativeTransitions: boolean;
+}
+
+// How hard each obfuscation level flattens a function body
+const LEVEL_PROFILES: Record<FlattenOptions["level"], LevelProfile> = {
+  light: {
+    maxBlockSize: 3,
+    splitIfs: false,
+    splitLoops: false,
+    decoyRatio: 0,
+    relativeTransitions: false,
+  },
+  medium: {
+    maxBlockSize: 2,
+    splitIfs: true,
+    splitLoops: false,
+    decoyRatio: 0.25,
+    relativeTransitions: false,
+  },
+  heavy: {
+    maxBlockSize: 1,
+    splitIfs: true,
+    splitLoops: true,
+    decoyRatio: 0.5,
+    relativeTransitions: true,
+  },
+};
+
+// Lua allows 200 locals per function; leave room for the original ones
+const MAX_HOISTED_LOCALS = 120;
+
+type Transition =
+  | { kind: "goto"; target: number }
+  | { kind: "branch"; condition: Expression; then: number; else: number }
+  | { kind: "return" };
+
+interface BasicBlock {
+  id: number;
+  statements: Statement[];
+  transition: Transition;
+}
+
+class BodyFlattener {
+  private blocks: BasicBlock[] = [];
+  // Local declarations moved to the top of the function, with the
+  // assignment target that replaced each of them
+  readonly hoisted: { declaration: Identifier; target: Identifier }[] = [];
+  // Type aliases, moved up with them so the annotations on the hoisted
+  // locals don't name a type declared further down
+  readonly typeAliases: TypeAliasStatement[] = [];
+
+  constructor(
+    private readonly profile: LevelProfile,
+    private readonly random: () => number,
+  ) {}
+
+  private newBlock(statements: Statement[], transition: Transition): number {
+    const id = this.blocks.length;
+    this.blocks.push({ id, statements, transition });
+    return id;
+  }
+
+  get blockList(): BasicBlock[] {
+    return this.blocks;
+  }
+
+  /**
+   * Lower a statement list into blocks that finish by jumping to `exit`.
+   * Returns the id of the entry block.
+   */
+  lower(statements: Statement[], exit: number): number {
+    let target = exit;
+    let pending: Statement[] = [];
+
+    const flush = () => {
+      if (pending.length === 0) return;
+      const groups: Statement[][] = [];
+      for (let i = 0; i < pending.length;) {
+        const size = 1 + Math.floor(this.random() * this.profile.maxBlockSize);
+        groups.push(pending.slice(i, i + size));
+        i += size;
+      }
+      for (let i = groups.length - 1; i >= 0; i--) {
+        const group = groups[i];
+        const last = group[group.length - 1];
+        target = this.newBlock(
+          group,
+          last.type === "ReturnStatement"
+            ? { kind: "return" }
+            : { kind: "goto", target },
+        );
+      }
+      pending = [];
+    };
+
+    for (let i = statements.length - 1; i >= 0; i--) {
+      const statement = statements[i];
+      if (statement.type === "IfStatement" && this.profile.splitIfs) {
+        flush();
+        let elseTarget = statement.orelse
+          ? this.lower(statement.orelse, target)
+          : target;
+        for (let c = statement.clauses.length - 1; c >= 0; c--) {
+          const clause = statement.clauses[c];
+          const thenTarget = this.lower(clause.body, target);
+          elseTarget = this.newBlock([], {
+            kind: "branch",
+            condition: clause.condition,
+            then: thenTarget,
+            else: elseTarget,
+          });
+        }
+        target = elseTarget;
+      } else if (
+        statement.type === "WhileStatement" &&
+        this.profile.splitLoops &&
+        canSplitLoop(statement.body)
+      ) {
+        flush();
+        const header = this.newBlock([], { kind: "return" });
+        const bodyEntry = this.lower(statement.body, header);
+        this.blocks[header].transition = {
+          kind: "branch",
+          condition: statement.condition,
+          then: bodyEntry,
+          else: target,
+        };
+        target = header;
+      } else if (statement.type === "TypeAliasStatement") {
+        this.typeAliases.unshift(statement);
+      } else {
+        pending.unshift(this.hoist(statement));
+      }
+    }
+    flush();
+    return target;
+  }
+
+  // Locals can't be declared inside a dispatcher branch, since the next
+  // block runs in a different branch; declare them up front and assign in
+  // place instead
+  private hoist(statement: Statement): Statement {
+    if (statement.type === "LocalStatement") {
+      const variables = statement.variables.map((declaration) => {
+        const target = b.identifier(declaration.name);
+        this.hoisted.push({ declaration, target });
+        return target;
+      });
+      return {
+        type: "AssignmentStatement",
+        variables,
+        init: statement.init.length
+          ? statement.init
+          : variables.map(() => b.nil()),
+        loc: statement.loc,
+      };
+    }
+    if (statement.type === "FunctionDeclaration" && statement.isLocal) {
+      const declaration = statement.identifier as Identifier;
+      const target = b.identifier(declaration.name);
+      this.hoisted.push({ declaration, target });
+      return {
+        type: "AssignmentStatement",
+        variables: [target],
+        init: [
+          {
+            type: "FunctionExpression",
+            parameters: statement.parameters,
+            isVararg: statement.isVararg,
+            body: statement.body,
+            typeParameters: statement.typeParameters,
+            varargAnnotation: statement.varargAnnotation,
+            returnType: statement.returnType,
+            loc: statement.loc,
+          },
+        ],
+        loc: statement.loc,
+      };
+    }
+    return statement;
+  }
+}
+
+// A loop body can only move into the dispatcher if nothing in it targets the
+// loop itself (break/continue) and no closure captures its per-iteration locals
+function canSplitLoop(body: Statement[]): boolean {
+  let splittable = true;
+  for (const statement of body) {
+    walk(statement, (node) => {
+      if (
+        node.type === "FunctionExpression" ||
+        node.type === "FunctionDeclaration"
+      ) {
+        splittable = false;
+      }
+      if (
+        node.type === "WhileStatement" ||
+        node.type === "RepeatStatement" ||
+        node.type === "NumericForStatement" ||
+        node.type === "GenericForStatement"
+      ) {
+        return false;
+      }
+      if (node.type === "BreakStatement" || node.type === "ContinueStatement") {
+        splittable = false;
+      }
+    });
+  }
+  return splittable;
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+/**
+ * Turn every function body (and the main chunk) into a dispatcher loop: the
+ * body is cut into basic blocks, each block becomes a branch of an `if` chain
+ * keyed on a state variable, and the branches are shuffled. Returns the number
+ * of bodies that were flattened.
+ */
+export function flattenControlFlow(
+  chunk: Chunk,
+  options: FlattenOptions,
+): number {
+  const profile = LEVEL_PROFILES[options.level];
+  const analysis = analyzeScopes(chunk);
+  const globals = new Set(Array.from(analysis.globals.values()).flat());
+
+  const bodies: (Chunk | FunctionNode)[] = [chunk];
+  walk(chunk, (node) => {
+    if (
+      node.type === "FunctionDeclaration" ||
+      node.type === "FunctionExpression"
+    ) {
+      bodies.push(node);
+    }
+  });
+
+  let flattened = 0;
+  for (const owner of bodies) {
+    if (owner.body.length < 2) continue;
+    const flattener = new BodyFlattener(profile, options.random);
+    const entry = flattener.lower(owner.body, -1);
+    const blocks = flattener.blockList;
+    if (blocks.length < 2 || flattener.hoisted.length > MAX_HOISTED_LOCALS) {
+      continue;
+    }
+    // Aliases of one name from different blocks would be redefinitions once
+    // they share the top of the function, which Luau rejects
+    const aliasNames = new Set(
+      flattener.typeAliases.map((alias) => alias.name),
+    );
+    if (aliasNames.size < flattener.typeAliases.length) continue;
+
+    resolveHoistingConflicts(
+      owner,
+      flattener.hoisted.map((h) => h.declaration),
+      analysis.resolved,
+      globals,
+      options,
+    );
+    for (const { declaration, target } of flattener.hoisted) {
+      target.name = declaration.name;
+    }
+    const dispatcher = buildDispatcher(
+      blocks,
+      entry,
+      flattener.hoisted.map((h) => h.declaration),
+      profile,
+      options,
+    );
+    // Replace in place: a hoisted `local function` shares its body array with
+    // the function expression that replaced it
+    owner.body.splice(
+      0,
+      owner.body.length,
+      ...flattener.typeAliases,
+      ...dispatcher,
+    );
+    flattened++;
+  }
+  return flattened;
+}
+
+// Two hoisted locals may share a name (shadowing in the original), or a
+// hoisted name may hide an outer variable or global that the body also reads.
+// Those bindings get fresh names before they move to the top.
+function resolveHoistingConflicts(
+  owner: Node,
+  hoisted: Identifier[],
+  resolved: Map<Identifier, Binding>,
+  globals: Set<Identifier>,
+  options: FlattenOptions,
+): void {
+  const meanings = new Map<string, Set<Binding | null>>();
+  walk(owner, (node) => {
+    if (node.type !== "Identifier") return;
+    const binding = resolved.get(node);
+    // Unresolved identifiers that aren't globals are field names
+    if (!binding && !globals.has(node)) return;
+    const set = meanings.get(node.name) ?? new Set();
+    set.add(binding ?? null);
+    meanings.set(node.name, set);
+  });
+
+  for (const identifier of hoisted) {
+    const binding = resolved.get(identifier);
+    if (binding && meanings.get(binding.name)!.size > 1) {
+      renameBinding(binding, options.generateName());
+    }
+  }
+}
+
+function buildDispatcher(
+  blocks: BasicBlock[],
+  entry: number,
+  hoisted: Identifier[],
+  profile: LevelProfile,
+  options: FlattenOptions,
+): Statement[] {
+  const { random } = options;
+  const stateName = options.generateName();
+
+  // Random, distinct state values; one extra for "finished"
+  const used = new Set<number>();
+  const nextValue = () => {
+    let value: number;
+    do value = 1 + Math.floor(random() * 0xffffff);
+    while (used.has(value));
+    used.add(value);
+    return value;
+  };
+  const values = blocks.map(() => nextValue());
+  const finished = nextValue();
+  const valueOf = (id: number) => (id === -1 ? finished : values[id]);
+
+  const state = () => b.identifier(stateName);
+  const setState = (from: number, to: number): Statement => ({
+    type: "AssignmentStatement",
+    variables: [state()],
+    init: [
+      profile.relativeTransitions
+        ? b.binary("+", state(), b.number(valueOf(to) - values[from]))
+        : b.number(valueOf(to)),
+    ],
+  });
+
+  const branches = blocks.map((block) => {
+    const body = [...block.statements];
+    const { transition } = block;
+    if (transition.kind === "goto") {
+      body.push(setState(block.id, transition.target));
+    } else if (transition.kind === "branch") {
+      body.push({
+        type: "IfStatement",
+        clauses: [
+          {
+            type: "IfClause",
+            condition: transition.condition,
+            body: [setState(block.id, transition.then)],
+          },
+        ],
+        orelse: [setState(block.id, transition.else)],
+      });
+    }
+    return { value: values[block.id], body };
+  });
+
+  // Decoy branches copy real blocks but can never be reached
+  const decoys = Math.floor(blocks.length * profile.decoyRatio);
+  for (let i = 0; i < decoys; i++) {
+    const source = branches[Math.floor(random() * branches.length)];
+    branches.push({
+      value: nextValue(),
+      body: structuredClone(source.body),
+    });
+  }
+  shuffle(branches, random);
+
+  const declarations: Statement[] = [];
+  if (hoisted.length > 0) {
+    declarations.push({
+      type: "LocalStatement",
+      variables: hoisted.map((identifier) => ({
+        type: "Identifier" as const,
+        name: identifier.name,
+        typeAnnotation: identifier.typeAnnotation,
+      })),
+      init: [],
+    });
+  }
+
+  return [
+    ...declarations,
+    {
+      type: "LocalStatement",
+      variables: [b.identifier(stateName)],
+      init: [b.number(valueOf(entry))],
+    },
+    {
+      type: "WhileStatement",
+      condition: b.binary("~=", state(), b.number(finished)),
+      body: [
+        {
+          type: "IfStatement",
+          clauses: branches.map(({ value, body }) => ({
+            type: "IfClause" as const,
+            condition: b.binary("==", state(), b.number(value)),
+            body,
+          })),
+          orelse: null,
+        },
+      ],
+    },
+  ];
+}
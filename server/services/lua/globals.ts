@@ -0,0 +1,217 @@
+/**
+ * Names the Roblox engine and the Luau runtime define. Locals that share one
+ * of these names are kept as written, so scripts that alias a global
+ * (`local Players = game:GetService("Players")`) stay readable and tools that
+ * look for these names keep finding them.
+ *
+ * Bump the version whenever the lists change so stored builds can be traced
+ * back to the catalog they were produced with.
+ */
+export const GLOBALS_CATALOG_VERSION = "2024.10";
+
+export const GLOBALS_CATALOG = {
+  // Luau base library
+  builtins: [
+    "_G",
+    "_VERSION",
+    "assert",
+    "collectgarbage",
+    "error",
+    "gcinfo",
+    "getfenv",
+    "getmetatable",
+    "ipairs",
+    "loadstring",
+    "newproxy",
+    "next",
+    "pairs",
+    "pcall",
+    "print",
+    "rawequal",
+    "rawget",
+    "rawlen",
+    "rawset",
+    "require",
+    "select",
+    "setfenv",
+    "setmetatable",
+    "tonumber",
+    "tostring",
+    "type",
+    "typeof",
+    "unpack",
+    "xpcall",
+  ],
+  libraries: [
+    "bit32",
+    "buffer",
+    "coroutine",
+    "debug",
+    "math",
+    "os",
+    "string",
+    "table",
+    "task",
+    "utf8",
+    "vector",
+  ],
+  // Globals only Roblox defines, deprecated ones included
+  roblox: [
+    "DebuggerManager",
+    "Enum",
+    "PluginManager",
+    "UserSettings",
+    "Workspace",
+    "delay",
+    "elapsedTime",
+    "game",
+    "plugin",
+    "printidentity",
+    "script",
+    "settings",
+    "shared",
+    "spawn",
+    "stats",
+    "tick",
+    "time",
+    "version",
+    "wait",
+    "warn",
+    "workspace",
+    "ypcall",
+  ],
+  // Datatypes with a global constructor table
+  datatypes: [
+    "Axes",
+    "BrickColor",
+    "CatalogSearchParams",
+    "CFrame",
+    "Color3",
+    "ColorSequence",
+    "ColorSequenceKeypoint",
+    "Content",
+    "DateTime",
+    "DockWidgetPluginGuiInfo",
+    "Faces",
+    "FloatCurveKey",
+    "Font",
+    "Instance",
+    "NumberRange",
+    "NumberSequence",
+    "NumberSequenceKeypoint",
+    "OverlapParams",
+    "Path2DControlPoint",
+    "PathWaypoint",
+    "PhysicalProperties",
+    "Random",
+    "Ray",
+    "RaycastParams",
+    "Rect",
+    "Region3",
+    "Region3int16",
+    "RotationCurveKey",
+    "SharedTable",
+    "TweenInfo",
+    "UDim",
+    "UDim2",
+    "Vector2",
+    "Vector2int16",
+    "Vector3",
+    "Vector3int16",
+  ],
+  // Service class names, usually bound with `game:GetService(...)`
+  services: [
+    "AnalyticsService",
+    "AssetService",
+    "AvatarEditorService",
+    "BadgeService",
+    "ChangeHistoryService",
+    "Chat",
+    "CollectionService",
+    "ContentProvider",
+    "ContextActionService",
+    "DataStoreService",
+    "Debris",
+    "GamePassService",
+    "GroupService",
+    "GuiService",
+    "HapticService",
+    "HttpService",
+    "InsertService",
+    "KeyframeSequenceProvider",
+    "Lighting",
+    "LocalizationService",
+    "LogService",
+    "MarketplaceService",
+    "MaterialService",
+    "MemoryStoreService",
+    "MessagingService",
+    "PathfindingService",
+    "PhysicsService",
+    "Players",
+    "PolicyService",
+    "ProximityPromptService",
+    "ReplicatedFirst",
+    "ReplicatedStorage",
+    "RunService",
+    "ScriptContext",
+    "Selection",
+    "ServerScriptService",
+    "ServerStorage",
+    "SocialService",
+    "SoundService",
+    "StarterGui",
+    "StarterPack",
+    "StarterPlayer",
+    "StudioService",
+    "Teams",
+    "TeleportService",
+    "TestService",
+    "TextChatService",
+    "TextService",
+    "TweenService",
+    "UserInputService",
+    "VRService",
+    "VoiceChatService",
+  ],
+} as const;
+
+const catalogNames = new Set<string>(Object.values(GLOBALS_CATALOG).flat());
+
+export function isCatalogGlobal(name: string): boolean {
+  return catalogNames.has(name);
+}
+
+// `*` matches any run of characters and `?` a single one
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((char) =>
+      char === "*"
+        ? ".*"
+        : char === "?"
+          ? "."
+          : char.replace(/[.+^${}()|[\]\\]/g, "\\$&"),
+    )
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * A predicate for names that must not be renamed: the catalog above plus the
+ * user's exact names and glob patterns. Matching is case-sensitive, like Lua.
+ */
+export function createPreserveFilter(
+  patterns: string[] = [],
+): (name: string) => boolean {
+  const exact = new Set<string>();
+  const globs: RegExp[] = [];
+  for (const pattern of patterns) {
+    if (/[*?]/.test(pattern)) globs.push(globToRegExp(pattern));
+    else exact.add(pattern);
+  }
+  return (name) =>
+    catalogNames.has(name) ||
+    exact.has(name) ||
+    globs.some((glob) => glob.test(name));
+}
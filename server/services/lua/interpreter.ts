@@ -0,0 +1,1004 @@
+import type {
+  BinaryOperator,
+  Chunk,
+  Expression,
+  FunctionNode,
+  Identifier,
+  Node,
+  Statement,
+} from "./ast";
+import { ARITHMETIC } from "./constantFolding";
+import { analyzeScopes, type Binding } from "./scope";
+
+// Lua values as the interpreter holds them. Strings are byte strings, like
+// StringLiteral values, and nil is undefined.
+export type LuaValue =
+  undefined | boolean | number | string | LuaTable | LuaFunction;
+
+/**
+ * A Lua error: raised by `error()` or by the interpreter itself, and
+ * catchable with `pcall`.
+ */
+export class LuaError extends Error {
+  constructor(readonly value: LuaValue) {
+    super(typeof value === "string" ? value : "error object is not a string");
+    this.name = "LuaError";
+  }
+}
+
+/**
+ * The sandbox ran out of steps or memory. Scripts can't catch this.
+ */
+export class ExecutionLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExecutionLimitError";
+  }
+}
+
+/**
+ * The script needs something the sandbox doesn't have, like coroutines.
+ * Scripts can't catch this either.
+ */
+export class UnsupportedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedError";
+  }
+}
+
+// Keeps the step and memory counts for a run. Memory is every byte
+// allocated, never given back, so it bounds the work done as well. The
+// clock, in milliseconds from when the budget is made, is checked every few
+// thousand steps.
+export class Budget {
+  private steps = 0;
+  private memory = 0;
+  private readonly deadline: number;
+
+  constructor(
+    private readonly maxSteps: number,
+    private readonly maxMemory: number,
+    private readonly maxTime = Infinity,
+  ) {
+    this.deadline = Date.now() + maxTime;
+  }
+
+  step(): void {
+    if (++this.steps > this.maxSteps) {
+      throw new ExecutionLimitError(
+        `Instruction limit of ${this.maxSteps} exceeded`,
+      );
+    }
+    if (this.steps % 4096 === 0 && Date.now() > this.deadline) {
+      throw new ExecutionLimitError(
+        `Time limit of ${this.maxTime} ms exceeded`,
+      );
+    }
+  }
+
+  allocate(bytes: number): void {
+    this.memory += bytes;
+    if (this.memory > this.maxMemory) {
+      throw new ExecutionLimitError(
+        `Memory limit of ${this.maxMemory} bytes exceeded`,
+      );
+    }
+  }
+}
+
+// Rough sizes charged against the memory budget
+const TABLE_SIZE = 56;
+const SLOT_SIZE = 16;
+
+function isArrayIndex(key: LuaValue): key is number {
+  return typeof key === "number" && Number.isInteger(key) && key >= 1;
+}
+
+/**
+ * A Lua table: consecutive integer keys from 1 live in an array part, which
+ * is what `#` measures, and everything else in a map.
+ */
+export class LuaTable {
+  private readonly array: LuaValue[] = [];
+  private readonly hash = new Map<LuaValue, LuaValue>();
+  // Hash keys in the order `next` visits them, rebuilt after an insertion
+  private order: LuaValue[] | null = null;
+  private position: Map<LuaValue, number> | null = null;
+  metatable: LuaTable | null = null;
+
+  constructor(private readonly budget: Budget) {
+    budget.allocate(TABLE_SIZE);
+  }
+
+  get(key: LuaValue): LuaValue {
+    if (isArrayIndex(key) && key <= this.array.length) {
+      return this.array[key - 1];
+    }
+    return this.hash.get(key === 0 ? 0 : key);
+  }
+
+  set(key: LuaValue, value: LuaValue): void {
+    if (key === undefined) throw new LuaError("table index is nil");
+    if (typeof key === "number" && Number.isNaN(key)) {
+      throw new LuaError("table index is NaN");
+    }
+    if (key === 0) key = 0; // -0 and 0 are the same key
+    if (isArrayIndex(key) && key <= this.array.length) {
+      this.array[key - 1] = value;
+      // Keep the array part ending in a value so `#` stays a border
+      if (value === undefined && key === this.array.length) {
+        while (
+          this.array.length > 0 &&
+          this.array[this.array.length - 1] === undefined
+        ) {
+          this.array.pop();
+        }
+      }
+      return;
+    }
+    if (isArrayIndex(key) && key === this.array.length + 1) {
+      if (value === undefined) {
+        this.hash.delete(key);
+        return;
+      }
+      this.budget.allocate(SLOT_SIZE);
+      this.array.push(value);
+      this.hash.delete(key);
+      // Pull in the keys that now continue the sequence
+      for (
+        let next = this.hash.get(this.array.length + 1);
+        next !== undefined;
+        next = this.hash.get(this.array.length + 1)
+      ) {
+        this.hash.delete(this.array.length + 1);
+        this.array.push(next);
+      }
+      this.order = null;
+      return;
+    }
+    if (value === undefined) {
+      // Left in `order` so a traversal that clears fields can carry on
+      this.hash.delete(key);
+      return;
+    }
+    if (!this.hash.has(key)) {
+      this.budget.allocate(SLOT_SIZE);
+      this.order = null;
+    }
+    this.hash.set(key, value);
+  }
+
+  length(): number {
+    return this.array.length;
+  }
+
+  /**
+   * The entry after `key` in traversal order, as `next` returns it: the
+   * array part first, then the rest. Returns undefined at the end.
+   */
+  next(key: LuaValue): [LuaValue, LuaValue] | undefined {
+    let index = 0;
+    if (key !== undefined) {
+      if (isArrayIndex(key) && key <= this.array.length) {
+        index = key;
+      } else {
+        return this.nextHash(key);
+      }
+    }
+    for (; index < this.array.length; index++) {
+      if (this.array[index] !== undefined) {
+        return [index + 1, this.array[index]];
+      }
+    }
+    return this.nextHash(undefined);
+  }
+
+  private nextHash(key: LuaValue): [LuaValue, LuaValue] | undefined {
+    if (!this.order) {
+      this.order = Array.from(this.hash.keys());
+      this.position = new Map(this.order.map((entry, i) => [entry, i]));
+    }
+    let index = 0;
+    if (key !== undefined) {
+      const found = this.position!.get(key);
+      if (found === undefined) throw new LuaError("invalid key to 'next'");
+      index = found + 1;
+    }
+    for (; index < this.order.length; index++) {
+      const entry = this.order[index];
+      const value = this.hash.get(entry);
+      if (value !== undefined) return [entry, value];
+    }
+    return undefined;
+  }
+}
+
+export type NativeFunction = (args: LuaValue[]) => LuaValue[];
+
+export class LuaFunction {
+  constructor(
+    readonly name: string,
+    readonly call: NativeFunction,
+  ) {}
+}
+
+export function typeOf(value: LuaValue): string {
+  if (value === undefined) return "nil";
+  if (value instanceof LuaTable) return "table";
+  if (value instanceof LuaFunction) return "function";
+  return typeof value;
+}
+
+export function isTruthy(value: LuaValue): boolean {
+  return value !== undefined && value !== false;
+}
+
+/**
+ * How Lua 5.1 and Luau print a number: `%.14g`.
+ */
+export function numberToString(value: number): string {
+  if (Number.isNaN(value)) return "nan";
+  if (value === Infinity) return "inf";
+  if (value === -Infinity) return "-inf";
+  if (Number.isInteger(value) && Math.abs(value) < 1e15) {
+    return value.toFixed(0);
+  }
+  const precise = value.toPrecision(14);
+  const [mantissa, exponent] = precise.split("e");
+  const trimmed = mantissa.includes(".")
+    ? mantissa.replace(/\.?0+$/, "")
+    : mantissa;
+  if (exponent === undefined) return trimmed;
+  const power = Number(exponent);
+  return `${trimmed}e${power < 0 ? "-" : "+"}${String(Math.abs(power)).padStart(2, "0")}`;
+}
+
+/**
+ * The number a string converts to in arithmetic and `tonumber`, if any.
+ */
+export function stringToNumber(text: string): number | undefined {
+  const trimmed = text.trim();
+  const match =
+    /^([+-])?(?:0[xX]([0-9a-fA-F]+)|((?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?))$/.exec(
+      trimmed,
+    );
+  if (!match) return undefined;
+  const [, sign, hex, decimal] = match;
+  const magnitude = hex !== undefined ? parseInt(hex, 16) : Number(decimal);
+  return sign === "-" ? -magnitude : magnitude;
+}
+
+// Metamethods behind each arithmetic operator
+const ARITHMETIC_EVENTS: Partial<Record<BinaryOperator, string>> = {
+  "+": "__add",
+  "-": "__sub",
+  "*": "__mul",
+  "/": "__div",
+  "//": "__idiv",
+  "%": "__mod",
+  "^": "__pow",
+};
+
+// Enough Lua frames for any reasonable decoder, well short of overflowing
+// the JavaScript stack underneath
+const MAX_CALL_DEPTH = 200;
+
+// A variable slot, shared with every closure that captures it
+interface Ref {
+  value: LuaValue;
+}
+
+// Variables are keyed by the declaration they come from, not by name, so a
+// closure keeps its variable when a later `local` reuses the name
+class Frame {
+  private readonly variables = new Map<Binding, Ref>();
+
+  constructor(
+    readonly parent: Frame | null,
+    // The enclosing function's `...`
+    readonly varargs: LuaValue[],
+  ) {}
+
+  declare(binding: Binding, value: LuaValue): Ref {
+    const ref = { value };
+    this.variables.set(binding, ref);
+    return ref;
+  }
+
+  lookup(binding: Binding): Ref | undefined {
+    for (let frame: Frame | null = this; frame; frame = frame.parent) {
+      const ref = frame.variables.get(binding);
+      if (ref) return ref;
+    }
+    return undefined;
+  }
+}
+
+// Where an assignment writes, worked out before any value is assigned
+type Place =
+  | { type: "variable"; ref: Ref }
+  | { type: "index"; object: LuaValue; key: LuaValue };
+
+// How a block finished, when it didn't just run off its end
+type Signal =
+  | undefined
+  | { type: "break" }
+  | { type: "continue" }
+  | { type: "return"; values: LuaValue[] };
+
+const BREAK: Signal = { type: "break" };
+const CONTINUE: Signal = { type: "continue" };
+
+export interface InterpreterOptions {
+  budget: Budget;
+  // Names the chunk in error messages, like `[string "..."]`
+  chunkName?: string;
+}
+
+/**
+ * Runs an AST directly. It has no access to anything outside itself: the
+ * globals are whatever the caller puts in `globals`, and every step and
+ * allocation is charged to the budget.
+ */
+export class Interpreter {
+  readonly budget: Budget;
+  readonly globals: LuaTable;
+  // Metatable for strings, so `s:sub(1, 2)` finds the string library
+  stringMetatable: LuaTable | null = null;
+  private depth = 0;
+  private readonly chunkName: string;
+  // Line of the statement being run, for error messages
+  private line = 0;
+  // What each identifier of a loaded chunk refers to, and the implicit
+  // `self` of each method
+  private readonly bindings = new WeakMap<Identifier, Binding>();
+  private readonly selfBindings = new WeakMap<Node, Binding>();
+  private readonly analyzed = new WeakSet<Chunk>();
+
+  constructor({ budget, chunkName = "sandbox" }: InterpreterOptions) {
+    this.budget = budget;
+    this.globals = new LuaTable(budget);
+    this.chunkName = chunkName;
+  }
+
+  /**
+   * A function that runs `chunk` with the interpreter's globals, taking its
+   * arguments as `...`, like what `loadstring` returns.
+   */
+  load(chunk: Chunk, name = this.chunkName): LuaFunction {
+    if (!this.analyzed.has(chunk)) {
+      this.analyzed.add(chunk);
+      const { bindings, resolved } = analyzeScopes(chunk);
+      resolved.forEach((binding, identifier) =>
+        this.bindings.set(identifier, binding),
+      );
+      for (const binding of bindings) {
+        if (binding.kind === "self") {
+          this.selfBindings.set(binding.scope.node, binding);
+        }
+      }
+    }
+    return new LuaFunction(name, (args) => {
+      const signal = this.block(chunk.body, new Frame(null, args));
+      return signal?.type === "return" ? signal.values : [];
+    });
+  }
+
+  newTable(): LuaTable {
+    return new LuaTable(this.budget);
+  }
+
+  /**
+   * Charge a string built at runtime against the memory budget.
+   */
+  string(value: string): string {
+    this.budget.allocate(value.length);
+    return value;
+  }
+
+  // Where the running statement is, as error messages start
+  where(): string {
+    return `${this.chunkName}:${this.line}: `;
+  }
+
+  error(message: string): never {
+    throw new LuaError(this.where() + message);
+  }
+
+  call(callee: LuaValue, args: LuaValue[]): LuaValue[] {
+    this.budget.step();
+    if (callee instanceof LuaFunction) {
+      if (this.depth >= MAX_CALL_DEPTH) this.error("stack overflow");
+      this.depth++;
+      try {
+        return callee.call(args);
+      } finally {
+        this.depth--;
+      }
+    }
+    const handler = this.metamethod(callee, "__call");
+    if (handler !== undefined) return this.call(handler, [callee, ...args]);
+    this.error(`attempt to call a ${typeOf(callee)} value`);
+  }
+
+  metamethod(value: LuaValue, event: string): LuaValue {
+    const metatable =
+      value instanceof LuaTable
+        ? value.metatable
+        : typeof value === "string"
+          ? this.stringMetatable
+          : null;
+    return metatable?.get(event);
+  }
+
+  index(object: LuaValue, key: LuaValue): LuaValue {
+    for (let depth = 0; depth < 100; depth++) {
+      let handler: LuaValue;
+      if (object instanceof LuaTable) {
+        const value = object.get(key);
+        if (value !== undefined) return value;
+        handler = this.metamethod(object, "__index");
+        if (handler === undefined) return undefined;
+      } else {
+        handler = this.metamethod(object, "__index");
+        if (handler === undefined) {
+          this.error(
+            `attempt to index a ${typeOf(object)} value${describeKey(key)}`,
+          );
+        }
+      }
+      if (handler instanceof LuaFunction) {
+        return this.call(handler, [object, key])[0];
+      }
+      object = handler;
+    }
+    this.error("'__index' chain too long; possible loop");
+  }
+
+  setIndex(object: LuaValue, key: LuaValue, value: LuaValue): void {
+    for (let depth = 0; depth < 100; depth++) {
+      let handler: LuaValue;
+      if (object instanceof LuaTable) {
+        if (object.get(key) !== undefined) {
+          object.set(key, value);
+          return;
+        }
+        handler = this.metamethod(object, "__newindex");
+        if (handler === undefined) {
+          object.set(key, value);
+          return;
+        }
+      } else {
+        handler = this.metamethod(object, "__newindex");
+        if (handler === undefined) {
+          this.error(
+            `attempt to index a ${typeOf(object)} value${describeKey(key)}`,
+          );
+        }
+      }
+      if (handler instanceof LuaFunction) {
+        this.call(handler, [object, key, value]);
+        return;
+      }
+      object = handler;
+    }
+    this.error("'__newindex' chain too long; possible loop");
+  }
+
+  tostring(value: LuaValue): string {
+    const handler = this.metamethod(value, "__tostring");
+    if (handler !== undefined) {
+      const result = this.call(handler, [value])[0];
+      if (typeof result !== "string") {
+        this.error("'__tostring' must return a string");
+      }
+      return result;
+    }
+    if (value === undefined) return "nil";
+    if (typeof value === "number") return numberToString(value);
+    if (typeof value === "string" || typeof value === "boolean") {
+      return String(value);
+    }
+    return `${typeOf(value)}: ${addressOf(value)}`;
+  }
+
+  equals(left: LuaValue, right: LuaValue): boolean {
+    if (left === right) return true;
+    if (!(left instanceof LuaTable) || !(right instanceof LuaTable)) {
+      return false;
+    }
+    const handler =
+      this.metamethod(left, "__eq") ?? this.metamethod(right, "__eq");
+    return (
+      handler !== undefined && isTruthy(this.call(handler, [left, right])[0])
+    );
+  }
+
+  length(value: LuaValue): number {
+    if (typeof value === "string") return value.length;
+    const handler = this.metamethod(value, "__len");
+    if (handler !== undefined) {
+      const result = this.call(handler, [value])[0];
+      return typeof result === "number" ? result : 0;
+    }
+    if (value instanceof LuaTable) return value.length();
+    this.error(`attempt to get length of a ${typeOf(value)} value`);
+  }
+
+  private arithmetic(
+    operator: BinaryOperator,
+    left: LuaValue,
+    right: LuaValue,
+  ): LuaValue {
+    const a = toArithmetic(left);
+    const b = toArithmetic(right);
+    if (a !== undefined && b !== undefined) return ARITHMETIC[operator]!(a, b);
+    const event = ARITHMETIC_EVENTS[operator]!;
+    const handler =
+      this.metamethod(left, event) ?? this.metamethod(right, event);
+    if (handler !== undefined) return this.call(handler, [left, right])[0];
+    const culprit = a === undefined ? left : right;
+    this.error(`attempt to perform arithmetic on a ${typeOf(culprit)} value`);
+  }
+
+  private concat(left: LuaValue, right: LuaValue): LuaValue {
+    if (
+      (typeof left === "string" || typeof left === "number") &&
+      (typeof right === "string" || typeof right === "number")
+    ) {
+      return this.string(
+        (typeof left === "number" ? numberToString(left) : left) +
+          (typeof right === "number" ? numberToString(right) : right),
+      );
+    }
+    const handler =
+      this.metamethod(left, "__concat") ?? this.metamethod(right, "__concat");
+    if (handler !== undefined) return this.call(handler, [left, right])[0];
+    const culprit =
+      typeof left === "string" || typeof left === "number" ? right : left;
+    this.error(`attempt to concatenate a ${typeOf(culprit)} value`);
+  }
+
+  lessThan(left: LuaValue, right: LuaValue, orEqual: boolean): boolean {
+    if (typeof left === "number" && typeof right === "number") {
+      return orEqual ? left <= right : left < right;
+    }
+    if (typeof left === "string" && typeof right === "string") {
+      return orEqual ? left <= right : left < right;
+    }
+    const event = orEqual ? "__le" : "__lt";
+    const handler =
+      this.metamethod(left, event) ?? this.metamethod(right, event);
+    if (handler !== undefined) {
+      return isTruthy(this.call(handler, [left, right])[0]);
+    }
+    const [a, b] = [typeOf(left), typeOf(right)];
+    this.error(
+      a === b
+        ? `attempt to compare two ${a} values`
+        : `attempt to compare ${a} with ${b}`,
+    );
+  }
+
+  private binary(
+    operator: BinaryOperator,
+    left: Expression,
+    right: Expression,
+    frame: Frame,
+  ): LuaValue {
+    const a = this.evaluate(left, frame);
+    if (operator === "and")
+      return isTruthy(a) ? this.evaluate(right, frame) : a;
+    if (operator === "or") return isTruthy(a) ? a : this.evaluate(right, frame);
+    const b = this.evaluate(right, frame);
+    switch (operator) {
+      case "==":
+        return this.equals(a, b);
+      case "~=":
+        return !this.equals(a, b);
+      case "<":
+        return this.lessThan(a, b, false);
+      case "<=":
+        return this.lessThan(a, b, true);
+      case ">":
+        return this.lessThan(b, a, false);
+      case ">=":
+        return this.lessThan(b, a, true);
+      case "..":
+        return this.concat(a, b);
+      default:
+        return this.arithmetic(operator, a, b);
+    }
+  }
+
+  private closure(
+    node: FunctionNode,
+    frame: Frame,
+    isMethod: boolean,
+  ): LuaFunction {
+    const name =
+      node.type === "FunctionDeclaration" &&
+      node.identifier.type === "Identifier"
+        ? node.identifier.name
+        : "anonymous";
+    const parameters = node.parameters.map((parameter) =>
+      this.binding(parameter),
+    );
+    if (isMethod) parameters.unshift(this.selfBindings.get(node)!);
+    return new LuaFunction(name, (args) => {
+      const local = new Frame(
+        frame,
+        node.isVararg ? args.slice(parameters.length) : [],
+      );
+      parameters.forEach((parameter, i) => local.declare(parameter, args[i]));
+      const signal = this.block(node.body, local);
+      return signal?.type === "return" ? signal.values : [];
+    });
+  }
+
+  /**
+   * Every value an expression produces: calls and `...` can give several,
+   * anything else exactly one.
+   */
+  private evaluateMulti(node: Expression, frame: Frame): LuaValue[] {
+    if (node.type === "CallExpression") return this.callExpression(node, frame);
+    if (node.type === "VarargLiteral") return frame.varargs;
+    return [this.evaluate(node, frame)];
+  }
+
+  // Expression lists expand their last expression to all its values
+  private evaluateList(nodes: Expression[], frame: Frame): LuaValue[] {
+    const values: LuaValue[] = [];
+    nodes.forEach((node, i) => {
+      if (i === nodes.length - 1)
+        values.push(...this.evaluateMulti(node, frame));
+      else values.push(this.evaluate(node, frame));
+    });
+    return values;
+  }
+
+  private callExpression(
+    node: Expression & { type: "CallExpression" },
+    frame: Frame,
+  ): LuaValue[] {
+    const { base } = node;
+    if (base.type === "MemberExpression" && base.indexer === ":") {
+      const self = this.evaluate(base.base, frame);
+      const method = this.index(self, base.identifier.name);
+      if (method === undefined) {
+        this.error(
+          `attempt to call method '${base.identifier.name}' (a nil value)`,
+        );
+      }
+      return this.call(method, [
+        self,
+        ...this.evaluateList(node.arguments, frame),
+      ]);
+    }
+    const callee = this.evaluate(base, frame);
+    const args = this.evaluateList(node.arguments, frame);
+    if (callee === undefined && base.type === "Identifier") {
+      this.error(`attempt to call a nil value (global '${base.name}')`);
+    }
+    return this.call(callee, args);
+  }
+
+  private evaluate(node: Expression, frame: Frame): LuaValue {
+    this.budget.step();
+    switch (node.type) {
+      case "NilLiteral":
+        return undefined;
+      case "BooleanLiteral":
+      case "NumericLiteral":
+      case "StringLiteral":
+        return node.value;
+      case "VarargLiteral":
+        return frame.varargs[0];
+      case "Identifier": {
+        const ref = this.variable(node, frame);
+        return ref ? ref.value : this.index(this.globals, node.name);
+      }
+      case "FunctionExpression":
+        return this.closure(node, frame, false);
+      case "TableConstructorExpression": {
+        const table = this.newTable();
+        let position = 1;
+        node.fields.forEach((field, i) => {
+          if (field.type === "TableKey") {
+            table.set(
+              this.evaluate(field.key, frame),
+              this.evaluate(field.value, frame),
+            );
+          } else if (field.type === "TableKeyString") {
+            table.set(field.key.name, this.evaluate(field.value, frame));
+          } else if (i === node.fields.length - 1) {
+            for (const value of this.evaluateMulti(field.value, frame)) {
+              table.set(position++, value);
+            }
+          } else {
+            table.set(position++, this.evaluate(field.value, frame));
+          }
+        });
+        return table;
+      }
+      case "BinaryExpression":
+        return this.binary(node.operator, node.left, node.right, frame);
+      case "UnaryExpression": {
+        const value = this.evaluate(node.argument, frame);
+        if (node.operator === "not") return !isTruthy(value);
+        if (node.operator === "#") return this.length(value);
+        const number = toArithmetic(value);
+        if (number !== undefined) return -number;
+        const handler = this.metamethod(value, "__unm");
+        if (handler !== undefined) return this.call(handler, [value, value])[0];
+        this.error(`attempt to perform arithmetic on a ${typeOf(value)} value`);
+      }
+      case "ParenthesizedExpression":
+        return this.evaluate(node.expression, frame);
+      case "MemberExpression":
+        return this.index(
+          this.evaluate(node.base, frame),
+          node.identifier.name,
+        );
+      case "IndexExpression":
+        return this.index(
+          this.evaluate(node.base, frame),
+          this.evaluate(node.index, frame),
+        );
+      case "CallExpression":
+        return this.callExpression(node, frame)[0];
+      case "IfExpression": {
+        for (const clause of node.clauses) {
+          if (isTruthy(this.evaluate(clause.condition, frame))) {
+            return this.evaluate(clause.value, frame);
+          }
+        }
+        return this.evaluate(node.orelse, frame);
+      }
+      case "InterpolatedStringExpression": {
+        let text = node.parts[0];
+        node.expressions.forEach((expression, i) => {
+          text +=
+            this.tostring(this.evaluate(expression, frame)) + node.parts[i + 1];
+        });
+        return this.string(text);
+      }
+      case "TypeAssertionExpression":
+        return this.evaluate(node.expression, frame);
+    }
+  }
+
+  // The binding a declaration resolved to
+  private binding(identifier: Identifier): Binding {
+    const binding = this.bindings.get(identifier);
+    if (!binding) this.error(`'${identifier.name}' has no binding`);
+    return binding;
+  }
+
+  private variable(identifier: Identifier, frame: Frame): Ref | undefined {
+    const binding = this.bindings.get(identifier);
+    return binding && frame.lookup(binding);
+  }
+
+  // Evaluates a target's object and key, but doesn't read it yet
+  private place(target: Expression, frame: Frame): Place {
+    if (target.type === "Identifier") {
+      const ref = this.variable(target, frame);
+      return ref
+        ? { type: "variable", ref }
+        : { type: "index", object: this.globals, key: target.name };
+    }
+    if (target.type === "MemberExpression") {
+      return {
+        type: "index",
+        object: this.evaluate(target.base, frame),
+        key: target.identifier.name,
+      };
+    }
+    if (target.type === "IndexExpression") {
+      return {
+        type: "index",
+        object: this.evaluate(target.base, frame),
+        key: this.evaluate(target.index, frame),
+      };
+    }
+    this.error(`cannot assign to ${target.type}`);
+  }
+
+  private read(place: Place): LuaValue {
+    return place.type === "variable"
+      ? place.ref.value
+      : this.index(place.object, place.key);
+  }
+
+  private write(place: Place, value: LuaValue): void {
+    if (place.type === "variable") place.ref.value = value;
+    else this.setIndex(place.object, place.key, value);
+  }
+
+  private block(body: Statement[], frame: Frame): Signal {
+    for (const statement of body) {
+      const signal = this.statement(statement, frame);
+      if (signal) return signal;
+    }
+    return undefined;
+  }
+
+  // Runs a loop body; says whether the loop should stop and what to pass on
+  private loopBody(
+    body: Statement[],
+    frame: Frame,
+  ): { stop: boolean; signal: Signal } {
+    const signal = this.block(body, frame);
+    if (signal === BREAK) return { stop: true, signal: undefined };
+    if (signal === CONTINUE || signal === undefined) {
+      return { stop: false, signal: undefined };
+    }
+    return { stop: true, signal };
+  }
+
+  private statement(node: Statement, frame: Frame): Signal {
+    this.budget.step();
+    if (node.loc) this.line = node.loc.start.line;
+    switch (node.type) {
+      case "LocalStatement": {
+        const values = this.evaluateList(node.init, frame);
+        node.variables.forEach((variable, i) =>
+          frame.declare(this.binding(variable), values[i]),
+        );
+        return undefined;
+      }
+      case "AssignmentStatement": {
+        // Every target's object and key come before any value is assigned:
+        // `i, t[i] = i + 1, 20` sets `t` at the old `i`
+        const places = node.variables.map((variable) =>
+          this.place(variable, frame),
+        );
+        const values = this.evaluateList(node.init, frame);
+        places.forEach((place, i) => this.write(place, values[i]));
+        return undefined;
+      }
+      case "CompoundAssignmentStatement": {
+        const operator = node.operator.slice(0, -1) as BinaryOperator;
+        // `t[key()] += 1` calls `key` once
+        const place = this.place(node.variable, frame);
+        const current = this.read(place);
+        const value = this.evaluate(node.value, frame);
+        this.write(
+          place,
+          operator === ".."
+            ? this.concat(current, value)
+            : this.arithmetic(operator, current, value),
+        );
+        return undefined;
+      }
+      case "CallStatement":
+        this.callExpression(node.expression, frame);
+        return undefined;
+      case "DoStatement":
+        return this.block(node.body, new Frame(frame, frame.varargs));
+      case "WhileStatement":
+        while (isTruthy(this.evaluate(node.condition, frame))) {
+          const { stop, signal } = this.loopBody(
+            node.body,
+            new Frame(frame, frame.varargs),
+          );
+          if (stop) return signal;
+        }
+        return undefined;
+      case "RepeatStatement":
+        for (;;) {
+          // The condition can see the body's locals
+          const scope = new Frame(frame, frame.varargs);
+          const { stop, signal } = this.loopBody(node.body, scope);
+          if (stop) return signal;
+          if (isTruthy(this.evaluate(node.condition, scope))) return undefined;
+        }
+      case "IfStatement": {
+        for (const clause of node.clauses) {
+          if (isTruthy(this.evaluate(clause.condition, frame))) {
+            return this.block(clause.body, new Frame(frame, frame.varargs));
+          }
+        }
+        return node.orelse
+          ? this.block(node.orelse, new Frame(frame, frame.varargs))
+          : undefined;
+      }
+      case "NumericForStatement": {
+        const start = toArithmetic(this.evaluate(node.start, frame));
+        const end = toArithmetic(this.evaluate(node.end, frame));
+        const step = node.step
+          ? toArithmetic(this.evaluate(node.step, frame))
+          : 1;
+        if (start === undefined)
+          this.error("'for' initial value must be a number");
+        if (end === undefined) this.error("'for' limit must be a number");
+        if (step === undefined) this.error("'for' step must be a number");
+        if (step === 0) this.error("'for' step is zero");
+        for (let i = start; step > 0 ? i <= end : i >= end; i += step) {
+          const scope = new Frame(frame, frame.varargs);
+          scope.declare(this.binding(node.variable), i);
+          const { stop, signal } = this.loopBody(node.body, scope);
+          if (stop) return signal;
+        }
+        return undefined;
+      }
+      case "GenericForStatement": {
+        let [iterator, state, control] = this.evaluateList(
+          node.iterators,
+          frame,
+        );
+        // Luau iterates tables directly: `for k, v in t do`
+        if (
+          iterator instanceof LuaTable &&
+          this.metamethod(iterator, "__call") === undefined
+        ) {
+          state = iterator;
+          control = undefined;
+          iterator = this.index(this.globals, "next");
+        }
+        for (;;) {
+          const values = this.call(iterator, [state, control]);
+          if (values[0] === undefined) return undefined;
+          control = values[0];
+          const scope = new Frame(frame, frame.varargs);
+          node.variables.forEach((variable, i) =>
+            scope.declare(this.binding(variable), values[i]),
+          );
+          const { stop, signal } = this.loopBody(node.body, scope);
+          if (stop) return signal;
+        }
+      }
+      case "FunctionDeclaration": {
+        const { identifier } = node;
+        if (node.isLocal && identifier.type === "Identifier") {
+          // Declared first so the function can call itself
+          const ref = frame.declare(this.binding(identifier), undefined);
+          ref.value = this.closure(node, frame, false);
+        } else {
+          const isMethod =
+            identifier.type === "MemberExpression" &&
+            identifier.indexer === ":";
+          const place = this.place(identifier, frame);
+          this.write(place, this.closure(node, frame, isMethod));
+        }
+        return undefined;
+      }
+      case "ReturnStatement":
+        return {
+          type: "return",
+          values: this.evaluateList(node.arguments, frame),
+        };
+      case "BreakStatement":
+        return BREAK;
+      case "ContinueStatement":
+        return CONTINUE;
+      case "TypeAliasStatement":
+        return undefined;
+    }
+  }
+}
+
+function toArithmetic(value: LuaValue): number | undefined {
+  if (typeof value === "number") return value;
+  if (typeof value === "string") return stringToNumber(value);
+  return undefined;
+}
+
+function describeKey(key: LuaValue): string {
+  return typeof key === "string" ? ` (field '${key}')` : "";
+}
+
+// Stable pseudo-addresses for printing tables and functions
+const addresses = new WeakMap<LuaTable | LuaFunction, number>();
+let nextAddress = 0x10000000;
+
+function addressOf(value: LuaTable | LuaFunction): string {
+  let address = addresses.get(value);
+  if (address === undefined) {
+    address = nextAddress += 0x20;
+    addresses.set(value, address);
+  }
+  return `0x${address.toString(16).padStart(8, "0")}`;
+}
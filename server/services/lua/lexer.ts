@@ -0,0 +1,436 @@
+import type { Position, SourceLocation } from "./ast";
+
+export type TokenType =
+  | "Name"
+  | "Keyword"
+  | "String"
+  | "Number"
+  | "Symbol"
+  // Luau backtick strings: a simple one has no `{}` holes, otherwise the
+  // segments around each hole come as begin/mid/end tokens
+  | "InterpSimple"
+  | "InterpBegin"
+  | "InterpMid"
+  | "InterpEnd"
+  | "EOF";
+
+export interface Token {
+  type: TokenType;
+  value: string; // decoded byte string for String tokens
+  raw: string;
+  loc: SourceLocation;
+}
+
+export interface Comment {
+  text: string;
+  raw: string;
+  loc: SourceLocation;
+}
+
+export class LuaSyntaxError extends Error {
+  constructor(
+    message: string,
+    public line: number,
+    public column: number,
+  ) {
+    super(`[${line}:${column + 1}] ${message}`);
+    this.name = "LuaSyntaxError";
+  }
+}
+
+const KEYWORDS = new Set([
+  "and",
+  "break",
+  "do",
+  "else",
+  "elseif",
+  "end",
+  "false",
+  "for",
+  "function",
+  "if",
+  "in",
+  "local",
+  "nil",
+  "not",
+  "or",
+  "repeat",
+  "return",
+  "then",
+  "true",
+  "until",
+  "while",
+]);
+
+// Longest first so the scanner can take the first match
+const SYMBOLS = [
+  "//=",
+  "...",
+  "..=",
+  "..",
+  "==",
+  "~=",
+  "<=",
+  ">=",
+  "::",
+  "->",
+  "+=",
+  "-=",
+  "*=",
+  "/=",
+  "%=",
+  "^=",
+  "//",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "^",
+  "#",
+  "<",
+  ">",
+  "=",
+  "(",
+  ")",
+  "{",
+  "}",
+  "[",
+  "]",
+  ";",
+  ":",
+  ",",
+  ".",
+  "?",
+  "|",
+  "&",
+];
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  a: "\x07",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  v: "\v",
+  "\\": "\\",
+  '"': '"',
+  "'": "'",
+};
+
+export function isKeyword(name: string): boolean {
+  return KEYWORDS.has(name);
+}
+
+/**
+ * Lua strings are byte arrays. Source text is converted to UTF-8 bytes so a
+ * literal's value round-trips regardless of how it was written.
+ */
+export function toByteString(text: string): string {
+  return Buffer.from(text, "utf8").toString("latin1");
+}
+
+export function fromByteString(bytes: string): string {
+  return Buffer.from(bytes, "latin1").toString("utf8");
+}
+
+export class Lexer {
+  private index = 0;
+  private line = 1;
+  private lineStart = 0;
+  // Open `{` braces; "interp" marks the hole of an interpolated string
+  private braces: ("brace" | "interp")[] = [];
+  readonly comments: Comment[] = [];
+
+  constructor(private readonly source: string) {
+    // Editors on Windows, Roblox Studio among them, often save a BOM first
+    if (source.charCodeAt(0) === 0xfeff) this.index = this.lineStart = 1;
+  }
+
+  tokenize(): Token[] {
+    const tokens: Token[] = [];
+    for (;;) {
+      const token = this.next();
+      tokens.push(token);
+      if (token.type === "EOF") return tokens;
+    }
+  }
+
+  private position(): Position {
+    return { line: this.line, column: this.index - this.lineStart };
+  }
+
+  private error(message: string): never {
+    const { line, column } = this.position();
+    throw new LuaSyntaxError(message, line, column);
+  }
+
+  private peek(offset = 0): string {
+    return this.source.charAt(this.index + offset);
+  }
+
+  private newline(): void {
+    const char = this.peek();
+    this.index++;
+    // \r\n and \n\r count as a single line break
+    const next = this.peek();
+    if ((next === "\n" || next === "\r") && next !== char) this.index++;
+    this.line++;
+    this.lineStart = this.index;
+  }
+
+  private skipWhitespaceAndComments(): void {
+    while (this.index < this.source.length) {
+      const char = this.peek();
+      if (char === "\n" || char === "\r") {
+        this.newline();
+      } else if (
+        char === " " ||
+        char === "\t" ||
+        char === "\f" ||
+        char === "\v"
+      ) {
+        this.index++;
+      } else if (char === "-" && this.peek(1) === "-") {
+        this.readComment();
+      } else {
+        return;
+      }
+    }
+  }
+
+  private readComment(): void {
+    const start = this.position();
+    const startIndex = this.index;
+    this.index += 2;
+    let text: string;
+    const level = this.longBracketLevel();
+    if (level >= 0) {
+      text = this.readLongBracket(level, "comment");
+    } else {
+      const lineEnd = this.source.slice(this.index).search(/[\r\n]/);
+      const end = lineEnd === -1 ? this.source.length : this.index + lineEnd;
+      text = this.source.slice(this.index, end);
+      this.index = end;
+    }
+    this.comments.push({
+      text,
+      raw: this.source.slice(startIndex, this.index),
+      loc: { start, end: this.position() },
+    });
+  }
+
+  // Level of a `[==[` opener at the cursor, or -1 when there isn't one
+  private longBracketLevel(): number {
+    if (this.peek() !== "[") return -1;
+    let level = 0;
+    while (this.peek(level + 1) === "=") level++;
+    return this.peek(level + 1) === "[" ? level : -1;
+  }
+
+  private readLongBracket(level: number, kind: string): string {
+    this.index += level + 2;
+    // A newline directly after the opener is not part of the content
+    if (this.peek() === "\n" || this.peek() === "\r") this.newline();
+    const close = "]" + "=".repeat(level) + "]";
+    const contentStart = this.index;
+    while (this.index < this.source.length) {
+      if (this.source.startsWith(close, this.index)) {
+        const content = this.source.slice(contentStart, this.index);
+        this.index += close.length;
+        return content;
+      }
+      const char = this.peek();
+      if (char === "\n" || char === "\r") this.newline();
+      else this.index++;
+    }
+    return this.error(`unfinished long ${kind}`);
+  }
+
+  private next(): Token {
+    this.skipWhitespaceAndComments();
+    const start = this.position();
+    const startIndex = this.index;
+    const make = (type: TokenType, value: string): Token => ({
+      type,
+      value,
+      raw: this.source.slice(startIndex, this.index),
+      loc: { start, end: this.position() },
+    });
+
+    if (this.index >= this.source.length) return make("EOF", "<eof>");
+
+    const char = this.peek();
+
+    if (/[A-Za-z_]/.test(char)) {
+      const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(
+        this.source.slice(this.index),
+      )![0];
+      this.index += name.length;
+      return make(KEYWORDS.has(name) ? "Keyword" : "Name", name);
+    }
+
+    if (/[0-9]/.test(char) || (char === "." && /[0-9]/.test(this.peek(1)))) {
+      return make("Number", this.readNumber());
+    }
+
+    if (char === '"' || char === "'") {
+      return make("String", this.readQuotedString(char));
+    }
+
+    if (char === "`") {
+      this.index++;
+      const [segment, opensHole] = this.readInterpolatedSegment();
+      return make(opensHole ? "InterpBegin" : "InterpSimple", segment);
+    }
+
+    if (char === "{") {
+      this.braces.push("brace");
+    } else if (char === "}" && this.braces.pop() === "interp") {
+      this.index++;
+      const [segment, opensHole] = this.readInterpolatedSegment();
+      return make(opensHole ? "InterpMid" : "InterpEnd", segment);
+    }
+
+    if (char === "[") {
+      const level = this.longBracketLevel();
+      if (level >= 0) {
+        return make(
+          "String",
+          toByteString(this.readLongBracket(level, "string")),
+        );
+      }
+    }
+
+    for (const symbol of SYMBOLS) {
+      if (this.source.startsWith(symbol, this.index)) {
+        this.index += symbol.length;
+        return make("Symbol", symbol);
+      }
+    }
+
+    return this.error(`unexpected symbol near '${char}'`);
+  }
+
+  private readNumber(): string {
+    const rest = this.source.slice(this.index);
+    // Luau allows `_` separators and 0b binary literals
+    const match =
+      /^0[bB][01_]+/.exec(rest) ??
+      /^0[xX](?:[0-9a-fA-F_]*\.?[0-9a-fA-F_]*)(?:[pP][+-]?[0-9]+)?/.exec(
+        rest,
+      ) ??
+      /^(?:[0-9][0-9_]*\.?[0-9_]*|\.[0-9][0-9_]*)(?:[eE][+-]?[0-9_]+)?/.exec(
+        rest,
+      );
+    if (!match || /^[A-Za-z_]/.test(rest.slice(match[0].length))) {
+      const bad = /^[0-9A-Za-z_.]+/.exec(rest)?.[0] ?? rest.charAt(0);
+      return this.error(`malformed number near '${bad}'`);
+    }
+    this.index += match[0].length;
+    return match[0];
+  }
+
+  private readQuotedString(quote: string): string {
+    this.index++;
+    let value = "";
+    for (;;) {
+      if (this.index >= this.source.length) this.error("unfinished string");
+      const char = this.peek();
+      if (char === quote) {
+        this.index++;
+        return value;
+      }
+      if (char === "\n" || char === "\r") this.error("unfinished string");
+      if (char !== "\\") {
+        value += this.readCodePoint();
+        continue;
+      }
+      value += this.readEscape();
+    }
+  }
+
+  // Reads up to the next `{` hole or the closing backtick. Returns the decoded
+  // segment and whether a hole was opened.
+  private readInterpolatedSegment(): [string, boolean] {
+    let value = "";
+    for (;;) {
+      if (this.index >= this.source.length) this.error("unfinished string");
+      const char = this.peek();
+      if (char === "`") {
+        this.index++;
+        return [value, false];
+      }
+      if (char === "{") {
+        this.index++;
+        this.braces.push("interp");
+        return [value, true];
+      }
+      if (char === "\n" || char === "\r") this.error("unfinished string");
+      if (char === "\\" && (this.peek(1) === "`" || this.peek(1) === "{")) {
+        value += this.peek(1);
+        this.index += 2;
+        continue;
+      }
+      if (char !== "\\") {
+        value += this.readCodePoint();
+        continue;
+      }
+      value += this.readEscape();
+    }
+  }
+
+  // One whole character, so one outside the BMP isn't split into halves
+  private readCodePoint(): string {
+    const char = String.fromCodePoint(this.source.codePointAt(this.index)!);
+    this.index += char.length;
+    return toByteString(char);
+  }
+
+  private readEscape(): string {
+    this.index++; // backslash
+    const char = this.peek();
+    if (char in SIMPLE_ESCAPES) {
+      this.index++;
+      return SIMPLE_ESCAPES[char];
+    }
+    if (char === "\n" || char === "\r") {
+      this.newline();
+      return "\n";
+    }
+    if (/[0-9]/.test(char)) {
+      const digits = /^[0-9]{1,3}/.exec(this.source.slice(this.index))![0];
+      const code = parseInt(digits, 10);
+      if (code > 255) this.error("decimal escape too large");
+      this.index += digits.length;
+      return String.fromCharCode(code);
+    }
+    if (char === "x") {
+      const hex = /^[0-9a-fA-F]{2}/.exec(this.source.slice(this.index + 1));
+      if (!hex) this.error("hexadecimal digit expected");
+      this.index += 3;
+      return String.fromCharCode(parseInt(hex[0], 16));
+    }
+    if (char === "z") {
+      this.index++;
+      while (/\s/.test(this.peek())) {
+        if (this.peek() === "\n" || this.peek() === "\r") this.newline();
+        else this.index++;
+      }
+      return "";
+    }
+    if (char === "u") {
+      const hex = /^\{([0-9a-fA-F]+)\}/.exec(this.source.slice(this.index + 1));
+      const codePoint = hex ? parseInt(hex[1], 16) : NaN;
+      if (!hex || codePoint > 0x10ffff) this.error("invalid unicode escape");
+      this.index += hex[0].length + 1;
+      return toByteString(String.fromCodePoint(codePoint));
+    }
+    return this.error(`invalid escape sequence '\\${char}'`);
+  }
+}
+
+export function tokenize(source: string): Token[] {
+  return new Lexer(source).tokenize();
+}
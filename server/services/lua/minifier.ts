@@ -0,0 +1,215 @@
+import { walk, type Chunk, type Expression, type Node } from "./ast";
+import { isKeyword, tokenize, type Token } from "./lexer";
+import { Printer, formatNumber, print, quoteString } from "./printer";
+import { analyzeScopes, renameBinding, type Binding } from "./scope";
+
+const FIRST_CHARS = "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ_";
+const NEXT_CHARS = FIRST_CHARS + "0123456789";
+
+// The `index`-th identifier in order of length: a, b, ..., _, aa, ba, ...
+function shortName(index: number): string {
+  let name = FIRST_CHARS[index % FIRST_CHARS.length];
+  let rest = Math.floor(index / FIRST_CHARS.length);
+  while (rest > 0) {
+    rest--;
+    name += NEXT_CHARS[rest % NEXT_CHARS.length];
+    rest = Math.floor(rest / NEXT_CHARS.length);
+  }
+  return name;
+}
+
+interface Lifetime {
+  binding: Binding;
+  // Walk-order positions of the declaration and every reference
+  uses: number[];
+  // Positions where the binding is visible: its declaration to the end of
+  // its scope
+  start: number;
+  end: number;
+}
+
+function overlaps(a: Lifetime, b: Lifetime): boolean {
+  return a.start <= b.end && b.start <= a.end;
+}
+
+// Two bindings can share a name unless one is visible where the other is
+// used, in which case the inner one would capture the outer one's uses
+function conflicts(a: Lifetime, b: Lifetime): boolean {
+  return (
+    overlaps(a, b) &&
+    (a.uses.some((use) => use >= b.start && use <= b.end) ||
+      b.uses.some((use) => use >= a.start && use <= a.end))
+  );
+}
+
+/**
+ * Give every local the shortest name that is safe: not a keyword, not a
+ * global the chunk uses, and not shared with another local whose lifetime
+ * clashes. Names are handed out to the most-used locals first and are reused
+ * across unrelated scopes. Returns how many locals changed name.
+ */
+export function assignShortNames(chunk: Chunk): number {
+  const analysis = analyzeScopes(chunk);
+
+  const first = new Map<Node, number>();
+  const last = new Map<Node, number>();
+  let position = 0;
+  walk(
+    chunk,
+    (node) => {
+      first.set(node, position++);
+    },
+    (node) => {
+      last.set(node, position - 1);
+    },
+  );
+
+  const lifetimes = analysis.bindings.map((binding): Lifetime => {
+    const declared = binding.declaration
+      ? first.get(binding.declaration)!
+      : first.get(binding.scope.node)!;
+    return {
+      binding,
+      uses: [binding.declaration, ...binding.references]
+        .filter((identifier) => identifier !== null)
+        .map((identifier) => first.get(identifier)!),
+      start: declared,
+      end: last.get(binding.scope.node)!,
+    };
+  });
+
+  const byName = new Map<string, Lifetime[]>();
+  const claim = (name: string, lifetime: Lifetime) => {
+    const list = byName.get(name) ?? [];
+    list.push(lifetime);
+    byName.set(name, list);
+  };
+
+  // The implicit `self` of methods can't be renamed
+  const renameable: Lifetime[] = [];
+  for (const lifetime of lifetimes) {
+    if (lifetime.binding.declaration) renameable.push(lifetime);
+    else claim(lifetime.binding.name, lifetime);
+  }
+  renameable.sort(
+    (a, b) => b.binding.references.length - a.binding.references.length,
+  );
+
+  let renamed = 0;
+  for (const lifetime of renameable) {
+    for (let index = 0; ; index++) {
+      const name = shortName(index);
+      if (isKeyword(name) || analysis.globals.has(name)) continue;
+      const holders = byName.get(name) ?? [];
+      if (holders.some((holder) => conflicts(holder, lifetime))) continue;
+      claim(name, lifetime);
+      if (lifetime.binding.name !== name) {
+        renameBinding(lifetime.binding, name);
+        renamed++;
+      }
+      break;
+    }
+  }
+  return renamed;
+}
+
+function shortest(candidates: string[]): string {
+  return candidates.reduce((best, candidate) =>
+    candidate.length < best.length ? candidate : best,
+  );
+}
+
+function shortestNumeral(value: number): string {
+  const plain = formatNumber(value);
+  const exponent = value.toExponential().replace("e+", "e");
+  return shortest([plain, String(value), exponent]).replace(/^0\./, ".");
+}
+
+/**
+ * Respell literals in their shortest form: `0xFF` as `255`, `1000000` as
+ * `1e6`, and strings with whichever quote needs fewer escapes.
+ */
+export function shortenLiterals(chunk: Chunk): void {
+  walk(chunk, (node) => {
+    if (node.type === "NumericLiteral" && Number.isFinite(node.value)) {
+      const numeral = shortestNumeral(node.value);
+      node.raw =
+        node.raw && node.raw.length <= numeral.length ? node.raw : numeral;
+    } else if (node.type === "StringLiteral") {
+      node.raw = shortest(
+        [
+          node.raw,
+          quoteString(node.value),
+          quoteString(node.value, "'"),
+        ].filter((raw): raw is string => raw !== undefined),
+      );
+    }
+  });
+}
+
+// Whether two tokens printed back to back would lex as something else
+function needsSpace(left: Token, right: Token): boolean {
+  const leftChar = left.raw[left.raw.length - 1];
+  const rightChar = right.raw[0];
+  if (/\w/.test(leftChar) && /\w/.test(rightChar)) return true;
+  // A hole opening straight into a table constructor reads as an escaped
+  // brace
+  if (
+    (left.type === "InterpBegin" || left.type === "InterpMid") &&
+    rightChar === "{"
+  ) {
+    return true;
+  }
+  if (left.type !== "Symbol" && left.type !== "Number") return false;
+  if (right.type !== "Symbol" && right.type !== "Number") {
+    // `[` followed by `[` or `[=` opens a long string
+    return leftChar === "[" && rightChar === "[";
+  }
+  try {
+    const tokens = tokenize(left.raw + right.raw);
+    return !(
+      tokens.length === 3 &&
+      tokens[0].raw === left.raw &&
+      tokens[1].raw === right.raw
+    );
+  } catch {
+    return true;
+  }
+}
+
+// Printed code with only the spaces the lexer needs
+function squeeze(code: string): string {
+  const tokens = tokenize(code).filter((token) => token.type !== "EOF");
+  let out = "";
+  tokens.forEach((token, index) => {
+    if (index > 0 && needsSpace(tokens[index - 1], token)) out += " ";
+    out += token.raw;
+  });
+  return out;
+}
+
+/**
+ * Print the chunk with the least whitespace that still lexes the same: one
+ * line, with a space only where two tokens would otherwise merge.
+ */
+export function printMinified(chunk: Chunk): string {
+  return squeeze(print(chunk, { indent: "" }));
+}
+
+// Length of an expression in minified output, numbers respelled as
+// `shortenLiterals` would
+function minifiedLength(node: Expression): number {
+  if (node.type === "NumericLiteral" && Number.isFinite(node.value)) {
+    return shortestNumeral(node.value).length;
+  }
+  return squeeze(new Printer().expression(node)).length;
+}
+
+/**
+ * For folding constants when minifying: a folded value is only worth
+ * having when it's written shorter than the expression, which `1/3` or
+ * `2^63` aren't.
+ */
+export function isShorter(folded: Expression, original: Expression): boolean {
+  return minifiedLength(folded) < minifiedLength(original);
+}
@@ -0,0 +1,460 @@
+import {
+  walk,
+  type CallExpression,
+  type Chunk,
+  type Expression,
+  type Identifier,
+  type IndexExpression,
+  type MemberExpression,
+  type Node,
+  type TableConstructorExpression,
+  type TableKey,
+  type TableKeyString,
+} from "./ast";
+import { analyzeScopes, type Binding, type ScopeAnalysis } from "./scope";
+
+export type ScriptClass = "Script" | "LocalScript" | "ModuleScript";
+
+export interface ProjectScript {
+  // Dotted instance path under the DataModel, like
+  // `ReplicatedStorage.Modules.Inventory`
+  path: string;
+  className: ScriptClass;
+  chunk: Chunk;
+}
+
+export interface RequireEdge {
+  // Path of the script making the call
+  from: string;
+  // Module of the project it loads; null when it points outside the project
+  to: string | null;
+  // What the argument points at: an instance path or an asset id; null when
+  // it can't be worked out without running the script
+  target: string | null;
+  line: number | null;
+}
+
+export interface ModuleLinks {
+  requires: RequireEdge[];
+  // Module path -> member name as written -> the name it was given
+  members: Record<string, Record<string, string>>;
+  // Modules whose members kept their names, with the first reason why
+  skipped: { path: string; reason: string }[];
+}
+
+export interface LinkOptions {
+  // Names for module members; without it nothing is renamed
+  generateName?: () => string;
+  // Member names to keep
+  isPreserved?: (name: string) => boolean;
+}
+
+/**
+ * `game.ReplicatedStorage.Modules.Inventory`, `ReplicatedStorage/Modules/
+ * Inventory` and `ReplicatedStorage.Modules.Inventory` all name the same
+ * instance; the last is the form paths are compared in.
+ */
+export function normalizeInstancePath(path: string): string {
+  const segments = path.split(/[./\\]/).filter(Boolean);
+  if (segments[0] === "game" || segments[0] === "Game") segments.shift();
+  return segments.join(".");
+}
+
+// Globals that name a fixed instance
+const ROOTS: Record<string, string[]> = {
+  game: [],
+  Game: [],
+  workspace: ["Workspace"],
+  Workspace: ["Workspace"],
+};
+
+// Methods that find a child by the name passed to them
+const CHILD_LOOKUPS = new Set([
+  "GetService",
+  "FindService",
+  "FindFirstChild",
+  "WaitForChild",
+]);
+
+interface ScriptAnalysis {
+  script: ProjectScript;
+  scopes: ScopeAnalysis;
+  parents: Map<Node, Node | null>;
+  // Initializer of every local that's never assigned again
+  constants: Map<Binding, Expression>;
+  // The implicit `self` of each `function a:b()`
+  selves: Map<Node, Binding>;
+}
+
+// Every place a module's table is reached from, across the project
+interface ModuleUses {
+  // `M.name`, `M:name()` and `M["name"]`
+  accesses: (MemberExpression | IndexExpression)[];
+  // `name = ...` and `["name"] = ...` in the constructor that builds it
+  keys: (TableKeyString | TableKey)[];
+  // Uses that could reach a member by a name not written in the code
+  escapes: string[];
+}
+
+type MemberNode =
+  MemberExpression | IndexExpression | TableKeyString | TableKey;
+
+function memberName(node: MemberNode): string {
+  switch (node.type) {
+    case "MemberExpression":
+      return node.identifier.name;
+    case "TableKeyString":
+      return node.key.name;
+    case "IndexExpression":
+      return (node.index as { value: string }).value;
+    case "TableKey":
+      return (node.key as { value: string }).value;
+  }
+}
+
+function setMemberName(node: MemberNode, name: string): void {
+  if (node.type === "MemberExpression") {
+    node.identifier.name = name;
+  } else if (node.type === "TableKeyString") {
+    node.key.name = name;
+  } else {
+    const literal = node.type === "IndexExpression" ? node.index : node.key;
+    if (literal.type !== "StringLiteral") return;
+    literal.value = name;
+    literal.raw = undefined;
+  }
+}
+
+function analyzeScript(script: ProjectScript): ScriptAnalysis {
+  const scopes = analyzeScopes(script.chunk);
+  const parents = new Map<Node, Node | null>();
+  const initializers = new Map<Binding, Expression>();
+  const assigned = new Set<Binding>();
+  const markAssigned = (target: Node) => {
+    const binding =
+      target.type === "Identifier" ? scopes.resolved.get(target) : undefined;
+    if (binding) assigned.add(binding);
+  };
+  walk(script.chunk, (node, parent) => {
+    parents.set(node, parent);
+    switch (node.type) {
+      case "LocalStatement":
+        node.variables.forEach((variable, index) => {
+          const binding = scopes.resolved.get(variable);
+          if (binding && node.init[index]) {
+            initializers.set(binding, node.init[index]);
+          }
+        });
+        break;
+      case "AssignmentStatement":
+        node.variables.forEach(markAssigned);
+        break;
+      case "CompoundAssignmentStatement":
+        markAssigned(node.variable);
+        break;
+      case "FunctionDeclaration":
+        if (!node.isLocal) markAssigned(node.identifier);
+        break;
+    }
+  });
+
+  const constants = new Map<Binding, Expression>();
+  initializers.forEach((init, binding) => {
+    if (!assigned.has(binding)) constants.set(binding, init);
+  });
+  const selves = new Map<Node, Binding>();
+  for (const binding of scopes.bindings) {
+    if (binding.kind === "self") selves.set(binding.scope.node, binding);
+  }
+  return { script, scopes, parents, constants, selves };
+}
+
+// `Parent` steps up rather than down
+function childPath(path: string[], name: string): string[] | null {
+  if (name !== "Parent") return [...path, name];
+  return path.length > 0 ? path.slice(0, -1) : null;
+}
+
+// The instance an expression always evaluates to, as a path from the
+// DataModel: `game:GetService("ReplicatedStorage").Modules`,
+// `script.Parent:WaitForChild("Util")`, or a local holding one of those
+function instancePath(
+  expression: Expression,
+  analysis: ScriptAnalysis,
+  depth = 0,
+): string[] | null {
+  if (depth > 32) return null;
+  switch (expression.type) {
+    case "ParenthesizedExpression":
+      return instancePath(expression.expression, analysis, depth + 1);
+    case "Identifier": {
+      const binding = analysis.scopes.resolved.get(expression);
+      if (!binding) {
+        if (expression.name === "script") {
+          return analysis.script.path.split(".");
+        }
+        return Object.prototype.hasOwnProperty.call(ROOTS, expression.name)
+          ? ROOTS[expression.name]
+          : null;
+      }
+      const init = analysis.constants.get(binding);
+      return init ? instancePath(init, analysis, depth + 1) : null;
+    }
+    case "MemberExpression": {
+      if (expression.indexer !== ".") return null;
+      const base = instancePath(expression.base, analysis, depth + 1);
+      return base && childPath(base, expression.identifier.name);
+    }
+    case "IndexExpression": {
+      if (expression.index.type !== "StringLiteral") return null;
+      const base = instancePath(expression.base, analysis, depth + 1);
+      return base && childPath(base, expression.index.value);
+    }
+    case "CallExpression": {
+      const callee = expression.base;
+      const [name] = expression.arguments;
+      if (
+        callee.type !== "MemberExpression" ||
+        callee.indexer !== ":" ||
+        !CHILD_LOOKUPS.has(callee.identifier.name) ||
+        name?.type !== "StringLiteral"
+      ) {
+        return null;
+      }
+      const base = instancePath(callee.base, analysis, depth + 1);
+      return base && [...base, name.value];
+    }
+    default:
+      return null;
+  }
+}
+
+function lineOf(node: Node): number | null {
+  return node.loc?.start.line ?? null;
+}
+
+function where(analysis: ScriptAnalysis, node: Node): string {
+  const line = lineOf(node);
+  return line === null
+    ? analysis.script.path
+    : `${analysis.script.path}:${line}`;
+}
+
+// Record how a value that is the module's table gets used, given the
+// expression holding it: member accesses are fine, anything else lets names
+// through that renaming can't see
+function collectUse(
+  node: Expression,
+  analysis: ScriptAnalysis,
+  uses: ModuleUses,
+): void {
+  const parent = analysis.parents.get(node);
+  if (parent?.type === "MemberExpression" && parent.base === node) {
+    uses.accesses.push(parent);
+    // Inside `function M:name()`, `self` is the module's table too
+    const declaration = analysis.parents.get(parent);
+    if (
+      declaration?.type === "FunctionDeclaration" &&
+      declaration.identifier === parent
+    ) {
+      const self = analysis.selves.get(declaration);
+      if (self) collectReferences(self, analysis, uses);
+    }
+    return;
+  }
+  if (
+    parent?.type === "IndexExpression" &&
+    parent.base === node &&
+    parent.index.type === "StringLiteral"
+  ) {
+    uses.accesses.push(parent);
+    return;
+  }
+  uses.escapes.push(
+    `${where(analysis, node)} uses the module other than by naming a member`,
+  );
+}
+
+function collectReferences(
+  binding: Binding,
+  analysis: ScriptAnalysis,
+  uses: ModuleUses,
+  except?: Identifier,
+): void {
+  for (const reference of binding.references) {
+    if (reference !== except) collectUse(reference, analysis, uses);
+  }
+}
+
+function collectKeys(
+  table: TableConstructorExpression,
+  analysis: ScriptAnalysis,
+  uses: ModuleUses,
+): void {
+  for (const field of table.fields) {
+    if (field.type === "TableKeyString") {
+      uses.keys.push(field);
+    } else if (field.type === "TableKey") {
+      if (field.key.type === "StringLiteral") {
+        uses.keys.push(field);
+      } else if (field.key.type !== "NumericLiteral") {
+        uses.escapes.push(
+          `${where(analysis, field)} builds the module with a computed key`,
+        );
+      }
+    }
+  }
+}
+
+// The table a module returns, when it builds it itself: `return { ... }` or
+// `local M = {} ... return M`
+function collectExports(analysis: ScriptAnalysis, uses: ModuleUses): void {
+  const { body } = analysis.script.chunk;
+  const last = body[body.length - 1];
+  const value =
+    last?.type === "ReturnStatement" && last.arguments.length === 1
+      ? last.arguments[0]
+      : null;
+  if (value?.type === "TableConstructorExpression") {
+    collectKeys(value, analysis, uses);
+    return;
+  }
+  if (value?.type === "Identifier") {
+    const binding = analysis.scopes.resolved.get(value);
+    const init = binding && analysis.constants.get(binding);
+    if (binding && init?.type === "TableConstructorExpression") {
+      collectKeys(init, analysis, uses);
+      collectReferences(binding, analysis, uses, value);
+      return;
+    }
+  }
+  uses.escapes.push(
+    `${analysis.script.path} doesn't end by returning a table it builds`,
+  );
+}
+
+/**
+ * Resolve every `require` in a project to the module it loads, following
+ * instance paths through `script.Parent`, `:WaitForChild` and locals. With
+ * `generateName`, also give every member of each module a new name, the
+ * same in the module and in every script that requires it.
+ *
+ * Renaming assumes the project is the whole game. A module is skipped
+ * when anything could reach its members by a name that isn't written out:
+ * a `require` that can't be resolved, the table being passed on, stored or
+ * used as a metatable, a computed key, or another script with the same
+ * path. So is a module no script of the project requires, since whatever
+ * uses it is somewhere else. Metamethod names (`__index` and the like) are
+ * never renamed.
+ */
+export function linkModules(
+  scripts: ProjectScript[],
+  { generateName, isPreserved = () => false }: LinkOptions = {},
+): ModuleLinks {
+  const analyses = scripts.map(analyzeScript);
+  const counts = new Map<string, number>();
+  for (const { path } of scripts) counts.set(path, (counts.get(path) ?? 0) + 1);
+  const modules = new Map<string, ModuleUses>();
+  for (const analysis of analyses) {
+    const { path, className } = analysis.script;
+    // Siblings can share a name; a `require` of the path loads either one,
+    // so the first stands for all of them and is never renamed
+    if (className !== "ModuleScript" || modules.has(path)) continue;
+    const uses: ModuleUses = { accesses: [], keys: [], escapes: [] };
+    modules.set(path, uses);
+    if (counts.get(path)! > 1) {
+      uses.escapes.push(`more than one script has the path ${path}`);
+    }
+    collectExports(analysis, uses);
+  }
+
+  const requires: RequireEdge[] = [];
+  const required = new Set<string>();
+  // Reasons any module at all might be loaded somewhere unseen
+  const unresolved: string[] = [];
+  for (const analysis of analyses) {
+    for (const identifier of analysis.scopes.globals.get("require") ?? []) {
+      const call = analysis.parents.get(identifier);
+      if (call?.type !== "CallExpression" || call.base !== identifier) {
+        unresolved.push(
+          `${where(analysis, identifier)} uses \`require\` as a value`,
+        );
+        continue;
+      }
+      const [argument] = call.arguments;
+      const path = argument ? instancePath(argument, analysis) : null;
+      const target =
+        argument?.type === "NumericLiteral"
+          ? String(argument.value)
+          : path && path.join(".");
+      const to = path && modules.has(target!) ? target : null;
+      requires.push({
+        from: analysis.script.path,
+        to,
+        target,
+        line: lineOf(call),
+      });
+      if (target === null) {
+        unresolved.push(
+          `the \`require\` at ${where(analysis, call)} couldn't be resolved`,
+        );
+      }
+      if (to) {
+        required.add(to);
+        collectRequireUse(call, analysis, modules.get(to)!);
+      }
+    }
+  }
+  modules.forEach((uses, path) => {
+    if (!required.has(path)) {
+      uses.escapes.push(`no script in the project requires ${path}`);
+    }
+  });
+
+  const members: Record<string, Record<string, string>> = {};
+  const skipped: ModuleLinks["skipped"] = [];
+  if (!generateName) return { requires, members, skipped };
+  modules.forEach((uses, path) => {
+    const reason = unresolved[0] ?? uses.escapes[0];
+    if (reason) {
+      skipped.push({ path, reason });
+      return;
+    }
+    const nodes: MemberNode[] = [...uses.keys, ...uses.accesses];
+    const written = new Set(nodes.map(memberName));
+    const renames: Record<string, string> = {};
+    for (const node of nodes) {
+      const name = memberName(node);
+      if (name.startsWith("__") || isPreserved(name)) continue;
+      if (!Object.prototype.hasOwnProperty.call(renames, name)) {
+        let generated: string;
+        do generated = generateName();
+        while (written.has(generated));
+        renames[name] = generated;
+      }
+      setMemberName(node, renames[name]);
+    }
+    members[path] = renames;
+  });
+  return { requires, members, skipped };
+}
+
+// `local M = require(...)`, `require(...).name` and a bare `require(...)`
+// for its side effects are the uses that keep every member name in sight
+function collectRequireUse(
+  call: CallExpression,
+  analysis: ScriptAnalysis,
+  uses: ModuleUses,
+): void {
+  const parent = analysis.parents.get(call);
+  if (parent?.type === "CallStatement") return;
+  if (parent?.type === "LocalStatement") {
+    const index = parent.init.indexOf(call);
+    const variable = parent.variables[index];
+    const binding = variable && analysis.scopes.resolved.get(variable);
+    if (binding) collectReferences(binding, analysis, uses);
+    // Initializers past the last variable are evaluated and dropped
+    if (binding || !variable) return;
+  }
+  collectUse(call, analysis, uses);
+}
@@ -0,0 +1,309 @@
+import {
+  collectBlocks,
+  type BinaryOperator,
+  type Chunk,
+  type Expression,
+  type Statement,
+} from "./ast";
+import * as b from "./builders";
+
+export interface OpaquePredicateOptions {
+  level: "light" | "medium" | "heavy";
+  random: () => number;
+  // Returns a name that is not used anywhere in the chunk
+  generateName: () => string;
+}
+
+interface LevelProfile {
+  // Chance of adding a fake branch after a statement
+  fakeBranchRate: number;
+  // Chance of guarding a statement behind an always-true predicate
+  guardRate: number;
+  // Chance of joining two predicates with `and`/`or`
+  compoundRate: number;
+}
+
+const LEVEL_PROFILES: Record<OpaquePredicateOptions["level"], LevelProfile> = {
+  light: { fakeBranchRate: 0.1, guardRate: 0.05, compoundRate: 0 },
+  medium: { fakeBranchRate: 0.2, guardRate: 0.1, compoundRate: 0.3 },
+  heavy: { fakeBranchRate: 0.3, guardRate: 0.2, compoundRate: 0.6 },
+};
+
+const POOL_SIZE = 8;
+
+// Swapping the comparison turns a predicate into its exact negation
+const NEGATED: Partial<Record<BinaryOperator, BinaryOperator>> = {
+  "==": "~=",
+  "~=": "==",
+  "<": ">=",
+  ">=": "<",
+  ">": "<=",
+  "<=": ">",
+};
+
+type Comparison = {
+  operator: BinaryOperator;
+  left: Expression;
+  right: Expression;
+};
+
+/**
+ * Builds conditions with a known outcome that a reader can't settle without
+ * running the code. Every predicate reads from a table of integers declared
+ * at the top of the chunk, so proving one constant means proving the table is
+ * never written to, and then applying an arithmetic identity on top.
+ */
+export class OpaquePredicateGenerator {
+  readonly tableName: string;
+  readonly values: number[];
+  used = 0;
+
+  constructor(
+    private readonly random: () => number,
+    generateName: () => string,
+    private readonly compoundRate = 0,
+  ) {
+    this.tableName = generateName();
+    this.values = Array.from(
+      { length: POOL_SIZE },
+      () => 2 + Math.floor(random() * 200),
+    );
+  }
+
+  private pick<T>(items: T[]): T {
+    return items[Math.floor(this.random() * items.length)];
+  }
+
+  private slot(): { read: Expression; value: number } {
+    const index = Math.floor(this.random() * this.values.length);
+    return {
+      read: b.index(b.identifier(this.tableName), b.number(index + 1)),
+      value: this.values[index],
+    };
+  }
+
+  // One comparison that is always true for any integer in the pool
+  private identity(): Comparison {
+    const x = this.slot();
+    const y = this.slot();
+    const read = () => structuredClone(x.read);
+    const forms: (() => Comparison)[] = [
+      // x(x + 1) is a product of consecutive integers, so it's even
+      () => ({
+        operator: "==",
+        left: b.binary(
+          "%",
+          b.binary("*", read(), b.binary("+", read(), b.number(1))),
+          b.number(2),
+        ),
+        right: b.number(0),
+      }),
+      // Squares are 0 or 1 mod 4
+      () => ({
+        operator: "<",
+        left: b.binary("%", b.binary("*", read(), read()), b.number(4)),
+        right: b.number(2),
+      }),
+      // x^3 - x = (x - 1)x(x + 1) is divisible by 6
+      () => ({
+        operator: "==",
+        left: b.binary(
+          "%",
+          b.binary(
+            "-",
+            b.binary("*", b.binary("*", read(), read()), read()),
+            read(),
+          ),
+          b.number(6),
+        ),
+        right: b.number(0),
+      }),
+      // (x + 1)^2 - x^2 = 2x + 1
+      () => ({
+        operator: "==",
+        left: b.binary(
+          "-",
+          b.binary(
+            "*",
+            b.binary("+", read(), b.number(1)),
+            b.binary("+", read(), b.number(1)),
+          ),
+          b.binary("*", read(), read()),
+        ),
+        right: b.binary("+", b.binary("*", b.number(2), read()), b.number(1)),
+      }),
+      // Plain table lookups against the values we put there
+      () => ({
+        operator: "==",
+        left: b.binary("+", read(), y.read),
+        right: b.number(x.value + y.value),
+      }),
+      () =>
+        x.value === y.value
+          ? { operator: "==", left: x.read, right: b.number(x.value) }
+          : {
+              operator: x.value > y.value ? ">" : "<",
+              left: x.read,
+              right: y.read,
+            },
+    ];
+    return this.pick(forms)();
+  }
+
+  private comparison(outcome: boolean): Expression {
+    const { operator, left, right } = this.identity();
+    return b.binary(outcome ? operator : NEGATED[operator]!, left, right);
+  }
+
+  /**
+   * An expression that always evaluates to `outcome`.
+   */
+  predicate(outcome: boolean): Expression {
+    this.used++;
+    if (this.random() >= this.compoundRate) return this.comparison(outcome);
+    // true: T and T / F or T; false: F or F / T and F
+    const mixed = this.random() < 0.5;
+    if (outcome) {
+      return mixed
+        ? b.binary("or", this.comparison(false), this.comparison(true))
+        : b.binary("and", this.comparison(true), this.comparison(true));
+    }
+    return mixed
+      ? b.binary("and", this.comparison(true), this.comparison(false))
+      : b.binary("or", this.comparison(false), this.comparison(false));
+  }
+
+  /**
+   * Plausible code for a branch that never runs. It writes to the pool, so a
+   * reader can't assume the table is constant without proving the branch dead.
+   */
+  junk(): Statement[] {
+    const statements: Statement[] = [];
+    const count = 1 + Math.floor(this.random() * 2);
+    for (let i = 0; i < count; i++) {
+      const target = this.slot().read;
+      const operator = this.pick<BinaryOperator>(["+", "-", "*"]);
+      statements.push({
+        type: "AssignmentStatement",
+        variables: [target],
+        init: [
+          b.binary(
+            "%",
+            b.binary(
+              operator,
+              this.slot().read,
+              b.number(1 + Math.floor(this.random() * 50)),
+            ),
+            b.number(3 + Math.floor(this.random() * 250)),
+          ),
+        ],
+      });
+    }
+    return statements;
+  }
+
+  declaration(): Statement {
+    return {
+      type: "LocalStatement",
+      variables: [b.identifier(this.tableName)],
+      init: [
+        {
+          type: "TableConstructorExpression",
+          fields: this.values.map((value) => ({
+            type: "TableValue" as const,
+            value: b.number(value),
+          })),
+        },
+      ],
+    };
+  }
+}
+
+// Wrapping a local declaration in `if` would end its scope early
+function canGuard(statement: Statement): boolean {
+  switch (statement.type) {
+    case "LocalStatement":
+    case "TypeAliasStatement":
+    case "ReturnStatement":
+    case "BreakStatement":
+    case "ContinueStatement":
+      return false;
+    case "FunctionDeclaration":
+      return !statement.isLocal;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Add fake branches behind always-false predicates and guard real statements
+ * behind always-true ones (with a fake `else`). Returns how many predicates
+ * were generated.
+ */
+export function insertOpaquePredicates(
+  chunk: Chunk,
+  options: OpaquePredicateOptions,
+): number {
+  const profile = LEVEL_PROFILES[options.level];
+  const { random } = options;
+  const generator = new OpaquePredicateGenerator(
+    random,
+    options.generateName,
+    profile.compoundRate,
+  );
+
+  for (const block of collectBlocks(chunk)) {
+    for (let i = block.length - 1; i >= 0; i--) {
+      const statement = block[i];
+      if (canGuard(statement) && random() < profile.guardRate) {
+        block[i] = {
+          type: "IfStatement",
+          clauses: [
+            {
+              type: "IfClause",
+              condition: generator.predicate(true),
+              body: [statement],
+            },
+          ],
+          orelse: generator.junk(),
+        };
+      }
+      // Nothing may follow a return, break or continue in the same block
+      if (
+        statement.type === "ReturnStatement" ||
+        statement.type === "BreakStatement" ||
+        statement.type === "ContinueStatement"
+      ) {
+        continue;
+      }
+      if (random() < profile.fakeBranchRate) {
+        block.splice(
+          i + 1,
+          0,
+          random() < 0.5
+            ? {
+                type: "IfStatement",
+                clauses: [
+                  {
+                    type: "IfClause",
+                    condition: generator.predicate(false),
+                    body: generator.junk(),
+                  },
+                ],
+                orelse: null,
+              }
+            : {
+                type: "WhileStatement",
+                condition: generator.predicate(false),
+                body: generator.junk(),
+              },
+        );
+      }
+    }
+  }
+
+  if (generator.used > 0) {
+    chunk.body.unshift(generator.declaration());
+  }
+  return generator.used;
+}
@@ -0,0 +1,1102 @@
+import type {
+  BinaryOperator,
+  Chunk,
+  CompoundOperator,
+  Expression,
+  FunctionExpression,
+  GenericTypeParameter,
+  Identifier,
+  IfClause,
+  MemberExpression,
+  Position,
+  Statement,
+  TableField,
+  TypeNode,
+  TypeTableIndexer,
+  TypeTableProperty,
+  UnaryOperator,
+} from "./ast";
+import { Lexer, LuaSyntaxError, type Comment, type Token } from "./lexer";
+
+// Left and right binding power for each binary operator. Right-associative
+// operators bind tighter on the left than on the right.
+const BINARY_PRIORITY: Record<BinaryOperator, [number, number]> = {
+  or: [1, 1],
+  and: [2, 2],
+  "<": [3, 3],
+  ">": [3, 3],
+  "<=": [3, 3],
+  ">=": [3, 3],
+  "~=": [3, 3],
+  "==": [3, 3],
+  "..": [5, 4],
+  "+": [6, 6],
+  "-": [6, 6],
+  "*": [7, 7],
+  "/": [7, 7],
+  "//": [7, 7],
+  "%": [7, 7],
+  "^": [10, 9],
+};
+
+const UNARY_PRIORITY = 8;
+
+const COMPOUND_OPERATORS = new Set<string>([
+  "+=",
+  "-=",
+  "*=",
+  "/=",
+  "//=",
+  "%=",
+  "^=",
+  "..=",
+]);
+
+// Tokens that, after a leading `continue`, mean it is an ordinary variable
+const EXPRESSION_CONTINUATIONS = new Set([
+  "(",
+  ".",
+  "[",
+  ":",
+  "=",
+  ",",
+  "{",
+  ...Array.from(COMPOUND_OPERATORS),
+]);
+
+export interface ParseResult {
+  chunk: Chunk;
+  comments: Comment[];
+}
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  private get current(): Token {
+    return this.tokens[this.index];
+  }
+
+  private lookahead(offset = 1): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private get previousEnd(): Position {
+    return this.tokens[Math.max(this.index - 1, 0)].loc.end;
+  }
+
+  private error(message: string, token: Token = this.current): never {
+    throw new LuaSyntaxError(
+      `${message} near '${token.type === "EOF" ? "<eof>" : token.raw}'`,
+      token.loc.start.line,
+      token.loc.start.column,
+    );
+  }
+
+  private check(value: string): boolean {
+    const token = this.current;
+    return (
+      (token.type === "Symbol" || token.type === "Keyword") &&
+      token.value === value
+    );
+  }
+
+  // Luau's contextual keywords (`continue`, `type`, `export`, `typeof`) are
+  // ordinary names to the lexer
+  private checkName(value: string, token: Token = this.current): boolean {
+    return token.type === "Name" && token.value === value;
+  }
+
+  private accept(value: string): boolean {
+    if (!this.check(value)) return false;
+    this.index++;
+    return true;
+  }
+
+  private expect(value: string): Token {
+    if (!this.check(value)) this.error(`'${value}' expected`);
+    return this.tokens[this.index++];
+  }
+
+  // Like expect, but reports the opening token when a block is left open
+  private expectMatch(value: string, opener: string, openToken: Token): void {
+    if (this.accept(value)) return;
+    const line = openToken.loc.start.line;
+    this.error(
+      line === this.current.loc.start.line
+        ? `'${value}' expected`
+        : `'${value}' expected (to close '${opener}' at line ${line})`,
+    );
+  }
+
+  private finish<T extends object>(node: T, start: Position): T {
+    return Object.assign(node, { loc: { start, end: this.previousEnd } });
+  }
+
+  parseChunk(): Chunk {
+    const start = this.current.loc.start;
+    const body = this.parseBlock();
+    if (this.current.type !== "EOF") this.error("'<eof>' expected");
+    return this.finish({ type: "Chunk" as const, body }, start);
+  }
+
+  private blockFollows(): boolean {
+    const token = this.current;
+    if (token.type === "EOF") return true;
+    return (
+      token.type === "Keyword" &&
+      ["end", "else", "elseif", "until"].includes(token.value)
+    );
+  }
+
+  private parseBlock(): Statement[] {
+    const body: Statement[] = [];
+    while (!this.blockFollows()) {
+      if (this.check("return")) {
+        body.push(this.parseReturn());
+        break;
+      }
+      if (this.accept(";")) continue;
+      const statement = this.parseStatement();
+      body.push(statement);
+      if (
+        statement.type === "BreakStatement" ||
+        statement.type === "ContinueStatement"
+      ) {
+        this.accept(";");
+        break;
+      }
+    }
+    return body;
+  }
+
+  private parseReturn(): Statement {
+    const start = this.expect("return").loc.start;
+    const args =
+      this.blockFollows() || this.check(";") ? [] : this.parseExpressionList();
+    this.accept(";");
+    return this.finish(
+      { type: "ReturnStatement" as const, arguments: args },
+      start,
+    );
+  }
+
+  private parseStatement(): Statement {
+    const token = this.current;
+    const start = token.loc.start;
+
+    if (token.type === "Keyword") {
+      switch (token.value) {
+        case "local":
+          this.index++;
+          if (this.accept("function")) {
+            const identifier = this.parseIdentifier();
+            const { type: _, loc: __, ...func } = this.parseFunctionBody(start);
+            return this.finish(
+              {
+                ...func,
+                type: "FunctionDeclaration" as const,
+                identifier,
+                isLocal: true,
+              },
+              start,
+            );
+          }
+          return this.parseLocal(start);
+        case "function":
+          return this.parseFunctionDeclaration();
+        case "if":
+          return this.parseIf();
+        case "while": {
+          this.index++;
+          const condition = this.parseExpression();
+          this.expect("do");
+          const body = this.parseBlock();
+          this.expectMatch("end", "while", token);
+          return this.finish(
+            { type: "WhileStatement" as const, condition, body },
+            start,
+          );
+        }
+        case "do": {
+          this.index++;
+          const body = this.parseBlock();
+          this.expectMatch("end", "do", token);
+          return this.finish({ type: "DoStatement" as const, body }, start);
+        }
+        case "for":
+          return this.parseFor();
+        case "repeat": {
+          this.index++;
+          const body = this.parseBlock();
+          this.expectMatch("until", "repeat", token);
+          const condition = this.parseExpression();
+          return this.finish(
+            { type: "RepeatStatement" as const, body, condition },
+            start,
+          );
+        }
+        case "break":
+          this.index++;
+          return this.finish({ type: "BreakStatement" as const }, start);
+      }
+    }
+
+    if (token.type === "Name") {
+      const next = this.lookahead();
+      if (
+        this.checkName("continue") &&
+        !(next.type === "Symbol" && EXPRESSION_CONTINUATIONS.has(next.value)) &&
+        next.type !== "String" &&
+        !next.type.startsWith("Interp")
+      ) {
+        this.index++;
+        return this.finish({ type: "ContinueStatement" as const }, start);
+      }
+      if (this.checkName("type") && next.type === "Name") {
+        return this.parseTypeAlias(start, false);
+      }
+      if (
+        this.checkName("export") &&
+        this.checkName("type", next) &&
+        this.lookahead(2).type === "Name"
+      ) {
+        this.index++;
+        return this.parseTypeAlias(start, true);
+      }
+    }
+
+    return this.parseExpressionStatement();
+  }
+
+  private parseTypeAlias(start: Position, isExported: boolean): Statement {
+    this.index++; // `type`
+    const name = this.parseIdentifier().name;
+    const typeParameters = this.check("<")
+      ? this.parseGenericParameters(true)
+      : undefined;
+    this.expect("=");
+    const value = this.parseType();
+    return this.finish(
+      {
+        type: "TypeAliasStatement" as const,
+        name,
+        isExported,
+        typeParameters,
+        value,
+      },
+      start,
+    );
+  }
+
+  private parseLocal(start: Position): Statement {
+    const variables = [this.parseTypedIdentifier()];
+    while (this.accept(",")) variables.push(this.parseTypedIdentifier());
+    const init = this.accept("=") ? this.parseExpressionList() : [];
+    return this.finish(
+      { type: "LocalStatement" as const, variables, init },
+      start,
+    );
+  }
+
+  private parseFunctionDeclaration(): Statement {
+    const start = this.expect("function").loc.start;
+    let identifier: Identifier | MemberExpression = this.parseIdentifier();
+    while (this.check(".") || this.check(":")) {
+      const indexer = this.current.value as "." | ":";
+      this.index++;
+      identifier = this.finish(
+        {
+          type: "MemberExpression" as const,
+          base: identifier,
+          indexer,
+          identifier: this.parseIdentifier(),
+        },
+        start,
+      );
+      if (indexer === ":") break;
+    }
+    const { type: _, loc: __, ...func } = this.parseFunctionBody(start);
+    return this.finish(
+      {
+        ...func,
+        type: "FunctionDeclaration" as const,
+        identifier,
+        isLocal: false,
+      },
+      start,
+    );
+  }
+
+  private parseIf(): Statement {
+    const start = this.current.loc.start;
+    const opener = this.current;
+    const clauses: IfClause[] = [];
+    let orelse: Statement[] | null = null;
+
+    do {
+      const clauseStart = this.current.loc.start;
+      this.index++; // `if` or `elseif`
+      const condition = this.parseExpression();
+      this.expect("then");
+      const body = this.parseBlock();
+      clauses.push(
+        this.finish(
+          { type: "IfClause" as const, condition, body },
+          clauseStart,
+        ),
+      );
+    } while (this.check("elseif"));
+
+    if (this.accept("else")) orelse = this.parseBlock();
+    this.expectMatch("end", "if", opener);
+    return this.finish(
+      { type: "IfStatement" as const, clauses, orelse },
+      start,
+    );
+  }
+
+  private parseFor(): Statement {
+    const opener = this.expect("for");
+    const start = opener.loc.start;
+    const first = this.parseTypedIdentifier();
+
+    if (this.accept("=")) {
+      const startValue = this.parseExpression();
+      this.expect(",");
+      const end = this.parseExpression();
+      const step = this.accept(",") ? this.parseExpression() : null;
+      this.expect("do");
+      const body = this.parseBlock();
+      this.expectMatch("end", "for", opener);
+      return this.finish(
+        {
+          type: "NumericForStatement" as const,
+          variable: first,
+          start: startValue,
+          end,
+          step,
+          body,
+        },
+        start,
+      );
+    }
+
+    const variables = [first];
+    while (this.accept(",")) variables.push(this.parseTypedIdentifier());
+    this.expect("in");
+    const iterators = this.parseExpressionList();
+    this.expect("do");
+    const body = this.parseBlock();
+    this.expectMatch("end", "for", opener);
+    return this.finish(
+      { type: "GenericForStatement" as const, variables, iterators, body },
+      start,
+    );
+  }
+
+  private parseExpressionStatement(): Statement {
+    const start = this.current.loc.start;
+    const expression = this.parseSuffixedExpression();
+
+    if (
+      this.current.type === "Symbol" &&
+      COMPOUND_OPERATORS.has(this.current.value)
+    ) {
+      if (
+        expression.type !== "Identifier" &&
+        expression.type !== "MemberExpression" &&
+        expression.type !== "IndexExpression"
+      ) {
+        this.error("syntax error");
+      }
+      const operator = this.current.value as CompoundOperator;
+      this.index++;
+      const value = this.parseExpression();
+      return this.finish(
+        {
+          type: "CompoundAssignmentStatement" as const,
+          operator,
+          variable: expression,
+          value,
+        },
+        start,
+      );
+    }
+
+    if (this.check("=") || this.check(",")) {
+      const variables = [expression];
+      while (this.accept(",")) variables.push(this.parseSuffixedExpression());
+      for (const variable of variables) {
+        if (
+          variable.type !== "Identifier" &&
+          variable.type !== "MemberExpression" &&
+          variable.type !== "IndexExpression"
+        ) {
+          this.error("syntax error");
+        }
+      }
+      this.expect("=");
+      const init = this.parseExpressionList();
+      return this.finish(
+        { type: "AssignmentStatement" as const, variables, init },
+        start,
+      );
+    }
+
+    if (expression.type !== "CallExpression") this.error("syntax error");
+    return this.finish({ type: "CallStatement" as const, expression }, start);
+  }
+
+  private parseIdentifier(): Identifier {
+    const token = this.current;
+    if (token.type !== "Name") this.error("<name> expected");
+    this.index++;
+    return {
+      type: "Identifier",
+      name: token.value,
+      loc: token.loc,
+    };
+  }
+
+  private parseTypedIdentifier(): Identifier {
+    const identifier = this.parseIdentifier();
+    if (this.accept(":")) identifier.typeAnnotation = this.parseType();
+    return identifier;
+  }
+
+  private parseFunctionBody(start: Position): FunctionExpression {
+    const typeParameters = this.check("<")
+      ? this.parseGenericParameters(false)
+      : undefined;
+    const opener = this.expect("(");
+    const parameters: Identifier[] = [];
+    let isVararg = false;
+    let varargAnnotation: TypeNode | undefined;
+    if (!this.check(")")) {
+      do {
+        if (this.accept("...")) {
+          isVararg = true;
+          if (this.accept(":")) varargAnnotation = this.parseType();
+          break;
+        }
+        parameters.push(this.parseTypedIdentifier());
+      } while (this.accept(","));
+    }
+    this.expect(")");
+    const returnType = this.accept(":") ? this.parseType() : undefined;
+    const body = this.parseBlock();
+    this.expectMatch("end", "function", opener);
+    return this.finish(
+      {
+        type: "FunctionExpression" as const,
+        parameters,
+        isVararg,
+        body,
+        ...(typeParameters && { typeParameters }),
+        ...(varargAnnotation && { varargAnnotation }),
+        ...(returnType && { returnType }),
+      },
+      start,
+    );
+  }
+
+  private parseExpressionList(): Expression[] {
+    const list = [this.parseExpression()];
+    while (this.accept(",")) list.push(this.parseExpression());
+    return list;
+  }
+
+  parseExpression(limit = 0): Expression {
+    const start = this.current.loc.start;
+    let left: Expression;
+
+    const unary = this.unaryOperator();
+    if (unary) {
+      this.index++;
+      const argument = this.parseExpression(UNARY_PRIORITY);
+      left = this.finish(
+        { type: "UnaryExpression" as const, operator: unary, argument },
+        start,
+      );
+    } else {
+      left = this.parseSimpleExpression();
+      while (this.accept("::")) {
+        left = this.finish(
+          {
+            type: "TypeAssertionExpression" as const,
+            expression: left,
+            annotation: this.parseType(),
+          },
+          start,
+        );
+      }
+    }
+
+    for (;;) {
+      const operator = this.binaryOperator();
+      if (!operator) break;
+      const [leftPriority, rightPriority] = BINARY_PRIORITY[operator];
+      if (leftPriority <= limit) break;
+      this.index++;
+      const right = this.parseExpression(rightPriority);
+      left = this.finish(
+        { type: "BinaryExpression" as const, operator, left, right },
+        start,
+      );
+    }
+    return left;
+  }
+
+  private unaryOperator(): UnaryOperator | null {
+    const token = this.current;
+    if (token.type === "Keyword" && token.value === "not") return "not";
+    if (token.type === "Symbol" && (token.value === "-" || token.value === "#"))
+      return token.value;
+    return null;
+  }
+
+  private binaryOperator(): BinaryOperator | null {
+    const token = this.current;
+    if (token.type !== "Symbol" && token.type !== "Keyword") return null;
+    return token.value in BINARY_PRIORITY
+      ? (token.value as BinaryOperator)
+      : null;
+  }
+
+  private parseSimpleExpression(): Expression {
+    const token = this.current;
+    const start = token.loc.start;
+
+    switch (token.type) {
+      case "Number":
+        this.index++;
+        return this.finish(
+          {
+            type: "NumericLiteral" as const,
+            value: parseNumber(token.value),
+            raw: token.raw,
+          },
+          start,
+        );
+      case "String":
+        this.index++;
+        return this.finish(
+          {
+            type: "StringLiteral" as const,
+            value: token.value,
+            raw: token.raw,
+          },
+          start,
+        );
+      case "Keyword":
+        switch (token.value) {
+          case "nil":
+            this.index++;
+            return this.finish({ type: "NilLiteral" as const }, start);
+          case "true":
+          case "false":
+            this.index++;
+            return this.finish(
+              {
+                type: "BooleanLiteral" as const,
+                value: token.value === "true",
+              },
+              start,
+            );
+          case "function":
+            this.index++;
+            return this.parseFunctionBody(start);
+          case "if":
+            return this.parseIfExpression();
+        }
+        break;
+      case "InterpSimple":
+      case "InterpBegin":
+        return this.parseInterpolatedString();
+      case "Symbol":
+        if (token.value === "...") {
+          this.index++;
+          return this.finish({ type: "VarargLiteral" as const }, start);
+        }
+        if (token.value === "{") return this.parseTable();
+        break;
+    }
+
+    return this.parseSuffixedExpression();
+  }
+
+  private parseIfExpression(): Expression {
+    const start = this.expect("if").loc.start;
+    const clauses: { condition: Expression; value: Expression }[] = [];
+    do {
+      const condition = this.parseExpression();
+      this.expect("then");
+      clauses.push({ condition, value: this.parseExpression() });
+    } while (this.accept("elseif"));
+    this.expect("else");
+    const orelse = this.parseExpression();
+    return this.finish(
+      { type: "IfExpression" as const, clauses, orelse },
+      start,
+    );
+  }
+
+  private parseInterpolatedString(): Expression {
+    const first = this.tokens[this.index++];
+    const parts = [first.value];
+    const expressions: Expression[] = [];
+    if (first.type === "InterpBegin") {
+      for (;;) {
+        expressions.push(this.parseExpression());
+        const token = this.current;
+        if (token.type !== "InterpMid" && token.type !== "InterpEnd") {
+          this.error("'}' expected");
+        }
+        this.index++;
+        parts.push(token.value);
+        if (token.type === "InterpEnd") break;
+      }
+    }
+    return this.finish(
+      { type: "InterpolatedStringExpression" as const, parts, expressions },
+      first.loc.start,
+    );
+  }
+
+  private parsePrimaryExpression(): Expression {
+    const token = this.current;
+    if (token.type === "Name") return this.parseIdentifier();
+    if (this.accept("(")) {
+      const expression = this.parseExpression();
+      this.expectMatch(")", "(", token);
+      return this.finish(
+        { type: "ParenthesizedExpression" as const, expression },
+        token.loc.start,
+      );
+    }
+    return this.error("unexpected symbol");
+  }
+
+  private parseSuffixedExpression(): Expression {
+    const start = this.current.loc.start;
+    let expression = this.parsePrimaryExpression();
+
+    for (;;) {
+      const token = this.current;
+      if (token.type === "Symbol") {
+        switch (token.value) {
+          case ".": {
+            this.index++;
+            const identifier = this.parseIdentifier();
+            expression = this.finish(
+              {
+                type: "MemberExpression" as const,
+                base: expression,
+                indexer: "." as const,
+                identifier,
+              },
+              start,
+            );
+            continue;
+          }
+          case "[": {
+            this.index++;
+            const index = this.parseExpression();
+            this.expect("]");
+            expression = this.finish(
+              { type: "IndexExpression" as const, base: expression, index },
+              start,
+            );
+            continue;
+          }
+          case ":": {
+            this.index++;
+            const identifier = this.parseIdentifier();
+            const base = this.finish(
+              {
+                type: "MemberExpression" as const,
+                base: expression,
+                indexer: ":" as const,
+                identifier,
+              },
+              start,
+            );
+            expression = this.finish(
+              {
+                type: "CallExpression" as const,
+                base,
+                arguments: this.parseCallArguments(),
+              },
+              start,
+            );
+            continue;
+          }
+          case "(":
+          case "{":
+            expression = this.finish(
+              {
+                type: "CallExpression" as const,
+                base: expression,
+                arguments: this.parseCallArguments(),
+              },
+              start,
+            );
+            continue;
+        }
+      } else if (token.type === "String") {
+        expression = this.finish(
+          {
+            type: "CallExpression" as const,
+            base: expression,
+            arguments: this.parseCallArguments(),
+          },
+          start,
+        );
+        continue;
+      }
+      return expression;
+    }
+  }
+
+  private parseCallArguments(): Expression[] {
+    const token = this.current;
+    if (token.type === "String") {
+      this.index++;
+      return [
+        {
+          type: "StringLiteral",
+          value: token.value,
+          raw: token.raw,
+          loc: token.loc,
+        },
+      ];
+    }
+    if (this.check("{")) return [this.parseTable()];
+    if (!this.check("(")) this.error("function arguments expected");
+    this.index++;
+    const args = this.check(")") ? [] : this.parseExpressionList();
+    this.expectMatch(")", "(", token);
+    return args;
+  }
+
+  private parseTable(): Expression {
+    const opener = this.expect("{");
+    const start = opener.loc.start;
+    const fields: TableField[] = [];
+
+    while (!this.check("}")) {
+      const fieldStart = this.current.loc.start;
+      if (this.accept("[")) {
+        const key = this.parseExpression();
+        this.expect("]");
+        this.expect("=");
+        const value = this.parseExpression();
+        fields.push(
+          this.finish({ type: "TableKey" as const, key, value }, fieldStart),
+        );
+      } else if (
+        this.current.type === "Name" &&
+        this.lookahead().type === "Symbol" &&
+        this.lookahead().value === "="
+      ) {
+        const key = this.parseIdentifier();
+        this.expect("=");
+        const value = this.parseExpression();
+        fields.push(
+          this.finish(
+            { type: "TableKeyString" as const, key, value },
+            fieldStart,
+          ),
+        );
+      } else {
+        const value = this.parseExpression();
+        fields.push(
+          this.finish({ type: "TableValue" as const, value }, fieldStart),
+        );
+      }
+      if (!this.accept(",") && !this.accept(";")) break;
+    }
+
+    this.expectMatch("}", "{", opener);
+    return this.finish(
+      { type: "TableConstructorExpression" as const, fields },
+      start,
+    );
+  }
+
+  // Luau type annotations
+
+  parseType(): TypeNode {
+    const start = this.current.loc.start;
+    // A leading separator is allowed: `type T = | A | B`
+    const leading =
+      this.check("|") || this.check("&") ? this.current.value : null;
+    if (leading) this.index++;
+    const first = this.parseOptionalType();
+    const separator =
+      leading ??
+      (this.check("|") || this.check("&") ? this.current.value : null);
+    if (!separator || !this.check(separator)) {
+      if (!leading) return first;
+    }
+    const types = [first];
+    while (this.accept(separator!)) types.push(this.parseOptionalType());
+    return this.finish(
+      {
+        type:
+          separator === "|"
+            ? ("TypeUnion" as const)
+            : ("TypeIntersection" as const),
+        types,
+      },
+      start,
+    );
+  }
+
+  private parseOptionalType(): TypeNode {
+    const start = this.current.loc.start;
+    let type = this.parseSimpleType();
+    while (this.accept("?")) {
+      type = this.finish({ type: "TypeOptional" as const, value: type }, start);
+    }
+    return type;
+  }
+
+  private parseSimpleType(): TypeNode {
+    const token = this.current;
+    const start = token.loc.start;
+
+    if (token.type === "Name") {
+      if (this.checkName("typeof") && this.lookahead().value === "(") {
+        this.index += 2;
+        const expression = this.parseExpression();
+        this.expectMatch(")", "(", token);
+        return this.finish({ type: "TypeTypeof" as const, expression }, start);
+      }
+      this.index++;
+      if (this.accept("...")) {
+        return this.finish(
+          { type: "TypeGenericPack" as const, name: token.value },
+          start,
+        );
+      }
+      let prefix: string | undefined;
+      let name = token.value;
+      if (this.accept(".")) {
+        prefix = name;
+        name = this.parseIdentifier().name;
+      }
+      const parameters = this.check("<")
+        ? this.parseTypeArguments()
+        : undefined;
+      return this.finish(
+        {
+          type: "TypeReference" as const,
+          name,
+          ...(prefix && { prefix }),
+          ...(parameters && { parameters }),
+        },
+        start,
+      );
+    }
+
+    if (
+      token.type === "Keyword" &&
+      ["nil", "true", "false"].includes(token.value)
+    ) {
+      this.index++;
+      return this.finish(
+        { type: "TypeReference" as const, name: token.value },
+        start,
+      );
+    }
+
+    if (token.type === "String") {
+      this.index++;
+      return this.finish(
+        { type: "TypeString" as const, value: token.value, raw: token.raw },
+        start,
+      );
+    }
+
+    if (this.accept("...")) {
+      return this.finish(
+        { type: "TypeVariadic" as const, value: this.parseType() },
+        start,
+      );
+    }
+
+    if (this.check("{")) return this.parseTableType();
+    if (this.check("(") || this.check("<")) return this.parseFunctionType();
+    return this.error("type expected");
+  }
+
+  private parseTypeArguments(): TypeNode[] {
+    this.expect("<");
+    const list: TypeNode[] = [];
+    if (!this.check(">")) {
+      do list.push(this.parseType());
+      while (this.accept(","));
+    }
+    this.expect(">");
+    return list;
+  }
+
+  private parseGenericParameters(
+    allowDefaults: boolean,
+  ): GenericTypeParameter[] {
+    this.expect("<");
+    const list: GenericTypeParameter[] = [];
+    do {
+      const name = this.parseIdentifier().name;
+      const isPack = this.accept("...");
+      const parameter: GenericTypeParameter = { name, isPack };
+      if (allowDefaults && this.accept("="))
+        parameter.default = this.parseType();
+      list.push(parameter);
+    } while (this.accept(","));
+    this.expect(">");
+    return list;
+  }
+
+  private parseTableType(): TypeNode {
+    const opener = this.expect("{");
+    const start = opener.loc.start;
+    const properties: TypeTableProperty[] = [];
+    let indexer: TypeTableIndexer | undefined;
+
+    const isProperty = () =>
+      (this.current.type === "Name" && this.lookahead().value === ":") ||
+      this.check("[") ||
+      ((this.checkName("read") || this.checkName("write")) &&
+        (this.lookahead().type === "Name" || this.lookahead().value === "["));
+
+    if (!this.check("}") && !isProperty()) {
+      const array = this.parseType();
+      this.expectMatch("}", "{", opener);
+      return this.finish(
+        { type: "TypeTable" as const, properties, array },
+        start,
+      );
+    }
+
+    while (!this.check("}")) {
+      let access: "read" | "write" | undefined;
+      if (
+        (this.checkName("read") || this.checkName("write")) &&
+        (this.lookahead().type === "Name" || this.lookahead().value === "[")
+      ) {
+        access = this.current.value as "read" | "write";
+        this.index++;
+      }
+      if (this.accept("[")) {
+        const key = this.parseType();
+        this.expect("]");
+        this.expect(":");
+        indexer = { key, value: this.parseType(), ...(access && { access }) };
+      } else {
+        const name = this.parseIdentifier().name;
+        this.expect(":");
+        properties.push({
+          name,
+          value: this.parseType(),
+          ...(access && { access }),
+        });
+      }
+      if (!this.accept(",") && !this.accept(";")) break;
+    }
+    this.expectMatch("}", "{", opener);
+    return this.finish(
+      {
+        type: "TypeTable" as const,
+        properties,
+        ...(indexer && { indexer }),
+      },
+      start,
+    );
+  }
+
+  // `(A, B) -> C`, a parenthesized type, or a bare type pack
+  private parseFunctionType(): TypeNode {
+    const start = this.current.loc.start;
+    const typeParameters = this.check("<")
+      ? this.parseGenericParameters(false)
+      : undefined;
+    const opener = this.expect("(");
+    const parameters: { name?: string; value: TypeNode }[] = [];
+    if (!this.check(")")) {
+      do {
+        if (this.current.type === "Name" && this.lookahead().value === ":") {
+          const name = this.parseIdentifier().name;
+          this.expect(":");
+          parameters.push({ name, value: this.parseType() });
+        } else {
+          parameters.push({ value: this.parseType() });
+        }
+      } while (this.accept(","));
+    }
+    this.expectMatch(")", "(", opener);
+
+    if (this.accept("->")) {
+      return this.finish(
+        {
+          type: "TypeFunction" as const,
+          ...(typeParameters && { typeParameters }),
+          parameters,
+          returnType: this.parseType(),
+        },
+        start,
+      );
+    }
+    if (typeParameters) this.error("'->' expected");
+    if (
+      parameters.length === 1 &&
+      !parameters[0].name &&
+      parameters[0].value.type !== "TypeVariadic" &&
+      parameters[0].value.type !== "TypeGenericPack"
+    ) {
+      return this.finish(
+        { type: "TypeParenthesized" as const, value: parameters[0].value },
+        start,
+      );
+    }
+    return this.finish(
+      { type: "TypePack" as const, types: parameters.map((p) => p.value) },
+      start,
+    );
+  }
+}
+
+export function parseNumber(raw: string): number {
+  const text = raw.replace(/_/g, "");
+  if (/^0[bB]/.test(text)) return parseInt(text.slice(2), 2);
+  if (/^0[xX]/.test(text)) {
+    const match =
+      /^0[xX]([0-9a-fA-F]*)(?:\.([0-9a-fA-F]*))?(?:[pP]([+-]?[0-9]+))?$/.exec(
+        text,
+      );
+    if (!match) return NaN;
+    const [, whole, fraction = "", exponent = "0"] = match;
+    let value = whole ? parseInt(whole, 16) : 0;
+    for (let i = 0; i < fraction.length; i++) {
+      value += parseInt(fraction[i], 16) / Math.pow(16, i + 1);
+    }
+    return value * Math.pow(2, parseInt(exponent, 10));
+  }
+  return Number(text);
+}
+
+/**
+ * Parse Lua source into an AST. Throws LuaSyntaxError on invalid input.
+ */
+export function parse(source: string): ParseResult {
+  const lexer = new Lexer(source);
+  const tokens = lexer.tokenize();
+  const chunk = new Parser(tokens).parseChunk();
+  return { chunk, comments: lexer.comments };
+}
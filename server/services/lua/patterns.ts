@@ -0,0 +1,404 @@
+// Lua 5.1 patterns, as used by `string.find`, `match`, `gmatch` and `gsub`.
+// A direct port of the matcher in lstrlib.c, working on byte strings.
+
+export class PatternError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PatternError";
+  }
+}
+
+// A capture is either a substring or, for `()`, a position
+export type Capture = string | number;
+
+const MAX_CAPTURES = 32;
+const MAX_RECURSION = 200;
+const POSITION = -2; // length of a `()` capture
+const UNFINISHED = -1; // length of a capture still open
+
+export interface Match {
+  start: number; // 0-based, inclusive
+  end: number; // 0-based, exclusive
+  captures: Capture[];
+}
+
+function classMatches(char: number, cls: string): boolean {
+  const lower = cls.toLowerCase();
+  let result: boolean;
+  switch (lower) {
+    case "a":
+      result = (char >= 65 && char <= 90) || (char >= 97 && char <= 122);
+      break;
+    case "c":
+      result = char < 32 || char === 127;
+      break;
+    case "d":
+      result = char >= 48 && char <= 57;
+      break;
+    case "l":
+      result = char >= 97 && char <= 122;
+      break;
+    case "p":
+      result =
+        (char >= 33 && char <= 47) ||
+        (char >= 58 && char <= 64) ||
+        (char >= 91 && char <= 96) ||
+        (char >= 123 && char <= 126);
+      break;
+    case "s":
+      result = char === 32 || (char >= 9 && char <= 13);
+      break;
+    case "u":
+      result = char >= 65 && char <= 90;
+      break;
+    case "w":
+      result =
+        (char >= 48 && char <= 57) ||
+        (char >= 65 && char <= 90) ||
+        (char >= 97 && char <= 122);
+      break;
+    case "x":
+      result =
+        (char >= 48 && char <= 57) ||
+        (char >= 65 && char <= 70) ||
+        (char >= 97 && char <= 102);
+      break;
+    case "z":
+      result = char === 0;
+      break;
+    default:
+      return cls.charCodeAt(0) === char;
+  }
+  // Upper-case classes are the complement
+  return cls === lower ? result : !result;
+}
+
+class Matcher {
+  private level = 0;
+  private readonly captureStart: number[] = [];
+  private readonly captureLength: number[] = [];
+  private depth = 0;
+
+  constructor(
+    private readonly source: string,
+    private readonly pattern: string,
+    // Called now and then so a pathological pattern can't run forever
+    private readonly step: () => void,
+  ) {}
+
+  reset(): void {
+    this.level = 0;
+    this.depth = 0;
+  }
+
+  private classEnd(p: number): number {
+    const { pattern } = this;
+    const char = pattern[p++];
+    if (char === "%") {
+      if (p >= pattern.length) {
+        throw new PatternError("malformed pattern (ends with '%')");
+      }
+      return p + 1;
+    }
+    if (char === "[") {
+      if (pattern[p] === "^") p++;
+      // The first `]` of a set is a literal
+      do {
+        if (p >= pattern.length) {
+          throw new PatternError("malformed pattern (missing ']')");
+        }
+        const current = pattern[p++];
+        if (current === "%") p++;
+      } while (pattern[p] !== "]");
+      return p + 1;
+    }
+    return p;
+  }
+
+  private matchSet(char: number, start: number, end: number): boolean {
+    const { pattern } = this;
+    let p = start + 1;
+    let negate = false;
+    if (pattern[p] === "^") {
+      negate = true;
+      p++;
+    }
+    // `end` is the closing `]`
+    while (p < end) {
+      if (pattern[p] === "%") {
+        p++;
+        if (classMatches(char, pattern[p])) return !negate;
+        p++;
+      } else if (pattern[p + 1] === "-" && p + 2 < end) {
+        if (
+          pattern.charCodeAt(p) <= char &&
+          char <= pattern.charCodeAt(p + 2)
+        ) {
+          return !negate;
+        }
+        p += 3;
+      } else {
+        if (pattern.charCodeAt(p) === char) return !negate;
+        p++;
+      }
+    }
+    return negate;
+  }
+
+  private singleMatch(s: number, p: number, ep: number): boolean {
+    if (s >= this.source.length) return false;
+    const char = this.source.charCodeAt(s);
+    switch (this.pattern[p]) {
+      case ".":
+        return true;
+      case "%":
+        return classMatches(char, this.pattern[p + 1]);
+      case "[":
+        return this.matchSet(char, p, ep - 1);
+      default:
+        return this.pattern.charCodeAt(p) === char;
+    }
+  }
+
+  private matchBalance(s: number, p: number): number {
+    if (p + 1 >= this.pattern.length) {
+      throw new PatternError("missing arguments to '%b'");
+    }
+    const { source } = this;
+    if (source[s] !== this.pattern[p]) return -1;
+    const open = this.pattern[p];
+    const close = this.pattern[p + 1];
+    let count = 1;
+    while (++s < source.length) {
+      if (source[s] === close) {
+        if (--count === 0) return s + 1;
+      } else if (source[s] === open) {
+        count++;
+      }
+    }
+    return -1;
+  }
+
+  private maxExpand(s: number, p: number, ep: number): number {
+    let count = 0;
+    while (this.singleMatch(s + count, p, ep)) count++;
+    // Try the longest run first, backing off one at a time
+    while (count >= 0) {
+      this.step();
+      const result = this.match(s + count, ep + 1);
+      if (result !== -1) return result;
+      count--;
+    }
+    return -1;
+  }
+
+  private minExpand(s: number, p: number, ep: number): number {
+    for (;;) {
+      this.step();
+      const result = this.match(s, ep + 1);
+      if (result !== -1) return result;
+      if (this.singleMatch(s, p, ep)) s++;
+      else return -1;
+    }
+  }
+
+  private startCapture(s: number, p: number, what: number): number {
+    if (this.level >= MAX_CAPTURES) throw new PatternError("too many captures");
+    this.captureStart[this.level] = s;
+    this.captureLength[this.level] = what;
+    this.level++;
+    const result = this.match(s, p);
+    if (result === -1) this.level--;
+    return result;
+  }
+
+  private endCapture(s: number, p: number): number {
+    const open = this.captureToClose();
+    this.captureLength[open] = s - this.captureStart[open];
+    const result = this.match(s, p);
+    if (result === -1) this.captureLength[open] = UNFINISHED;
+    return result;
+  }
+
+  private captureToClose(): number {
+    for (let level = this.level - 1; level >= 0; level--) {
+      if (this.captureLength[level] === UNFINISHED) return level;
+    }
+    throw new PatternError("invalid pattern capture");
+  }
+
+  private matchCapture(s: number, index: number): number {
+    const l = index - 1;
+    if (l < 0 || l >= this.level || this.captureLength[l] === UNFINISHED) {
+      throw new PatternError(`invalid capture index %${index}`);
+    }
+    const length = this.captureLength[l];
+    const captured = this.source.substr(this.captureStart[l], length);
+    if (this.source.substr(s, length) === captured) return s + length;
+    return -1;
+  }
+
+  /**
+   * Match the pattern from `p` against the source from `s`. Returns where
+   * the match ends, or -1.
+   */
+  match(s: number, p: number): number {
+    if (++this.depth > MAX_RECURSION) {
+      throw new PatternError("pattern too complex");
+    }
+    try {
+      const { pattern } = this;
+      for (;;) {
+        if (p >= pattern.length) return s;
+        switch (pattern[p]) {
+          case "(":
+            if (pattern[p + 1] === ")")
+              return this.startCapture(s, p + 2, POSITION);
+            return this.startCapture(s, p + 1, UNFINISHED);
+          case ")":
+            return this.endCapture(s, p + 1);
+          case "$":
+            if (p + 1 === pattern.length) {
+              return s === this.source.length ? s : -1;
+            }
+            break;
+          case "%": {
+            const next = pattern[p + 1];
+            if (next === "b") {
+              s = this.matchBalance(s, p + 2);
+              if (s === -1) return -1;
+              p += 4;
+              continue;
+            }
+            if (next === "f") {
+              p += 2;
+              if (pattern[p] !== "[") {
+                throw new PatternError("missing '[' after '%f' in pattern");
+              }
+              const ep = this.classEnd(p);
+              const previous = s === 0 ? 0 : this.source.charCodeAt(s - 1);
+              const current =
+                s < this.source.length ? this.source.charCodeAt(s) : 0;
+              if (
+                this.matchSet(previous, p, ep - 1) ||
+                !this.matchSet(current, p, ep - 1)
+              ) {
+                return -1;
+              }
+              p = ep;
+              continue;
+            }
+            if (next >= "0" && next <= "9") {
+              s = this.matchCapture(s, Number(next));
+              if (s === -1) return -1;
+              p += 2;
+              continue;
+            }
+            break;
+          }
+        }
+        const ep = this.classEnd(p);
+        const matched = this.singleMatch(s, p, ep);
+        switch (pattern[ep]) {
+          case "?": {
+            if (matched) {
+              const result = this.match(s + 1, ep + 1);
+              if (result !== -1) return result;
+            }
+            p = ep + 1;
+            continue;
+          }
+          case "*":
+            return this.maxExpand(s, p, ep);
+          case "+":
+            return matched ? this.maxExpand(s + 1, p, ep) : -1;
+          case "-":
+            return this.minExpand(s, p, ep);
+          default:
+            if (!matched) return -1;
+            s++;
+            p = ep;
+        }
+      }
+    } finally {
+      this.depth--;
+    }
+  }
+
+  /**
+   * The captures of the last match, or the whole match when the pattern
+   * has none.
+   */
+  captures(start: number, end: number, wholeIfNone: boolean): Capture[] {
+    if (this.level === 0) {
+      return wholeIfNone ? [this.source.slice(start, end)] : [];
+    }
+    const captures: Capture[] = [];
+    for (let i = 0; i < this.level; i++) {
+      const length = this.captureLength[i];
+      if (length === UNFINISHED) throw new PatternError("unfinished capture");
+      captures.push(
+        length === POSITION
+          ? this.captureStart[i] + 1
+          : this.source.substr(this.captureStart[i], length),
+      );
+    }
+    return captures;
+  }
+}
+
+/**
+ * Every match of `pattern` in `source` from `init` (0-based), in order, the
+ * way `gmatch` and `gsub` walk them: an empty match moves on by one byte.
+ * Stops after `limit` matches.
+ */
+export function* matchAll(
+  source: string,
+  pattern: string,
+  step: () => void,
+  init = 0,
+  limit = Infinity,
+): Generator<Match> {
+  const anchored = pattern.startsWith("^");
+  const matcher = new Matcher(source, pattern, step);
+  const start = anchored ? 1 : 0;
+  let s = init;
+  let count = 0;
+  while (count < limit && s <= source.length) {
+    step();
+    matcher.reset();
+    const end = matcher.match(s, start);
+    if (end !== -1) {
+      count++;
+      yield { start: s, end, captures: matcher.captures(s, end, true) };
+    }
+    if (end !== -1 && end > s) s = end;
+    else s++;
+    if (anchored) break;
+  }
+}
+
+/**
+ * The first match of `pattern` in `source` at or after `init`, as `find`
+ * and `match` see it.
+ */
+export function findMatch(
+  source: string,
+  pattern: string,
+  step: () => void,
+  init = 0,
+): Match | null {
+  const anchored = pattern.startsWith("^");
+  const matcher = new Matcher(source, pattern, step);
+  let s = init;
+  do {
+    step();
+    matcher.reset();
+    const end = matcher.match(s, anchored ? 1 : 0);
+    if (end !== -1) {
+      return { start: s, end, captures: matcher.captures(s, end, false) };
+    }
+    s++;
+  } while (s <= source.length && !anchored);
+  return null;
+}
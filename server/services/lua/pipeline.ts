@@ -0,0 +1,98 @@
+import { performance } from "perf_hooks";
+import type { PassReport, Snapshot } from "@shared/schema";
+import { walk, type Chunk, type Node } from "./ast";
+import { Printer } from "./printer";
+
+/**
+ * One step of a pipeline. `run` transforms `context.chunk` in place and may
+ * return counters of its own, like how many strings it encoded.
+ */
+export interface Pass<Context extends { chunk: Chunk }> {
+  name: string;
+  // Passes that are off still show up in the report, with nothing done
+  enabled: boolean;
+  run(context: Context): Record<string, number> | void;
+}
+
+export function takeSnapshot(stage: string, chunk: Chunk): Snapshot {
+  return { stage, code: new Printer().print(chunk) };
+}
+
+export interface PipelineOptions {
+  // Collects the code after each enabled pass, when given
+  snapshots?: Snapshot[];
+}
+
+// A node's own fields, leaving out its children and source position, so a
+// renamed identifier or a changed operator shows up as a change
+function fingerprint(node: Node): string {
+  const fields: unknown[] = [];
+  for (const [key, value] of Object.entries(node)) {
+    if (key === "loc") continue;
+    // Children are compared as nodes of their own; lists of plain values,
+    // like the text parts of an interpolated string, belong to the node
+    const isChild =
+      value !== null &&
+      typeof value === "object" &&
+      !(
+        Array.isArray(value) &&
+        value.every((item) => item === null || typeof item !== "object")
+      );
+    if (!isChild) fields.push(key, value);
+  }
+  return JSON.stringify(fields);
+}
+
+function fingerprints(chunk: Chunk): Map<Node, string> {
+  const nodes = new Map<Node, string>();
+  walk(chunk, (node) => {
+    nodes.set(node, fingerprint(node));
+  });
+  return nodes;
+}
+
+function countChanges(
+  before: Map<Node, string>,
+  after: Map<Node, string>,
+): number {
+  let changed = 0;
+  after.forEach((print, node) => {
+    if (before.get(node) !== print) changed++;
+  });
+  before.forEach((_, node) => {
+    if (!after.has(node)) changed++;
+  });
+  return changed;
+}
+
+/**
+ * Run the enabled passes in order, timing each one and counting the nodes
+ * it touched. Returns a report for every pass, disabled ones included.
+ * Snapshots are printed outside the timing.
+ */
+export function runPipeline<Context extends { chunk: Chunk }>(
+  passes: Pass<Context>[],
+  context: Context,
+  { snapshots }: PipelineOptions = {},
+): PassReport[] {
+  let current = fingerprints(context.chunk);
+  return passes.map((pass) => {
+    if (!pass.enabled) {
+      return {
+        name: pass.name,
+        enabled: false,
+        time: 0,
+        nodesChanged: 0,
+        stats: {},
+      };
+    }
+    const start = performance.now();
+    const stats = pass.run(context) ?? {};
+    const time = Math.round((performance.now() - start) * 100) / 100;
+    const next = fingerprints(context.chunk);
+    const nodesChanged = countChanges(current, next);
+    current = next;
+    snapshots?.push(takeSnapshot(pass.name, context.chunk));
+    return { name: pass.name, enabled: true, time, nodesChanged, stats };
+  });
+}
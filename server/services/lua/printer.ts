@@ -0,0 +1,897 @@
+import type {
+  BinaryExpression,
+  BinaryOperator,
+  CallExpression,
+  Chunk,
+  Expression,
+  FunctionNode,
+  GenericTypeParameter,
+  Identifier,
+  Position,
+  SourceLocation,
+  Statement,
+  StringLiteral,
+  TableConstructorExpression,
+  TypeNode,
+} from "./ast";
+import { fromByteString, type Comment } from "./lexer";
+
+// `auto` uses double quotes unless single quotes need fewer escapes;
+// `preserve` keeps each literal as written
+export type QuoteStyle = "preserve" | "double" | "single" | "auto";
+// When a call with one string or table argument drops its parentheses, as
+// in `require "x"` or `f { ... }`
+export type CallParentheses =
+  "always" | "noSingleString" | "noSingleTable" | "none";
+
+export interface PrintOptions {
+  indent?: string;
+  quoteStyle?: QuoteStyle;
+  callParentheses?: CallParentheses;
+  // Tables, argument lists and operator chains that would run past this
+  // column are split one item per line; unset means never
+  maxLineWidth?: number;
+  // Source comments to reproduce. Comments between table fields stay there;
+  // one anywhere else inside an expression moves to the line before its
+  // statement.
+  comments?: Comment[];
+  // Keep one blank line wherever the source had one or more
+  preserveBlankLines?: boolean;
+}
+
+// Mirrors the parser's binding powers: [left, right]
+const BINARY_PRIORITY: Record<BinaryOperator, [number, number]> = {
+  or: [1, 1],
+  and: [2, 2],
+  "<": [3, 3],
+  ">": [3, 3],
+  "<=": [3, 3],
+  ">=": [3, 3],
+  "~=": [3, 3],
+  "==": [3, 3],
+  "..": [5, 4],
+  "+": [6, 6],
+  "-": [6, 6],
+  "*": [7, 7],
+  "/": [7, 7],
+  "//": [7, 7],
+  "%": [7, 7],
+  "^": [10, 9],
+};
+
+const UNARY_PRIORITY = 8;
+const ATOM_PRIORITY = 100;
+// `if` expressions swallow everything after `else`, and a trailing `::`
+// annotation could read a following `<` as generics, so both always get
+// parenthesized as operands
+const OPEN_ENDED_PRIORITY = 0;
+
+const STRING_ESCAPES: Record<string, string> = {
+  "\x07": "\\a",
+  "\b": "\\b",
+  "\f": "\\f",
+  "\n": "\\n",
+  "\r": "\\r",
+  "\t": "\\t",
+  "\v": "\\v",
+  "\\": "\\\\",
+  '"': '\\"',
+};
+
+function escapeBytes(value: string, escapes: Record<string, string>): string {
+  const text = fromByteString(value);
+  const readable = Buffer.from(text, "utf8").toString("latin1") === value;
+  let out = "";
+  const chars = readable ? Array.from(text) : Array.from(value);
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const code = char.codePointAt(0)!;
+    if (char in escapes) {
+      out += escapes[char];
+    } else if (code < 32 || code === 127 || (!readable && code > 127)) {
+      // Pad to three digits when a digit follows so it isn't absorbed
+      const next = chars[i + 1];
+      const digits = String(code);
+      out +=
+        "\\" + (next && /[0-9]/.test(next) ? digits.padStart(3, "0") : digits);
+    } else {
+      out += char;
+    }
+  }
+  return out;
+}
+
+const SINGLE_QUOTE_ESCAPES: Record<string, string> = {
+  ...STRING_ESCAPES,
+  '"': '"',
+  "'": "\\'",
+};
+
+/**
+ * Quote a byte string as a Lua literal, double-quoted unless asked otherwise.
+ * Valid UTF-8 sequences are kept as text; any other non-printable byte
+ * becomes a decimal escape.
+ */
+export function quoteString(value: string, quote: '"' | "'" = '"'): string {
+  const escapes = quote === '"' ? STRING_ESCAPES : SINGLE_QUOTE_ESCAPES;
+  return `${quote}${escapeBytes(value, escapes)}${quote}`;
+}
+
+const INTERPOLATION_ESCAPES: Record<string, string> = {
+  ...STRING_ESCAPES,
+  '"': '"',
+  "`": "\\`",
+  "{": "\\{",
+};
+
+export function formatNumber(value: number): string {
+  if (Number.isNaN(value)) return "(0/0)";
+  if (value === Infinity) return "math.huge";
+  if (value === -Infinity) return "-math.huge";
+  if (Number.isInteger(value) && Math.abs(value) < 1e15) {
+    return value.toFixed(0);
+  }
+  return String(value);
+}
+
+function expressionPriority(node: Expression): number {
+  switch (node.type) {
+    case "BinaryExpression":
+      return BINARY_PRIORITY[node.operator][0];
+    case "UnaryExpression":
+      return UNARY_PRIORITY;
+    case "IfExpression":
+    case "TypeAssertionExpression":
+      return OPEN_ENDED_PRIORITY;
+    case "NumericLiteral":
+      return node.value < 0 || Object.is(node.value, -0)
+        ? UNARY_PRIORITY
+        : ATOM_PRIORITY;
+    default:
+      return ATOM_PRIORITY;
+  }
+}
+
+function isBefore(a: Position, b: Position): boolean {
+  return a.line < b.line || (a.line === b.line && a.column < b.column);
+}
+
+// Expressions that can be called or indexed without wrapping them in parens
+function isPrefixExpression(node: Expression): boolean {
+  return (
+    node.type === "Identifier" ||
+    node.type === "MemberExpression" ||
+    node.type === "IndexExpression" ||
+    node.type === "CallExpression" ||
+    node.type === "ParenthesizedExpression"
+  );
+}
+
+export class Printer {
+  private readonly indentUnit: string;
+  // Columns one level of indentation takes, counting a tab as four
+  private readonly indentWidth: number;
+  private readonly quoteStyle: QuoteStyle;
+  private readonly callParentheses: CallParentheses;
+  private readonly maxLineWidth: number | undefined;
+  private readonly comments: Comment[];
+  private readonly preserveBlankLines: boolean;
+  private depth = 0;
+  private lines: string[] = [];
+  // Source line behind each physical output line, for source maps
+  private sources: (number | null)[] = [];
+  // Source line of the statement being printed
+  private current: number | null = null;
+  // Sources for line breaks inside the expressions printed since the last
+  // emit (function bodies, long strings), in output order
+  private embedded: (number | null)[] = [];
+  // Index of the first comment not printed yet
+  private nextComment = 0;
+  // Last source line printed, for blank-line preservation
+  private lastLine: number | null = null;
+  // Number of output lines when the current block started
+  private blockStart = 0;
+  // Set while measuring how wide an expression is on one line
+  private flat = false;
+  // Width of the statement text in front of the expression being printed
+  private lead = 0;
+  // Set when something printed flat can't stay on one line, such as a table
+  // with comments inside
+  private mustBreak = false;
+
+  constructor(options: PrintOptions = {}) {
+    this.indentUnit = options.indent ?? "    ";
+    this.indentWidth = this.indentUnit.replace(/\t/g, "    ").length;
+    this.quoteStyle = options.quoteStyle ?? "preserve";
+    this.callParentheses = options.callParentheses ?? "always";
+    this.maxLineWidth = options.maxLineWidth;
+    this.comments = options.comments ?? [];
+    this.preserveBlankLines = options.preserveBlankLines ?? false;
+  }
+
+  print(chunk: Chunk): string {
+    this.lines = [];
+    this.sources = [];
+    this.embedded = [];
+    this.current = null;
+    this.depth = 0;
+    this.nextComment = 0;
+    this.lastLine = null;
+    this.blockStart = 0;
+    this.flat = false;
+    this.lead = 0;
+    this.mustBreak = false;
+    this.block(chunk.body);
+    this.flushComments(null);
+    return this.lines.join("\n");
+  }
+
+  /**
+   * For the last printed chunk, the source line each output line came from
+   * (index 0 is output line 1). Generated code inherits the line of the
+   * statement it was printed under, or null at the top level.
+   */
+  get lineMap(): (number | null)[] {
+    return this.sources;
+  }
+
+  private emit(text: string): void {
+    this.lines.push(text && this.indentUnit.repeat(this.depth) + text);
+    const sources = [this.current, ...this.embedded];
+    this.embedded = [];
+    // Fall back to the statement's line if a break wasn't accounted for
+    const count = text.split("\n").length;
+    for (let i = 0; i < count; i++) {
+      this.sources.push(sources[i] ?? this.current);
+    }
+  }
+
+  // Long strings keep their line breaks; each continues the string's lines
+  private lineBreaks(text: string, line: number | null): void {
+    for (const char of text) {
+      if (char !== "\n") continue;
+      if (line !== null) line++;
+      this.embedded.push(line ?? this.current);
+    }
+  }
+
+  private block(body: Statement[]): void {
+    body.forEach((statement, index) =>
+      this.statement(statement, body[index + 1]),
+    );
+  }
+
+  // `end` is where the block closes, so comments before it stay inside
+  private nested(body: Statement[], end?: Position): void {
+    this.depth++;
+    const outerStart = this.blockStart;
+    this.blockStart = this.lines.length;
+    this.block(body);
+    if (end) this.flushComments(end);
+    this.blockStart = outerStart;
+    this.depth--;
+  }
+
+  // `next` is the statement after this one, which may share its line
+  private statement(node: Statement, next?: Statement): void {
+    const outer = this.current;
+    if (node.loc) {
+      this.flushComments(node.loc.start);
+      this.blankLine(node.loc.start.line);
+      this.current = node.loc.start.line;
+    }
+    this.printStatement(node);
+    if (node.loc) {
+      this.trailingComment(node.loc.end.line, next?.loc?.start);
+      this.lastLine = node.loc.end.line;
+    }
+    this.current = outer;
+  }
+
+  // Print the comments that start before `before`, or all that are left
+  private flushComments(before: Position | null): void {
+    while (this.nextComment < this.comments.length) {
+      const comment = this.comments[this.nextComment];
+      if (before && !isBefore(comment.loc.start, before)) return;
+      this.nextComment++;
+      this.blankLine(comment.loc.start.line);
+      const outer = this.current;
+      this.current = comment.loc.start.line;
+      this.emit(comment.raw);
+      this.current = outer;
+      this.lastLine = comment.loc.end.line;
+    }
+  }
+
+  // A one-line comment after the end of a statement stays on its line
+  private trailingComment(line: number, next?: Position): void {
+    const comment = this.takeTrailing(line, next);
+    if (comment) this.lines[this.lines.length - 1] += ` ${comment.raw}`;
+  }
+
+  // The next comment if it is on `line`, fits on it, and comes before
+  // `limit`, where the code that owns it would take over
+  private takeTrailing(line: number, limit?: Position): Comment | null {
+    const comment = this.comments[this.nextComment];
+    if (
+      !comment ||
+      comment.loc.start.line !== line ||
+      comment.raw.includes("\n") ||
+      (limit && !isBefore(comment.loc.start, limit))
+    ) {
+      return null;
+    }
+    this.nextComment++;
+    return comment;
+  }
+
+  // Take the comments that start before `before`
+  private takeComments(before: Position): Comment[] {
+    const taken: Comment[] = [];
+    while (
+      this.nextComment < this.comments.length &&
+      isBefore(this.comments[this.nextComment].loc.start, before)
+    ) {
+      taken.push(this.comments[this.nextComment++]);
+    }
+    return taken;
+  }
+
+  // Whether a comment not printed yet lies inside `loc`
+  private hasComments(loc: SourceLocation): boolean {
+    for (let i = this.nextComment; i < this.comments.length; i++) {
+      const start = this.comments[i].loc.start;
+      if (!isBefore(start, loc.end)) return false;
+      if (!isBefore(start, loc.start)) return true;
+    }
+    return false;
+  }
+
+  private blankLine(line: number): void {
+    if (
+      this.preserveBlankLines &&
+      this.lastLine !== null &&
+      line > this.lastLine + 1 &&
+      this.lines.length > this.blockStart
+    ) {
+      this.emit("");
+    }
+  }
+
+  // Print `render()` knowing that `prefix` comes before it on the line
+  private after(prefix: string, render: () => string): string {
+    const outer = this.lead;
+    this.lead = prefix.length;
+    const text = render();
+    this.lead = outer;
+    return prefix + text;
+  }
+
+  private printStatement(node: Statement): void {
+    switch (node.type) {
+      case "LocalStatement": {
+        const names = this.declarations(node.variables);
+        this.emit(
+          node.init.length
+            ? this.after(`local ${names} = `, () =>
+                this.expressionList(node.init),
+              )
+            : `local ${names}`,
+        );
+        return;
+      }
+      case "AssignmentStatement":
+        this.emitGuarded(
+          this.after(`${this.expressionList(node.variables)} = `, () =>
+            this.expressionList(node.init),
+          ),
+        );
+        return;
+      case "CompoundAssignmentStatement":
+        this.emitGuarded(
+          `${this.expression(node.variable)} ${node.operator} ${this.expression(node.value)}`,
+        );
+        return;
+      case "CallStatement":
+        this.emitGuarded(this.expression(node.expression));
+        return;
+      case "DoStatement":
+        this.emit("do");
+        this.nested(node.body, node.loc?.end);
+        this.emitClosing(node, "end");
+        return;
+      case "WhileStatement":
+        this.emit(`while ${this.expression(node.condition)} do`);
+        this.nested(node.body, node.loc?.end);
+        this.emitClosing(node, "end");
+        return;
+      case "RepeatStatement":
+        this.emit("repeat");
+        this.nested(node.body, node.condition.loc?.start);
+        this.emitClosing(node, `until ${this.expression(node.condition)}`);
+        return;
+      case "IfStatement":
+        node.clauses.forEach((clause, index) => {
+          const keyword = index === 0 ? "if" : "elseif";
+          this.emit(`${keyword} ${this.expression(clause.condition)} then`);
+          const next = node.clauses[index + 1];
+          this.nested(
+            clause.body,
+            next ? next.loc?.start : node.orelse ? undefined : node.loc?.end,
+          );
+        });
+        if (node.orelse) {
+          this.emit("else");
+          this.nested(node.orelse, node.loc?.end);
+        }
+        this.emitClosing(node, "end");
+        return;
+      case "NumericForStatement": {
+        const bounds = [
+          node.start,
+          node.end,
+          ...(node.step ? [node.step] : []),
+        ];
+        this.emit(
+          `for ${this.declarations([node.variable])} = ${this.expressionList(bounds)} do`,
+        );
+        this.nested(node.body, node.loc?.end);
+        this.emitClosing(node, "end");
+        return;
+      }
+      case "GenericForStatement":
+        this.emit(
+          `for ${this.declarations(node.variables)} in ${this.expressionList(node.iterators)} do`,
+        );
+        this.nested(node.body, node.loc?.end);
+        this.emitClosing(node, "end");
+        return;
+      case "FunctionDeclaration": {
+        const prefix = node.isLocal ? "local function" : "function";
+        this.emit(
+          `${prefix} ${this.expression(node.identifier)}${this.signature(node)}`,
+        );
+        this.nested(node.body, node.loc?.end);
+        this.emitClosing(node, "end");
+        return;
+      }
+      case "ReturnStatement":
+        this.emit(
+          node.arguments.length
+            ? this.after("return ", () => this.expressionList(node.arguments))
+            : "return",
+        );
+        return;
+      case "BreakStatement":
+        this.emit("break");
+        return;
+      case "ContinueStatement":
+        this.emit("continue");
+        return;
+      case "TypeAliasStatement": {
+        const generics = node.typeParameters
+          ? this.genericParameters(node.typeParameters)
+          : "";
+        this.emit(
+          `${node.isExported ? "export " : ""}type ${node.name}${generics} = ${this.type(node.value)}`,
+        );
+        return;
+      }
+    }
+  }
+
+  // Closing lines map to where the statement ends in the source
+  private emitClosing(node: Statement, text: string): void {
+    const outer = this.current;
+    if (node.loc) this.current = node.loc.end.line;
+    this.emit(text);
+    this.current = outer;
+  }
+
+  // A statement starting with `(` would read as a call on the previous line
+  private emitGuarded(text: string): void {
+    this.emit(text.startsWith("(") ? `;${text}` : text);
+  }
+
+  private declarations(list: Identifier[]): string {
+    return list
+      .map((identifier) =>
+        identifier.typeAnnotation
+          ? `${identifier.name}: ${this.type(identifier.typeAnnotation)}`
+          : identifier.name,
+      )
+      .join(", ");
+  }
+
+  private signature(node: FunctionNode): string {
+    const generics = node.typeParameters
+      ? this.genericParameters(node.typeParameters)
+      : "";
+    const parameters = [this.declarations(node.parameters)].filter(Boolean);
+    if (node.isVararg) {
+      parameters.push(
+        node.varargAnnotation
+          ? `...: ${this.type(node.varargAnnotation)}`
+          : "...",
+      );
+    }
+    const returnType = node.returnType ? `: ${this.type(node.returnType)}` : "";
+    return `${generics}(${parameters.join(", ")})${returnType}`;
+  }
+
+  private expressionList(list: Expression[]): string {
+    return list.map((e) => this.expression(e)).join(", ");
+  }
+
+  private wrap(node: Expression, minimum: number): string {
+    const text = this.expression(node);
+    return expressionPriority(node) < minimum ? `(${text})` : text;
+  }
+
+  private prefix(node: Expression): string {
+    const text = this.expression(node);
+    return isPrefixExpression(node) ? text : `(${text})`;
+  }
+
+  expression(node: Expression): string {
+    switch (node.type) {
+      case "Identifier":
+        return node.name;
+      case "NilLiteral":
+        return "nil";
+      case "BooleanLiteral":
+        return node.value ? "true" : "false";
+      case "NumericLiteral":
+        return node.raw ?? formatNumber(node.value);
+      case "StringLiteral":
+        return this.string(node);
+      case "VarargLiteral":
+        return "...";
+      case "FunctionExpression": {
+        const header = `function${this.signature(node)}`;
+        if (node.body.length === 0) return `${header} end`;
+        // The body is printed as statements of its own, whatever line the
+        // function expression itself is on
+        const saved = {
+          lines: this.lines,
+          sources: this.sources,
+          embedded: this.embedded,
+          flat: this.flat,
+          lead: this.lead,
+        };
+        this.lines = [];
+        this.sources = [];
+        this.embedded = [];
+        this.flat = false;
+        this.lead = 0;
+        this.nested(node.body, node.loc?.end);
+        const body = this.lines;
+        const bodySources = this.sources;
+        this.lines = saved.lines;
+        this.sources = saved.sources;
+        this.flat = saved.flat;
+        this.lead = saved.lead;
+        this.embedded = [
+          ...saved.embedded,
+          ...bodySources,
+          node.loc?.end.line ?? this.current,
+        ];
+        const indent = this.indentUnit.repeat(this.depth);
+        return [header, ...body, `${indent}end`].join("\n");
+      }
+      case "TableConstructorExpression":
+        return this.table(node);
+      case "BinaryExpression":
+        return this.binary(node);
+      case "UnaryExpression": {
+        const argument = this.wrap(node.argument, UNARY_PRIORITY);
+        if (node.operator === "not") return `not ${argument}`;
+        // Keep `- -x` from turning into a comment
+        return argument.startsWith("-")
+          ? `${node.operator} ${argument}`
+          : `${node.operator}${argument}`;
+      }
+      case "ParenthesizedExpression":
+        return `(${this.expression(node.expression)})`;
+      case "MemberExpression":
+        return `${this.prefix(node.base)}${node.indexer}${node.identifier.name}`;
+      case "IndexExpression":
+        return `${this.prefix(node.base)}[${this.expression(node.index)}]`;
+      case "CallExpression":
+        return this.call(node);
+      case "IfExpression": {
+        const clauses = node.clauses.map(
+          (clause, index) =>
+            `${index === 0 ? "if" : "elseif"} ${this.expression(clause.condition)} then ${this.expression(clause.value)}`,
+        );
+        return `${clauses.join(" ")} else ${this.expression(node.orelse)}`;
+      }
+      case "InterpolatedStringExpression": {
+        let out = escapeBytes(node.parts[0], INTERPOLATION_ESCAPES);
+        node.expressions.forEach((expression, index) => {
+          const text = this.expression(expression);
+          // `{{` is rejected by Luau as an escaped brace
+          out += text.startsWith("{") ? `{ ${text} }` : `{${text}}`;
+          out += escapeBytes(node.parts[index + 1], INTERPOLATION_ESCAPES);
+        });
+        return `\`${out}\``;
+      }
+      case "TypeAssertionExpression":
+        return `${this.wrap(node.expression, UNARY_PRIORITY)} :: ${this.type(node.annotation)}`;
+    }
+  }
+
+  private genericParameters(list: GenericTypeParameter[]): string {
+    const parameters = list.map(
+      (parameter) =>
+        `${parameter.name}${parameter.isPack ? "..." : ""}${parameter.default ? ` = ${this.type(parameter.default)}` : ""}`,
+    );
+    return `<${parameters.join(", ")}>`;
+  }
+
+  // Function types inside unions, intersections and optionals need parens or
+  // the member would swallow the rest as its return type
+  private typeOperand(node: TypeNode): string {
+    const text = this.type(node);
+    return node.type === "TypeFunction" ||
+      node.type === "TypeUnion" ||
+      node.type === "TypeIntersection"
+      ? `(${text})`
+      : text;
+  }
+
+  type(node: TypeNode): string {
+    switch (node.type) {
+      case "TypeReference": {
+        const name = node.prefix ? `${node.prefix}.${node.name}` : node.name;
+        return node.parameters
+          ? `${name}<${node.parameters.map((p) => this.type(p)).join(", ")}>`
+          : name;
+      }
+      case "TypeString":
+        return node.raw ?? quoteString(node.value);
+      case "TypeTable": {
+        if (node.array) return `{ ${this.type(node.array)} }`;
+        const access = (value?: string) => (value ? `${value} ` : "");
+        const parts = node.properties.map(
+          (property) =>
+            `${access(property.access)}${property.name}: ${this.type(property.value)}`,
+        );
+        if (node.indexer) {
+          parts.push(
+            `${access(node.indexer.access)}[${this.type(node.indexer.key)}]: ${this.type(node.indexer.value)}`,
+          );
+        }
+        return parts.length ? `{ ${parts.join(", ")} }` : "{}";
+      }
+      case "TypeFunction": {
+        const generics = node.typeParameters
+          ? this.genericParameters(node.typeParameters)
+          : "";
+        const parameters = node.parameters.map((parameter) =>
+          parameter.name
+            ? `${parameter.name}: ${this.type(parameter.value)}`
+            : this.type(parameter.value),
+        );
+        return `${generics}(${parameters.join(", ")}) -> ${this.type(node.returnType)}`;
+      }
+      case "TypeUnion":
+        return node.types.map((t) => this.typeOperand(t)).join(" | ");
+      case "TypeIntersection":
+        return node.types.map((t) => this.typeOperand(t)).join(" & ");
+      case "TypeOptional":
+        return `${this.typeOperand(node.value)}?`;
+      case "TypeTypeof":
+        return `typeof(${this.expression(node.expression)})`;
+      case "TypeParenthesized":
+        return `(${this.type(node.value)})`;
+      case "TypePack":
+        return `(${node.types.map((t) => this.type(t)).join(", ")})`;
+      case "TypeVariadic":
+        return `...${this.type(node.value)}`;
+      case "TypeGenericPack":
+        return `${node.name}...`;
+    }
+  }
+
+  private string(node: StringLiteral): string {
+    const raw = node.raw;
+    // Long brackets are kept as written, line breaks and all
+    if (raw && (this.quoteStyle === "preserve" || raw.startsWith("["))) {
+      this.lineBreaks(raw, node.loc?.start.line ?? null);
+      return raw;
+    }
+    if (this.quoteStyle === "single") return quoteString(node.value, "'");
+    const double = quoteString(node.value);
+    if (this.quoteStyle === "auto") {
+      const single = quoteString(node.value, "'");
+      if (single.length < double.length) return single;
+    }
+    return double;
+  }
+
+  private call(node: CallExpression): string {
+    const callee = this.prefix(node.base);
+    const [argument] = node.arguments;
+    if (node.arguments.length === 1 && this.omitsParentheses(argument)) {
+      return `${callee} ${this.expression(argument)}`;
+    }
+    const items = node.arguments.map(
+      (argument) => () => this.expression(argument),
+    );
+    return callee + this.list("(", items, ")");
+  }
+
+  private omitsParentheses(argument: Expression): boolean {
+    const isString = argument.type === "StringLiteral";
+    const isTable = argument.type === "TableConstructorExpression";
+    switch (this.callParentheses) {
+      case "always":
+        return false;
+      case "noSingleString":
+        return isString;
+      case "noSingleTable":
+        return isTable;
+      case "none":
+        return isString || isTable;
+    }
+  }
+
+  // Print `render()` on one line, with every nested list and chain on one
+  // line too, or return null if that runs past the maximum width. A trial
+  // that doesn't fit is thrown away along with what it recorded.
+  private oneLine(render: () => string): string | null {
+    const trial = {
+      embedded: this.embedded.length,
+      comment: this.nextComment,
+      mustBreak: this.mustBreak,
+    };
+    this.flat = true;
+    this.mustBreak = false;
+    const text = render();
+    this.flat = false;
+    const width =
+      this.indentWidth * this.depth + this.lead + text.split("\n")[0].length;
+    const fits = width <= this.maxLineWidth! && !this.mustBreak;
+    this.mustBreak = trial.mustBreak;
+    if (fits) return text;
+    this.embedded.length = trial.embedded;
+    this.nextComment = trial.comment;
+    return null;
+  }
+
+  /**
+   * A bracketed, comma-separated list: on one line if that fits within the
+   * maximum width, otherwise one item per line. Tables also get padding
+   * inside the braces and a trailing comma when split, and keep the
+   * comments between their fields, which always splits them.
+   */
+  private list(
+    open: string,
+    items: (() => string)[],
+    close: string,
+    table?: TableConstructorExpression,
+  ): string {
+    const pad = table && items.length > 0 ? " " : "";
+    const render = () =>
+      `${open}${pad}${items.map((item) => item()).join(", ")}${pad}${close}`;
+    const commented = table?.loc ? this.hasComments(table.loc) : false;
+    if (commented && this.flat) this.mustBreak = true;
+    if (!commented) {
+      if (this.maxLineWidth === undefined || this.flat || items.length === 0) {
+        return render();
+      }
+      const text = this.oneLine(render);
+      if (text !== null) return text;
+    }
+
+    const outerLead = this.lead;
+    this.depth++;
+    this.lead = 0;
+    const indent = this.indentUnit.repeat(this.depth);
+    const lines: string[] = [];
+    const comments = (before: Position | undefined) => {
+      if (!commented || !before) return;
+      for (const comment of this.takeComments(before)) {
+        this.embedded.push(comment.loc.start.line);
+        this.lineBreaks(comment.raw, comment.loc.start.line);
+        lines.push(indent + comment.raw);
+      }
+    };
+    items.forEach((item, index) => {
+      const loc = table?.fields[index].loc;
+      comments(loc?.start);
+      this.embedded.push(this.current);
+      const comma = table || index < items.length - 1 ? "," : "";
+      const line = `${indent}${item()}${comma}`;
+      const next = table?.fields[index + 1]?.loc?.start ?? table?.loc?.end;
+      const trailing =
+        commented && loc ? this.takeTrailing(loc.end.line, next) : null;
+      lines.push(trailing ? `${line} ${trailing.raw}` : line);
+    });
+    comments(table?.loc?.end);
+    this.embedded.push(this.current);
+    this.depth--;
+    this.lead = outerLead;
+    return [open, ...lines, this.indentUnit.repeat(this.depth) + close].join(
+      "\n",
+    );
+  }
+
+  private table(node: TableConstructorExpression): string {
+    const items = node.fields.map((field) => () => {
+      switch (field.type) {
+        case "TableKey": {
+          const key = this.expression(field.key);
+          // `[[` would open a long string
+          const spaced = key.startsWith("[") ? ` ${key} ` : key;
+          return `[${spaced}] = ${this.expression(field.value)}`;
+        }
+        case "TableKeyString":
+          return `${field.key.name} = ${this.expression(field.value)}`;
+        case "TableValue":
+          return this.expression(field.value);
+      }
+    });
+    return this.list("{", items, "}", node);
+  }
+
+  /**
+   * A chain of one operator, `a .. b .. c`: on one line if that fits within
+   * the maximum width, otherwise each operand after the first on a line of
+   * its own, led by the operator.
+   */
+  private binary(node: BinaryExpression): string {
+    const [left, right] = BINARY_PRIORITY[node.operator];
+    const rightAssociative = left > right;
+    const operands: Expression[] = [];
+    let rest: Expression = node;
+    while (
+      rest.type === "BinaryExpression" &&
+      rest.operator === node.operator
+    ) {
+      if (rightAssociative) {
+        operands.push(rest.left);
+        rest = rest.right;
+      } else {
+        operands.unshift(rest.right);
+        rest = rest.left;
+      }
+    }
+    if (rightAssociative) operands.push(rest);
+    else operands.unshift(rest);
+
+    // Operands that bind looser than this operator need parentheses
+    const operand = (index: number) => {
+      const isLeft = rightAssociative
+        ? index < operands.length - 1
+        : index === 0;
+      return this.wrap(
+        operands[index],
+        isLeft ? (left === right ? left : left + 1) : right + 1,
+      );
+    };
+    const render = () =>
+      operands.map((_, index) => operand(index)).join(` ${node.operator} `);
+    if (this.maxLineWidth === undefined || this.flat) return render();
+    const text = this.oneLine(render);
+    if (text !== null) return text;
+
+    const first = operand(0);
+    const outerLead = this.lead;
+    this.depth++;
+    this.lead = node.operator.length + 1;
+    const indent = this.indentUnit.repeat(this.depth);
+    const lines = operands.slice(1).map((_, index) => {
+      this.embedded.push(this.current);
+      return `${indent}${node.operator} ${operand(index + 1)}`;
+    });
+    this.depth--;
+    this.lead = outerLead;
+    return [first, ...lines].join("\n");
+  }
+}
+
+export function print(chunk: Chunk, options?: PrintOptions): string {
+  return new Printer(options).print(chunk);
+}
@@ -0,0 +1,22 @@
+// Seeds fit in a Postgres integer column
+export const MAX_SEED = 0x7fffffff;
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1));
+}
+
+/**
+ * A seeded replacement for `Math.random` (mulberry32). The same seed always
+ * yields the same sequence, which is what makes obfuscation builds
+ * reproducible.
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
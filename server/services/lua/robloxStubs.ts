@@ -0,0 +1,248 @@
+import { GLOBALS_CATALOG } from "./globals";
+import {
+  Interpreter,
+  LuaError,
+  LuaFunction,
+  LuaTable,
+  typeOf,
+  type LuaValue,
+  type NativeFunction,
+} from "./interpreter";
+
+export interface RobloxStubOptions {
+  // Where `warn` output goes, and errors from spawned functions
+  warn?: (line: string) => void;
+}
+
+// Where the clock starts; `tick()` adds the Unix time of a fixed day
+const EPOCH = 1_700_000_000;
+const DEFAULT_WAIT = 1 / 30;
+
+/**
+ * Just enough of Roblox for a script to run without a place to run in:
+ * `game`, `workspace`, `script` and every instance reached from them are
+ * stand-ins that hand back another stand-in for any child, property or
+ * method; events can be connected to but never fire; datatype constructors
+ * like `Vector3.new` make opaque values; and time only moves when the
+ * script waits. Everything is deterministic, so two runs of the same
+ * script see the same world.
+ */
+export function installRobloxStubs(
+  interpreter: Interpreter,
+  options: RobloxStubOptions = {},
+): void {
+  const { globals } = interpreter;
+  let clock = 0;
+  // What `typeof` reports for stand-ins
+  const kinds = new WeakMap<LuaTable, string>();
+
+  const define = (table: LuaTable, name: string, fn: NativeFunction) =>
+    table.set(name, new LuaFunction(name, fn));
+
+  const metatable = (handlers: Record<string, NativeFunction>) => {
+    const table = interpreter.newTable();
+    for (const [event, fn] of Object.entries(handlers)) {
+      define(table, event, fn);
+    }
+    return table;
+  };
+
+  // Instances
+
+  const nameOf = (value: LuaValue) =>
+    value instanceof LuaTable ? interpreter.tostring(value) : "";
+
+  const instanceMetatable: LuaTable = metatable({
+    __index: ([self, key]) => {
+      const method = typeof key === "string" ? methods[key] : undefined;
+      if (method) return [method];
+      // Any other member is a child or property that always existed
+      const child = instance(interpreter.tostring(key), String(key));
+      (self as LuaTable).set(key, child);
+      return [child];
+    },
+    // Unknown methods can still be called and hand back another stand-in
+    __call: ([self]) => [instance(nameOf(self), nameOf(self))],
+    __tostring: ([self]) => [String((self as LuaTable).get("Name"))],
+  });
+
+  const instance = (name: string, className: string): LuaTable => {
+    const table = interpreter.newTable();
+    table.set("Name", name);
+    table.set("ClassName", className);
+    table.metatable = instanceMetatable;
+    kinds.set(table, "Instance");
+    return table;
+  };
+
+  const child: NativeFunction = ([self, name]) => [
+    interpreter.index(self, name),
+  ];
+
+  const methods: Record<string, LuaFunction> = {};
+  const method = (names: string[], fn: NativeFunction) => {
+    for (const name of names) methods[name] = new LuaFunction(name, fn);
+  };
+  method(
+    [
+      "GetService",
+      "FindService",
+      "FindFirstChild",
+      "FindFirstChildOfClass",
+      "FindFirstChildWhichIsA",
+      "FindFirstAncestor",
+      "FindFirstAncestorOfClass",
+      "FindFirstAncestorWhichIsA",
+      "WaitForChild",
+    ],
+    child,
+  );
+  method(["GetChildren", "GetDescendants", "GetPlayers", "GetTags"], () => [
+    interpreter.newTable(),
+  ]);
+  method(["IsA"], ([self, className]) => [
+    interpreter.index(self, "ClassName") === className,
+  ]);
+  method(["IsDescendantOf", "IsAncestorOf", "HasTag"], () => [false]);
+  method(["Clone"], ([self]) => [
+    instance(nameOf(self), String(interpreter.index(self, "ClassName"))),
+  ]);
+  method(["GetFullName"], ([self]) => [nameOf(self)]);
+  method(["GetAttribute"], () => [undefined]);
+  method(
+    ["Destroy", "Remove", "ClearAllChildren", "SetAttribute", "Disconnect"],
+    () => [],
+  );
+  // Events: handlers are accepted and never called
+  method(["Connect", "ConnectParallel", "Once"], () => [
+    instance("Connection", "RBXScriptConnection"),
+  ]);
+  // `player.CharacterAdded:Wait()` is a character
+  method(["Wait"], ([self]) => {
+    const name = nameOf(self).replace(/Added$/, "");
+    return [instance(name, name)];
+  });
+
+  const game = instance("Game", "DataModel");
+  globals.set("game", game);
+  globals.set("Game", game);
+  globals.set("workspace", interpreter.index(game, "Workspace"));
+  globals.set("Workspace", interpreter.index(game, "Workspace"));
+  globals.set("script", instance("Script", "Script"));
+  globals.set("shared", interpreter.newTable());
+
+  const instanceLibrary = interpreter.newTable();
+  define(instanceLibrary, "new", ([className, parent]) => {
+    const created = instance(String(className), String(className));
+    if (parent !== undefined) created.set("Parent", parent);
+    return [created];
+  });
+  globals.set("Instance", instanceLibrary);
+
+  // Datatypes: `Vector3.new(1, 2, 3)` prints as `1, 2, 3`
+
+  const valueMetatable = metatable({
+    __tostring: ([self]) => [String((self as LuaTable).get("__text"))],
+  });
+
+  const datatype = (typeName: string): LuaTable => {
+    const constructors = interpreter.newTable();
+    constructors.metatable = metatable({
+      __index: ([, key]) => [
+        new LuaFunction(`${typeName}.${String(key)}`, (args) => {
+          const value = interpreter.newTable();
+          value.set(
+            "__text",
+            args.map((arg) => interpreter.tostring(arg)).join(", "),
+          );
+          value.metatable = valueMetatable;
+          kinds.set(value, typeName);
+          return [value];
+        }),
+      ],
+    });
+    return constructors;
+  };
+  for (const typeName of GLOBALS_CATALOG.datatypes) {
+    if (typeName !== "Instance") globals.set(typeName, datatype(typeName));
+  }
+
+  // `Enum.KeyCode.E` is the same value every time it's read
+
+  const enumNames = new WeakMap<LuaTable, string>();
+  const enumMetatable: LuaTable = metatable({
+    __index: ([self, key]) => {
+      const item = enumItem(`${nameOf(self)}.${String(key)}`);
+      (self as LuaTable).set(key, item);
+      return [item];
+    },
+    __tostring: ([self]) => [enumNames.get(self as LuaTable) ?? ""],
+  });
+  const enumItem = (name: string): LuaTable => {
+    const table = interpreter.newTable();
+    enumNames.set(table, name);
+    table.metatable = enumMetatable;
+    kinds.set(table, "EnumItem");
+    return table;
+  };
+  globals.set("Enum", enumItem("Enum"));
+
+  // Time and scheduling
+
+  const now = () => [clock];
+  const wait: NativeFunction = ([seconds]) => {
+    clock +=
+      typeof seconds === "number" && seconds > 0 ? seconds : DEFAULT_WAIT;
+    return [typeof seconds === "number" ? seconds : DEFAULT_WAIT, clock];
+  };
+  // Spawned functions run straight away; like in Roblox, their errors are
+  // reported rather than raised in the caller
+  const run = (fn: LuaValue, args: LuaValue[]) => {
+    try {
+      interpreter.call(fn, args);
+    } catch (error) {
+      if (!(error instanceof LuaError)) throw error;
+      options.warn?.(interpreter.tostring(error.value));
+    }
+  };
+  const spawn: NativeFunction = ([fn, ...args]) => {
+    run(fn, args);
+    return [];
+  };
+  const delay: NativeFunction = ([, fn, ...args]) => {
+    run(fn, args);
+    return [];
+  };
+
+  const base: Record<string, NativeFunction> = {
+    wait,
+    delay,
+    spawn,
+    tick: () => [EPOCH + clock],
+    time: now,
+    elapsedTime: now,
+    warn: (args) => {
+      options.warn?.(args.map((arg) => interpreter.tostring(arg)).join(" "));
+      return [];
+    },
+    typeof: ([value]) => [
+      value instanceof LuaTable ? (kinds.get(value) ?? "table") : typeOf(value),
+    ],
+  };
+  for (const [name, fn] of Object.entries(base)) define(globals, name, fn);
+
+  const task = interpreter.newTable();
+  define(task, "wait", wait);
+  define(task, "spawn", spawn);
+  define(task, "defer", spawn);
+  define(task, "delay", delay);
+  define(task, "cancel", () => []);
+  globals.set("task", task);
+
+  // The standard library's clocks would differ between runs
+  const os = globals.get("os");
+  if (os instanceof LuaTable) {
+    define(os, "clock", now);
+    define(os, "time", () => [EPOCH + Math.floor(clock)]);
+  }
+}
@@ -0,0 +1,322 @@
+import {
+  childrenOf,
+  type Chunk,
+  type Expression,
+  type FunctionNode,
+  type Identifier,
+  type Node,
+  type Statement,
+  type TypeNode,
+} from "./ast";
+
+export type BindingKind = "local" | "function" | "parameter" | "for" | "self";
+
+export interface Binding {
+  name: string;
+  kind: BindingKind;
+  // Null for the implicit `self` of `function a:b()` methods
+  declaration: Identifier | null;
+  references: Identifier[];
+  scope: Scope;
+  // Referenced from a nested function, i.e. captured as an upvalue
+  isUpvalue: boolean;
+}
+
+export interface Scope {
+  parent: Scope | null;
+  node: Node;
+  // Function (or chunk) that owns this scope, used to detect upvalues
+  functionNode: Node;
+  bindings: Binding[];
+  children: Scope[];
+}
+
+export interface ScopeAnalysis {
+  root: Scope;
+  bindings: Binding[];
+  // Every identifier that resolved to a binding, declarations included
+  resolved: Map<Identifier, Binding>;
+  // Free names, with the identifiers that reference each of them
+  globals: Map<string, Identifier[]>;
+}
+
+class ScopeAnalyzer {
+  private scope: Scope;
+  readonly bindings: Binding[] = [];
+  readonly resolved = new Map<Identifier, Binding>();
+  readonly globals = new Map<string, Identifier[]>();
+
+  constructor(readonly root: Scope) {
+    this.scope = root;
+  }
+
+  private push(node: Node, functionNode = this.scope.functionNode): void {
+    const scope: Scope = {
+      parent: this.scope,
+      node,
+      functionNode,
+      bindings: [],
+      children: [],
+    };
+    this.scope.children.push(scope);
+    this.scope = scope;
+  }
+
+  private pop(): void {
+    this.scope = this.scope.parent!;
+  }
+
+  private declare(
+    identifier: Identifier | null,
+    kind: BindingKind,
+    name?: string,
+  ) {
+    const binding: Binding = {
+      name: identifier?.name ?? name!,
+      kind,
+      declaration: identifier,
+      references: [],
+      scope: this.scope,
+      isUpvalue: false,
+    };
+    this.scope.bindings.push(binding);
+    this.bindings.push(binding);
+    if (identifier) this.resolved.set(identifier, binding);
+  }
+
+  private lookup(name: string): Binding | null {
+    for (let scope: Scope | null = this.scope; scope; scope = scope.parent) {
+      // Later declarations shadow earlier ones in the same block
+      for (let i = scope.bindings.length - 1; i >= 0; i--) {
+        if (scope.bindings[i].name === name) return scope.bindings[i];
+      }
+    }
+    return null;
+  }
+
+  private reference(identifier: Identifier): void {
+    const binding = this.lookup(identifier.name);
+    if (!binding) {
+      const list = this.globals.get(identifier.name) ?? [];
+      list.push(identifier);
+      this.globals.set(identifier.name, list);
+      return;
+    }
+    binding.references.push(identifier);
+    if (binding.scope.functionNode !== this.scope.functionNode) {
+      binding.isUpvalue = true;
+    }
+    this.resolved.set(identifier, binding);
+  }
+
+  block(body: Statement[]): void {
+    for (const statement of body) this.statement(statement);
+  }
+
+  private scopedBlock(node: Node, body: Statement[]): void {
+    this.push(node);
+    this.block(body);
+    this.pop();
+  }
+
+  private statement(node: Statement): void {
+    switch (node.type) {
+      case "LocalStatement":
+        // Initializers are evaluated before the new locals come into scope
+        this.expressions(node.init);
+        this.annotations(node.variables);
+        for (const variable of node.variables) this.declare(variable, "local");
+        return;
+      case "AssignmentStatement":
+        this.expressions(node.variables);
+        this.expressions(node.init);
+        return;
+      case "CompoundAssignmentStatement":
+        this.expression(node.variable);
+        this.expression(node.value);
+        return;
+      case "CallStatement":
+        this.expression(node.expression);
+        return;
+      case "DoStatement":
+        this.scopedBlock(node, node.body);
+        return;
+      case "WhileStatement":
+        this.expression(node.condition);
+        this.scopedBlock(node, node.body);
+        return;
+      case "RepeatStatement":
+        // The `until` condition can see locals declared in the body
+        this.push(node);
+        this.block(node.body);
+        this.expression(node.condition);
+        this.pop();
+        return;
+      case "IfStatement":
+        for (const clause of node.clauses) {
+          this.expression(clause.condition);
+          this.scopedBlock(clause, clause.body);
+        }
+        if (node.orelse) this.scopedBlock(node, node.orelse);
+        return;
+      case "NumericForStatement":
+        this.expression(node.start);
+        this.expression(node.end);
+        if (node.step) this.expression(node.step);
+        this.annotations([node.variable]);
+        this.push(node);
+        this.declare(node.variable, "for");
+        this.block(node.body);
+        this.pop();
+        return;
+      case "GenericForStatement":
+        this.expressions(node.iterators);
+        this.annotations(node.variables);
+        this.push(node);
+        for (const variable of node.variables) this.declare(variable, "for");
+        this.block(node.body);
+        this.pop();
+        return;
+      case "FunctionDeclaration":
+        if (node.isLocal) {
+          // `local function f` can call itself recursively
+          this.declare(node.identifier as Identifier, "function");
+        } else {
+          this.expression(node.identifier);
+        }
+        this.functionBody(node);
+        return;
+      case "ReturnStatement":
+        this.expressions(node.arguments);
+        return;
+      case "TypeAliasStatement":
+        this.types(node.value);
+        return;
+      case "BreakStatement":
+      case "ContinueStatement":
+        return;
+    }
+  }
+
+  // `typeof(expr)` inside an annotation refers to ordinary variables
+  private types(node: TypeNode | undefined): void {
+    if (!node) return;
+    if (node.type === "TypeTypeof") {
+      this.expression(node.expression);
+      return;
+    }
+    for (const child of childrenOf(node)) this.types(child as TypeNode);
+  }
+
+  private annotations(identifiers: Identifier[]): void {
+    for (const identifier of identifiers) this.types(identifier.typeAnnotation);
+  }
+
+  private functionBody(node: FunctionNode): void {
+    this.push(node, node);
+    if (
+      node.type === "FunctionDeclaration" &&
+      node.identifier.type === "MemberExpression" &&
+      node.identifier.indexer === ":"
+    ) {
+      this.declare(null, "self", "self");
+    }
+    for (const parameter of node.parameters)
+      this.declare(parameter, "parameter");
+    this.annotations(node.parameters);
+    this.types(node.varargAnnotation);
+    this.types(node.returnType);
+    this.block(node.body);
+    this.pop();
+  }
+
+  private expressions(list: Expression[]): void {
+    for (const expression of list) this.expression(expression);
+  }
+
+  private expression(node: Expression): void {
+    switch (node.type) {
+      case "Identifier":
+        this.reference(node);
+        return;
+      case "FunctionExpression":
+        this.functionBody(node);
+        return;
+      case "TableConstructorExpression":
+        for (const field of node.fields) {
+          if (field.type === "TableKey") this.expression(field.key);
+          this.expression(field.value);
+        }
+        return;
+      case "BinaryExpression":
+        this.expression(node.left);
+        this.expression(node.right);
+        return;
+      case "UnaryExpression":
+        this.expression(node.argument);
+        return;
+      case "ParenthesizedExpression":
+        this.expression(node.expression);
+        return;
+      case "MemberExpression":
+        // The field name is not a variable
+        this.expression(node.base);
+        return;
+      case "IndexExpression":
+        this.expression(node.base);
+        this.expression(node.index);
+        return;
+      case "CallExpression":
+        this.expression(node.base);
+        this.expressions(node.arguments);
+        return;
+      case "IfExpression":
+        for (const clause of node.clauses) {
+          this.expression(clause.condition);
+          this.expression(clause.value);
+        }
+        this.expression(node.orelse);
+        return;
+      case "InterpolatedStringExpression":
+        this.expressions(node.expressions);
+        return;
+      case "TypeAssertionExpression":
+        this.expression(node.expression);
+        this.types(node.annotation);
+        return;
+      default:
+        return;
+    }
+  }
+}
+
+/**
+ * Resolve every identifier in the chunk to the binding it refers to, following
+ * Lua's lexical scoping rules (shadowing, upvalues, implicit `self`).
+ */
+export function analyzeScopes(chunk: Chunk): ScopeAnalysis {
+  const root: Scope = {
+    parent: null,
+    node: chunk,
+    functionNode: chunk,
+    bindings: [],
+    children: [],
+  };
+  const analyzer = new ScopeAnalyzer(root);
+  analyzer.block(chunk.body);
+  return {
+    root,
+    bindings: analyzer.bindings,
+    resolved: analyzer.resolved,
+    globals: analyzer.globals,
+  };
+}
+
+/**
+ * Rename a binding at its declaration and every reference.
+ */
+export function renameBinding(binding: Binding, name: string): void {
+  if (binding.declaration) binding.declaration.name = name;
+  for (const reference of binding.references) reference.name = name;
+  binding.name = name;
+}
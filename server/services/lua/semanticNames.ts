@@ -0,0 +1,359 @@
+import { walk, type Chunk, type Expression, type Node } from "./ast";
+import { GLOBALS_CATALOG } from "./globals";
+import { isKeyword } from "./lexer";
+import {
+  analyzeScopes,
+  renameBinding,
+  type Binding,
+  type Scope,
+  type ScopeAnalysis,
+} from "./scope";
+
+/**
+ * Names that carry no meaning: `_0x1a2b`-style hex names of any length
+ * (and the `_0001`/`__0002` variants, from four digits) and names built
+ * only from `l`, `I` and `1`.
+ */
+export function looksObfuscated(name: string): boolean {
+  return (
+    /^_+0x[0-9a-fA-F]+$/.test(name) ||
+    /^_+(?=[0-9a-fA-F]*\d)[0-9a-fA-F]{4,}$/.test(name) ||
+    /^[lI][lI1]{5,}$/.test(name)
+  );
+}
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const SERVICES = new Set<string>(GLOBALS_CATALOG.services);
+
+// `Humanoid` -> `humanoid`, `UIListLayout` -> `uiListLayout`, `GUI` -> `gui`
+function lowerCamel(name: string): string {
+  const run = /^[A-Z]+/.exec(name)?.[0] ?? "";
+  if (run.length === name.length) return name.toLowerCase();
+  if (run.length <= 1) return name.charAt(0).toLowerCase() + name.slice(1);
+  return run.slice(0, -1).toLowerCase() + name.slice(run.length - 1);
+}
+
+// `players` -> `player`, `children` -> `child`, `entries` -> `entry`
+function singular(name: string): string | null {
+  if (name.endsWith("children")) return name.slice(0, -3);
+  if (name.endsWith("ies") && name.length > 4) return name.slice(0, -3) + "y";
+  if (/[^s]s$/.test(name) && name.length > 3) return name.slice(0, -1);
+  return null;
+}
+
+// Instance lookups whose string argument names what they return
+const CHILD_LOOKUPS = new Set([
+  "FindFirstAncestor",
+  "FindFirstAncestorOfClass",
+  "FindFirstAncestorWhichIsA",
+  "FindFirstChild",
+  "FindFirstChildOfClass",
+  "FindFirstChildWhichIsA",
+  "WaitForChild",
+]);
+
+// Methods whose result has a conventional name of its own
+const METHOD_RESULTS: Record<string, string> = {
+  Clone: "clone",
+  Connect: "connection",
+  ConnectParallel: "connection",
+  GetChildren: "children",
+  GetDescendants: "descendants",
+  GetMouse: "mouse",
+  GetPlayers: "players",
+  Once: "connection",
+};
+
+// Parameters of handlers connected to well-known events
+const EVENT_PARAMETERS: Record<string, string[]> = {
+  CharacterAdded: ["character"],
+  CharacterRemoving: ["character"],
+  ChildAdded: ["child"],
+  ChildRemoved: ["child"],
+  DescendantAdded: ["descendant"],
+  DescendantRemoving: ["descendant"],
+  Heartbeat: ["deltaTime"],
+  InputBegan: ["input", "gameProcessed"],
+  InputChanged: ["input", "gameProcessed"],
+  InputEnded: ["input", "gameProcessed"],
+  PlayerAdded: ["player"],
+  PlayerRemoving: ["player"],
+  RenderStepped: ["deltaTime"],
+  Stepped: ["time", "deltaTime"],
+  Touched: ["hit"],
+  TouchEnded: ["hit"],
+};
+
+const CLOCKS = new Set(["tick", "time", "os.clock", "os.time"]);
+
+// `a.b.c` for a chain of plain field accesses on a name, else null
+function dottedName(node: Expression): string | null {
+  if (node.type === "Identifier") return node.name;
+  if (node.type === "MemberExpression" && node.indexer === ".") {
+    const base = dottedName(node.base);
+    return base && `${base}.${node.identifier.name}`;
+  }
+  return null;
+}
+
+function stringArgument(args: Expression[]): string | null {
+  const [first] = args;
+  return first?.type === "StringLiteral" && IDENTIFIER.test(first.value)
+    ? first.value
+    : null;
+}
+
+// A name for whatever `expression` evaluates to, from its shape alone
+function nameForValue(expression: Expression): string | null {
+  switch (expression.type) {
+    case "CallExpression": {
+      const { base } = expression;
+      const callee = dottedName(base);
+      if (callee === "Instance.new") {
+        const className = stringArgument(expression.arguments);
+        return className && lowerCamel(className);
+      }
+      if (callee === "require") {
+        const [module] = expression.arguments;
+        if (module?.type === "MemberExpression") return module.identifier.name;
+        if (module) return nameForValue(module);
+        return null;
+      }
+      if (callee && CLOCKS.has(callee)) return "timestamp";
+      if (callee === "tostring") return "text";
+      if (base.type !== "MemberExpression" || base.indexer !== ":") {
+        return null;
+      }
+      const method = base.identifier.name;
+      if (method === "GetService") return stringArgument(expression.arguments);
+      if (CHILD_LOOKUPS.has(method)) {
+        const child = stringArgument(expression.arguments);
+        // `require(x:WaitForChild("Module"))` keeps the module's own case
+        return child && lowerCamel(child);
+      }
+      // `player.CharacterAdded:Wait()` waits for a character
+      if (method === "Wait" && base.base.type === "MemberExpression") {
+        const event = /^(\w+)Added$/.exec(base.base.identifier.name);
+        if (event) return lowerCamel(event[1]);
+      }
+      return METHOD_RESULTS[method] ?? null;
+    }
+    case "MemberExpression": {
+      const field = expression.identifier.name;
+      if (
+        expression.base.type === "Identifier" &&
+        expression.base.name === "game" &&
+        SERVICES.has(field)
+      ) {
+        return field;
+      }
+      return lowerCamel(field);
+    }
+    case "IndexExpression":
+      return expression.index.type === "StringLiteral" &&
+        IDENTIFIER.test(expression.index.value)
+        ? lowerCamel(expression.index.value)
+        : null;
+    case "BinaryExpression":
+      if (expression.operator === "..") return "text";
+      // `x or default` is named after `x`
+      if (expression.operator === "or") return nameForValue(expression.left);
+      return null;
+    case "UnaryExpression":
+      return expression.operator === "#" ? "length" : null;
+    case "ParenthesizedExpression":
+      return nameForValue(expression.expression);
+    case "StringLiteral":
+    case "InterpolatedStringExpression":
+      return "text";
+    case "TableConstructorExpression":
+      return expression.fields.every((field) => field.type === "TableValue")
+        ? "list"
+        : "data";
+    default:
+      return null;
+  }
+}
+
+interface NamingContext {
+  analysis: ScopeAnalysis;
+  parents: Map<Node, Node | null>;
+}
+
+// The value a local first holds: its initializer, or the first plain
+// non-nil assignment to it when it was declared bare
+function firstValue(
+  binding: Binding,
+  { parents }: NamingContext,
+): Expression | null {
+  const declaration = binding.declaration!;
+  const statement = parents.get(declaration);
+  if (statement?.type === "LocalStatement") {
+    const index = statement.variables.indexOf(declaration);
+    if (statement.init.length > 0) {
+      return index < statement.init.length ? statement.init[index] : null;
+    }
+  }
+  for (const reference of binding.references) {
+    const parent = parents.get(reference);
+    if (parent?.type !== "AssignmentStatement") continue;
+    const value = parent.variables.includes(reference)
+      ? parent.init[parent.variables.indexOf(reference)]
+      : undefined;
+    // A local cleared before it's given its real value
+    if (value && value.type !== "NilLiteral") return value;
+  }
+  return null;
+}
+
+// A name for a binding from how it's declared and what it's given; the
+// first entry is preferred and the rest are fallbacks before numbering
+function candidates(binding: Binding, context: NamingContext): string[] {
+  const { analysis, parents } = context;
+  const declaration = binding.declaration!;
+  const owner = parents.get(declaration);
+
+  switch (binding.kind) {
+    case "for": {
+      if (owner?.type === "NumericForStatement") return ["i", "j", "k"];
+      if (owner?.type !== "GenericForStatement") break;
+      const position = owner.variables.indexOf(declaration);
+      const [iterator] = owner.iterators;
+      const callee =
+        iterator?.type === "CallExpression" ? dottedName(iterator.base) : null;
+      if (position === 0) {
+        return callee === "ipairs" ? ["index", "i"] : ["key"];
+      }
+      if (position > 1) break;
+      // Values take the singular of what's iterated: `players` -> `player`
+      const source =
+        iterator?.type === "CallExpression" ? iterator.arguments[0] : iterator;
+      const collection =
+        source &&
+        (source.type === "Identifier"
+          ? (analysis.resolved.get(source)?.name ?? source.name)
+          : nameForValue(source));
+      const item =
+        collection && !looksObfuscated(collection) && singular(collection);
+      return item ? [item, "value"] : ["value"];
+    }
+    case "parameter": {
+      const fn = owner;
+      const call = fn && parents.get(fn);
+      if (
+        fn?.type === "FunctionExpression" &&
+        call?.type === "CallExpression" &&
+        call.base.type === "MemberExpression" &&
+        call.base.base.type === "MemberExpression"
+      ) {
+        const event = call.base.base.identifier.name;
+        const names = EVENT_PARAMETERS[event];
+        const name = names?.[fn.parameters.indexOf(declaration)];
+        if (name) return [name];
+      }
+      return ["arg"];
+    }
+    case "function":
+      return ["func"];
+    case "local": {
+      const value = firstValue(binding, context);
+      if (value?.type === "FunctionExpression") return ["func"];
+      const name = value && nameForValue(value);
+      if (name && IDENTIFIER.test(name) && !looksObfuscated(name)) {
+        return [name];
+      }
+      break;
+    }
+  }
+  return ["value"];
+}
+
+// How many bindings have each name, in every scope and in each scope
+// together with the scopes nested in it. A name can't be used in a scope if
+// an enclosing scope has it, where the outer binding would be shadowed, or
+// a nested one does, where it would shadow the inner one.
+class NameIndex {
+  private readonly own = new Map<Scope, Map<string, number>>();
+  private readonly nested = new Map<Scope, Map<string, number>>();
+
+  constructor(root: Scope) {
+    const pending = [root];
+    while (pending.length > 0) {
+      const scope = pending.pop()!;
+      this.own.set(scope, new Map());
+      this.nested.set(scope, new Map());
+      for (const binding of scope.bindings) this.add(scope, binding.name, 1);
+      pending.push(...scope.children);
+    }
+  }
+
+  private add(scope: Scope, name: string, count: number): void {
+    const own = this.own.get(scope)!;
+    own.set(name, (own.get(name) ?? 0) + count);
+    for (let current: Scope | null = scope; current; current = current.parent) {
+      const nested = this.nested.get(current)!;
+      nested.set(name, (nested.get(name) ?? 0) + count);
+    }
+  }
+
+  has(scope: Scope, name: string): boolean {
+    if (this.nested.get(scope)!.get(name)) return true;
+    for (let current = scope.parent; current; current = current.parent) {
+      if (this.own.get(current)!.get(name)) return true;
+    }
+    return false;
+  }
+
+  rename(scope: Scope, from: string, to: string): void {
+    this.add(scope, from, -1);
+    this.add(scope, to, 1);
+  }
+}
+
+/**
+ * Give every local with a meaningless name (see `looksObfuscated`) one
+ * inferred from how it's used: `game:GetService("Players")` is `Players`,
+ * `x:FindFirstChildOfClass("Humanoid")` is `humanoid`, `ipairs` loops get
+ * `index, value` and handler parameters are named after their event. A name
+ * is never shared with a global the chunk uses or with a binding in an
+ * enclosing or nested scope; clashes get a number. Returns how many locals
+ * were renamed.
+ */
+export function inferNames(chunk: Chunk): number {
+  const analysis = analyzeScopes(chunk);
+  const parents = new Map<Node, Node | null>();
+  walk(chunk, (node, parent) => {
+    parents.set(node, parent);
+  });
+  const context: NamingContext = { analysis, parents };
+
+  const index = new NameIndex(analysis.root);
+  const isTaken = (name: string, scope: Scope) =>
+    isKeyword(name) || analysis.globals.has(name) || index.has(scope, name);
+  // Next number to try for a name in a scope. Only meaningless names are
+  // given up by renaming, so the numbers below it are still taken.
+  const suffixes = new Map<Scope, Map<string, number>>();
+
+  let renamed = 0;
+  // Bindings are in declaration order, so a loop's collection is named
+  // before the loop's own variables
+  for (const binding of analysis.bindings) {
+    if (!binding.declaration || !looksObfuscated(binding.name)) continue;
+    const names = candidates(binding, context);
+    const { scope } = binding;
+    let name = names.find((candidate) => !isTaken(candidate, scope));
+    if (!name) {
+      const next = suffixes.get(scope) ?? new Map<string, number>();
+      suffixes.set(scope, next);
+      let suffix = next.get(names[0]) ?? 2;
+      while (isTaken(`${names[0]}${suffix}`, scope)) suffix++;
+      next.set(names[0], suffix + 1);
+      name = `${names[0]}${suffix}`;
+    }
+    index.rename(scope, binding.name, name);
+    renameBinding(binding, name);
+    renamed++;
+  }
+  return renamed;
+}
@@ -0,0 +1,96 @@
+import type { Chunk, Identifier } from "./ast";
+import { analyzeScopes } from "./scope";
+
+export interface OriginalName {
+  name: string;
+  // Line of the declaration in the input
+  line: number | null;
+}
+
+export interface SourceMap {
+  version: 1;
+  // Generated name -> the variable it replaced
+  names: Record<string, OriginalName>;
+  // Input line behind each output line (index 0 is output line 1); null for
+  // generated code with no counterpart
+  lines: (number | null)[];
+}
+
+/**
+ * Record every local declaration with its name as written. Passes rename
+ * these identifiers in place, so comparing afterwards yields the rename map.
+ */
+export function snapshotDeclarations(
+  chunk: Chunk,
+): Map<Identifier, OriginalName> {
+  const declarations = new Map<Identifier, OriginalName>();
+  for (const binding of analyzeScopes(chunk).bindings) {
+    if (!binding.declaration) continue;
+    declarations.set(binding.declaration, {
+      name: binding.declaration.name,
+      line: binding.declaration.loc?.start.line ?? null,
+    });
+  }
+  return declarations;
+}
+
+export function buildSourceMap(
+  declarations: Map<Identifier, OriginalName>,
+  lines: (number | null)[],
+): SourceMap {
+  const names: Record<string, OriginalName> = {};
+  declarations.forEach((original, identifier) => {
+    if (identifier.name !== original.name) names[identifier.name] = original;
+  });
+  return { version: 1, names, lines };
+}
+
+/**
+ * Point a source map made for an intermediate version of a script back at
+ * the script as written, given the original line behind each intermediate
+ * line (index 0 is intermediate line 1).
+ */
+export function remapSourceMap(
+  map: SourceMap,
+  lines: (number | null)[],
+): SourceMap {
+  const original = (line: number | null) =>
+    line === null ? null : (lines[line - 1] ?? null);
+  const names: Record<string, OriginalName> = {};
+  for (const [name, entry] of Object.entries(map.names)) {
+    names[name] = { name: entry.name, line: original(entry.line) };
+  }
+  return { version: 1, names, lines: map.lines.map(original) };
+}
+
+/**
+ * Translate a Roblox error message or stack trace from an obfuscated build
+ * back to the original names and line numbers. Handles both
+ * `Script:12: message` / `Script:12 function f` and the older
+ * `Script 'x', Line 12 - function f` formats.
+ */
+export function demangleStackTrace(trace: string, map: SourceMap): string {
+  const originalLine = (line: string) => {
+    const mapped = map.lines[Number(line) - 1];
+    return mapped == null ? line : String(mapped);
+  };
+
+  return (
+    trace
+      // Script paths start with a letter, which keeps timestamps like
+      // 12:03:45 from being read as line numbers
+      .replace(
+        /([A-Za-z_][\w.]*):(\d+)\b/g,
+        (_, path: string, line: string) => `${path}:${originalLine(line)}`,
+      )
+      .replace(
+        /\bLine (\d+)\b/g,
+        (_, line: string) => `Line ${originalLine(line)}`,
+      )
+      .replace(/\b[A-Za-z_]\w*\b/g, (word) =>
+        Object.prototype.hasOwnProperty.call(map.names, word)
+          ? map.names[word].name
+          : word,
+      )
+  );
+}
@@ -0,0 +1,904 @@
+import {
+  Interpreter,
+  LuaError,
+  LuaFunction,
+  LuaTable,
+  UnsupportedError,
+  isTruthy,
+  numberToString,
+  stringToNumber,
+  typeOf,
+  type LuaValue,
+  type NativeFunction,
+} from "./interpreter";
+import { fromByteString } from "./lexer";
+import { parse } from "./parser";
+import { PatternError, findMatch, matchAll, type Capture } from "./patterns";
+import { createRandom } from "./random";
+
+export interface StandardLibraryOptions {
+  // What `loadstring` and `load` do with the source they're given. By
+  // default it's compiled and run in the same sandbox.
+  load?: (source: string, chunkName: string) => LuaValue[];
+  // Where `print` output goes; it's dropped by default
+  print?: (line: string) => void;
+}
+
+// Strings made at runtime are capped like Luau caps them
+const MAX_STRING = 1 << 24;
+
+/**
+ * Fill the interpreter's globals with the parts of the Lua 5.1 and Luau
+ * standard library a script can use without reaching outside the sandbox:
+ * no `io`, no `os.execute`, no `require` and nothing from Roblox. Missing
+ * globals are just nil, so a script that needs them stops with an error.
+ * Coroutines and `debug` can't be run here; calling them stops the run
+ * with an `UnsupportedError`, so it isn't mistaken for the script failing.
+ */
+export function installStandardLibrary(
+  interpreter: Interpreter,
+  options: StandardLibraryOptions = {},
+): void {
+  const { globals, budget } = interpreter;
+  const step = () => budget.step();
+
+  const fail = (message: string): never => interpreter.error(message);
+
+  const argError = (position: number, name: string, message: string): never =>
+    fail(`bad argument #${position} to '${name}' (${message})`);
+
+  const checkNumber = (args: LuaValue[], i: number, name: string): number => {
+    const value = args[i];
+    if (typeof value === "number") return value;
+    const number =
+      typeof value === "string" ? stringToNumber(value) : undefined;
+    if (number === undefined) {
+      return argError(i + 1, name, `number expected, got ${describe(value)}`);
+    }
+    return number;
+  };
+
+  const checkInteger = (args: LuaValue[], i: number, name: string): number =>
+    Math.trunc(checkNumber(args, i, name));
+
+  const optInteger = (
+    args: LuaValue[],
+    i: number,
+    name: string,
+    fallback: number,
+  ): number => (args[i] === undefined ? fallback : checkInteger(args, i, name));
+
+  const checkString = (args: LuaValue[], i: number, name: string): string => {
+    const value = args[i];
+    if (typeof value === "string") return value;
+    if (typeof value === "number") return numberToString(value);
+    return argError(i + 1, name, `string expected, got ${describe(value)}`);
+  };
+
+  const checkTable = (args: LuaValue[], i: number, name: string): LuaTable => {
+    const value = args[i];
+    if (value instanceof LuaTable) return value;
+    return argError(i + 1, name, `table expected, got ${describe(value)}`);
+  };
+
+  const checkAny = (args: LuaValue[], i: number, name: string): LuaValue => {
+    if (i >= args.length) argError(i + 1, name, "value expected");
+    return args[i];
+  };
+
+  const makeString = (value: string): string => {
+    if (value.length > MAX_STRING) fail("string length overflow");
+    return interpreter.string(value);
+  };
+
+  // Pattern errors are script errors like any other
+  const withPatterns = <T>(run: () => T): T => {
+    try {
+      return run();
+    } catch (error) {
+      if (error instanceof PatternError) fail(error.message);
+      throw error;
+    }
+  };
+
+  const define = (table: LuaTable, name: string, fn: NativeFunction) =>
+    table.set(name, new LuaFunction(name, fn));
+
+  const library = (name: string, functions: Record<string, NativeFunction>) => {
+    const table = interpreter.newTable();
+    for (const [key, fn] of Object.entries(functions)) define(table, key, fn);
+    globals.set(name, table);
+    return table;
+  };
+
+  // Base library
+
+  const next: NativeFunction = (args) => {
+    const table = checkTable(args, 0, "next");
+    return table.next(args[1]) ?? [undefined];
+  };
+  const nextFunction = new LuaFunction("next", next);
+
+  const ipairsIterator = new LuaFunction("ipairs_iterator", (args) => {
+    const index = (args[1] as number) + 1;
+    const value = interpreter.index(args[0], index);
+    return value === undefined ? [undefined] : [index, value];
+  });
+
+  const unpack: NativeFunction = (args) => {
+    const table = checkTable(args, 0, "unpack");
+    const first = optInteger(args, 1, "unpack", 1);
+    const last = optInteger(args, 2, "unpack", interpreter.length(table));
+    if (last - first >= 8000) fail("too many results to unpack");
+    const values: LuaValue[] = [];
+    for (let i = first; i <= last; i++) values.push(table.get(i));
+    return values;
+  };
+
+  const load = (source: string, chunkName: string): LuaValue[] => {
+    if (options.load) return options.load(source, chunkName);
+    try {
+      const { chunk } = parse(fromByteString(source));
+      return [interpreter.load(chunk, chunkName)];
+    } catch (error) {
+      return [
+        undefined,
+        error instanceof Error ? error.message : String(error),
+      ];
+    }
+  };
+
+  const protect = (fn: LuaValue, args: LuaValue[], handler?: LuaValue) => {
+    try {
+      return [true, ...interpreter.call(fn, args)];
+    } catch (error) {
+      if (!(error instanceof LuaError)) throw error;
+      if (handler === undefined) return [false, error.value];
+      return [false, ...interpreter.call(handler, [error.value])];
+    }
+  };
+
+  const base: Record<string, NativeFunction> = {
+    assert: (args) => {
+      if (isTruthy(args[0])) return args;
+      if (args.length > 1) throw new LuaError(args[1]);
+      return fail("assertion failed!");
+    },
+    error: (args) => {
+      const [value, level] = args;
+      if (typeof value === "string" && level !== 0) {
+        throw new LuaError(interpreter.where() + value);
+      }
+      throw new LuaError(value);
+    },
+    getmetatable: (args) => {
+      const metatable =
+        args[0] instanceof LuaTable
+          ? args[0].metatable
+          : typeof args[0] === "string"
+            ? interpreter.stringMetatable
+            : null;
+      if (!metatable) return [undefined];
+      const locked = metatable.get("__metatable");
+      return [locked !== undefined ? locked : metatable];
+    },
+    setmetatable: (args) => {
+      const table = checkTable(args, 0, "setmetatable");
+      const metatable = args[1];
+      if (metatable !== undefined && !(metatable instanceof LuaTable)) {
+        argError(2, "setmetatable", "nil or table expected");
+      }
+      if (table.metatable?.get("__metatable") !== undefined) {
+        fail("cannot change a protected metatable");
+      }
+      table.metatable = (metatable as LuaTable | undefined) ?? null;
+      return [table];
+    },
+    ipairs: (args) => [ipairsIterator, checkAny(args, 0, "ipairs"), 0],
+    pairs: (args) => {
+      const table = checkAny(args, 0, "pairs");
+      const handler = interpreter.metamethod(table, "__pairs");
+      if (handler !== undefined) {
+        return interpreter.call(handler, [table]).slice(0, 3);
+      }
+      checkTable(args, 0, "pairs");
+      return [nextFunction, table, undefined];
+    },
+    next,
+    pcall: (args) => protect(args[0], args.slice(1)),
+    xpcall: (args) => protect(args[0], args.slice(2), args[1]),
+    print: (args) => {
+      options.print?.(args.map((arg) => interpreter.tostring(arg)).join("\t"));
+      return [];
+    },
+    rawequal: (args) => [args[0] === args[1]],
+    rawget: (args) => [checkTable(args, 0, "rawget").get(args[1])],
+    rawset: (args) => {
+      checkTable(args, 0, "rawset").set(args[1], args[2]);
+      return [args[0]];
+    },
+    rawlen: (args) => {
+      const value = args[0];
+      if (typeof value === "string") return [value.length];
+      return [checkTable(args, 0, "rawlen").length()];
+    },
+    select: (args) => {
+      const count = args.length - 1;
+      if (args[0] === "#") return [count];
+      const index = checkInteger(args, 0, "select");
+      if (index < 0) {
+        if (-index > count) argError(1, "select", "index out of range");
+        return args.slice(count + index + 1);
+      }
+      if (index === 0) argError(1, "select", "index out of range");
+      return args.slice(index);
+    },
+    tonumber: (args) => {
+      const [value, base] = args;
+      if (base === undefined) {
+        if (typeof value === "number") return [value];
+        return [typeof value === "string" ? stringToNumber(value) : undefined];
+      }
+      const radix = checkInteger(args, 1, "tonumber");
+      if (radix < 2 || radix > 36) argError(2, "tonumber", "base out of range");
+      const digits = checkString(args, 0, "tonumber").trim().toLowerCase();
+      const negative = digits.startsWith("-");
+      const body = negative ? digits.slice(1) : digits;
+      if (body.length === 0) return [undefined];
+      let result = 0;
+      for (const digit of body) {
+        const code = parseInt(digit, 36);
+        if (Number.isNaN(code) || code >= radix) return [undefined];
+        result = result * radix + code;
+      }
+      return [negative ? -result : result];
+    },
+    tostring: (args) => [
+      makeString(interpreter.tostring(checkAny(args, 0, "tostring"))),
+    ],
+    type: (args) => [typeOf(checkAny(args, 0, "type"))],
+    unpack,
+    // There's only the one environment
+    getfenv: () => [globals],
+    setfenv: (args) => [args[0]],
+    loadstring: (args) =>
+      load(
+        checkString(args, 0, "loadstring"),
+        typeof args[1] === "string" ? args[1] : "loadstring",
+      ),
+    load: (args) => {
+      let source = args[0];
+      // A reader function is called until it returns nothing
+      if (source instanceof LuaFunction) {
+        let pieces = "";
+        for (;;) {
+          const piece = interpreter.call(source, [])[0];
+          if (piece === undefined || piece === "") break;
+          if (typeof piece !== "string") {
+            return [undefined, "reader function must return a string"];
+          }
+          pieces = makeString(pieces + piece);
+        }
+        source = pieces;
+      }
+      return load(
+        checkString([source], 0, "load"),
+        typeof args[1] === "string" ? args[1] : "load",
+      );
+    },
+  };
+  for (const [name, fn] of Object.entries(base)) define(globals, name, fn);
+  globals.set("_G", globals);
+  globals.set("_VERSION", "Luau");
+
+  // string
+
+  // Lua's string positions: 1-based, negative from the end
+  const relative = (position: number, length: number) =>
+    position >= 0 ? position : Math.max(length + position + 1, 0);
+
+  const captureValue = (capture: Capture): LuaValue => capture;
+
+  const find = (args: LuaValue[], name: string, isFind: boolean) =>
+    withPatterns(() => {
+      const source = checkString(args, 0, name);
+      const pattern = checkString(args, 1, name);
+      let init = relative(optInteger(args, 2, name, 1), source.length);
+      if (init < 1) init = 1;
+      if (init > source.length + 1) return [undefined];
+      if (isFind && (isTruthy(args[3]) || !/[\^$*+?.()[\]%-]/.test(pattern))) {
+        const index = source.indexOf(pattern, init - 1);
+        return index < 0 ? [undefined] : [index + 1, index + pattern.length];
+      }
+      const match = findMatch(source, pattern, step, init - 1);
+      if (!match) return [undefined];
+      const captures = match.captures.map(captureValue);
+      if (isFind) return [match.start + 1, match.end, ...captures];
+      return captures.length > 0
+        ? captures
+        : [source.slice(match.start, match.end)];
+    });
+
+  const gsub: NativeFunction = (args) =>
+    withPatterns(() => {
+      const source = checkString(args, 0, "gsub");
+      const pattern = checkString(args, 1, "gsub");
+      const replacement = args[2];
+      const limit =
+        args[3] === undefined ? Infinity : checkInteger(args, 3, "gsub");
+      if (
+        typeof replacement !== "string" &&
+        typeof replacement !== "number" &&
+        !(replacement instanceof LuaTable) &&
+        !(replacement instanceof LuaFunction)
+      ) {
+        argError(3, "gsub", "string/function/table expected");
+      }
+      let out = "";
+      let last = 0;
+      let count = 0;
+      const matches = matchAll(source, pattern, step, 0, limit);
+      for (let found = matches.next(); !found.done; found = matches.next()) {
+        const match = found.value;
+        const whole = source.slice(match.start, match.end);
+        let value: LuaValue;
+        if (
+          typeof replacement === "string" ||
+          typeof replacement === "number"
+        ) {
+          const template =
+            typeof replacement === "number"
+              ? numberToString(replacement)
+              : replacement;
+          value = template.replace(/%(.)/g, (_, char: string) => {
+            if (char === "0") return whole;
+            if (char >= "1" && char <= "9") {
+              const capture = match.captures[Number(char) - 1];
+              if (capture === undefined) {
+                throw new PatternError(`invalid capture index %${char}`);
+              }
+              return typeof capture === "number"
+                ? numberToString(capture)
+                : capture;
+            }
+            if (char === "%") return "%";
+            throw new PatternError("invalid use of '%' in replacement string");
+          });
+        } else if (replacement instanceof LuaTable) {
+          value = interpreter.index(replacement, match.captures[0]);
+        } else {
+          value = interpreter.call(replacement, match.captures)[0];
+        }
+        out += source.slice(last, match.start);
+        if (value === undefined || value === false) {
+          out += whole;
+        } else if (typeof value === "string" || typeof value === "number") {
+          out += typeof value === "number" ? numberToString(value) : value;
+        } else {
+          fail(`invalid replacement value (a ${typeOf(value)})`);
+        }
+        if (out.length > MAX_STRING) fail("string length overflow");
+        last = match.end;
+        count++;
+      }
+      return [makeString(out + source.slice(last)), count];
+    });
+
+  const string = library("string", {
+    byte: (args) => {
+      const source = checkString(args, 0, "byte");
+      const first = relative(optInteger(args, 1, "byte", 1), source.length);
+      const last = relative(optInteger(args, 2, "byte", first), source.length);
+      const bytes: LuaValue[] = [];
+      for (
+        let i = Math.max(first, 1);
+        i <= Math.min(last, source.length);
+        i++
+      ) {
+        bytes.push(source.charCodeAt(i - 1));
+      }
+      return bytes;
+    },
+    char: (args) => {
+      let out = "";
+      args.forEach((_, i) => {
+        const code = checkInteger(args, i, "char");
+        if (code < 0 || code > 255)
+          argError(i + 1, "char", "value out of range");
+        out += String.fromCharCode(code);
+      });
+      return [makeString(out)];
+    },
+    find: (args) => find(args, "find", true),
+    format: (args) => [makeString(format(args))],
+    gmatch: (args) => {
+      const source = checkString(args, 0, "gmatch");
+      const pattern = checkString(args, 1, "gmatch");
+      const matches = matchAll(source, pattern, step);
+      return [
+        new LuaFunction("gmatch_iterator", () =>
+          withPatterns(() => {
+            const { value, done } = matches.next();
+            return done ? [undefined] : value.captures.map(captureValue);
+          }),
+        ),
+      ];
+    },
+    gsub,
+    len: (args) => [checkString(args, 0, "len").length],
+    lower: (args) => [makeString(checkString(args, 0, "lower").toLowerCase())],
+    match: (args) => find(args, "match", false),
+    rep: (args) => {
+      const source = checkString(args, 0, "rep");
+      const count = checkInteger(args, 1, "rep");
+      const separator =
+        args[2] === undefined ? "" : checkString(args, 2, "rep");
+      if (count <= 0) return [""];
+      if ((source.length + separator.length) * count > MAX_STRING) {
+        fail("string length overflow");
+      }
+      return [makeString(Array(count).fill(source).join(separator))];
+    },
+    reverse: (args) => [
+      makeString(checkString(args, 0, "reverse").split("").reverse().join("")),
+    ],
+    split: (args) => {
+      const source = checkString(args, 0, "split");
+      const separator =
+        args[1] === undefined ? "," : checkString(args, 1, "split");
+      const table = interpreter.newTable();
+      const parts =
+        separator === "" ? source.split("") : source.split(separator);
+      parts.forEach((part, i) => table.set(i + 1, makeString(part)));
+      return [table];
+    },
+    sub: (args) => {
+      const source = checkString(args, 0, "sub");
+      let first = relative(optInteger(args, 1, "sub", 1), source.length);
+      let last = relative(optInteger(args, 2, "sub", -1), source.length);
+      if (first < 1) first = 1;
+      if (last > source.length) last = source.length;
+      return [first > last ? "" : makeString(source.slice(first - 1, last))];
+    },
+    upper: (args) => [makeString(checkString(args, 0, "upper").toUpperCase())],
+  });
+  const stringMetatable = interpreter.newTable();
+  stringMetatable.set("__index", string);
+  interpreter.stringMetatable = stringMetatable;
+
+  // `%5.2f`-style directives, as `string.format` reads them
+  function format(args: LuaValue[]): string {
+    const template = checkString(args, 0, "format");
+    let argument = 1;
+    const nextArgument = () => {
+      if (argument >= args.length) {
+        argError(argument + 1, "format", "no value");
+      }
+      return argument++;
+    };
+    return template.replace(
+      /%([-+ #0]*)(\d*)(?:\.(\d*))?([diucxXoeEfgGqs%])/g,
+      (
+        _,
+        flags: string,
+        width: string,
+        precision: string | undefined,
+        kind: string,
+      ) => {
+        if (kind === "%") return "%";
+        const i = nextArgument();
+        let text: string;
+        switch (kind) {
+          case "d":
+          case "i":
+          case "u": {
+            const value = checkNumber(args, i, "format");
+            if (!Number.isInteger(value)) {
+              argError(i + 1, "format", "number has no integer representation");
+            }
+            text = Math.abs(value).toFixed(0);
+            if (precision !== undefined)
+              text = text.padStart(Number(precision), "0");
+            text = sign(value < 0, flags) + text;
+            break;
+          }
+          case "c":
+            text = String.fromCharCode(checkInteger(args, i, "format") & 0xff);
+            break;
+          case "x":
+          case "X":
+          case "o": {
+            const value = checkInteger(args, i, "format");
+            const radix = kind === "o" ? 8 : 16;
+            text = (value < 0 ? value + 2 ** 64 : value).toString(radix);
+            if (kind === "X") text = text.toUpperCase();
+            if (precision !== undefined)
+              text = text.padStart(Number(precision), "0");
+            if (flags.includes("#") && value !== 0) {
+              text = (kind === "o" ? "0" : kind === "x" ? "0x" : "0X") + text;
+            }
+            break;
+          }
+          case "e":
+          case "E":
+          case "f":
+          case "g":
+          case "G": {
+            const value = checkNumber(args, i, "format");
+            const digits = precision === undefined ? 6 : Number(precision || 0);
+            if (!Number.isFinite(value)) {
+              text = Number.isNaN(value) ? "nan" : "inf";
+            } else if (kind === "f") {
+              text = Math.abs(value).toFixed(digits);
+            } else if (kind === "e" || kind === "E") {
+              text = exponential(Math.abs(value).toExponential(digits));
+            } else {
+              text = general(
+                Math.abs(value),
+                digits === 0 ? 1 : digits,
+                flags.includes("#"),
+              );
+            }
+            if (kind === "E" || kind === "G") text = text.toUpperCase();
+            text = sign(value < 0 || Object.is(value, -0), flags) + text;
+            break;
+          }
+          case "q":
+            text = quote(checkString(args, i, "format"));
+            break;
+          default: {
+            text = interpreter.tostring(args[i]);
+            if (precision !== undefined)
+              text = text.slice(0, Number(precision));
+          }
+        }
+        const size = Number(width || 0);
+        if (text.length >= size) return text;
+        if (flags.includes("-")) return text.padEnd(size);
+        if (flags.includes("0") && !"csq".includes(kind)) {
+          const signLength = /^[-+ ]/.test(text) ? 1 : 0;
+          return (
+            text.slice(0, signLength) +
+            text.slice(signLength).padStart(size - signLength, "0")
+          );
+        }
+        return text.padStart(size);
+      },
+    );
+  }
+
+  // table
+
+  library("table", {
+    concat: (args) => {
+      const table = checkTable(args, 0, "concat");
+      const separator =
+        args[1] === undefined ? "" : checkString(args, 1, "concat");
+      const first = optInteger(args, 2, "concat", 1);
+      const last = optInteger(args, 3, "concat", table.length());
+      const parts: string[] = [];
+      let size = 0;
+      for (let i = first; i <= last; i++) {
+        const value = table.get(i);
+        if (typeof value !== "string" && typeof value !== "number") {
+          return fail(`invalid value (at index ${i}) in table for 'concat'`);
+        }
+        const part = typeof value === "number" ? numberToString(value) : value;
+        size += part.length + separator.length;
+        if (size > MAX_STRING) fail("string length overflow");
+        parts.push(part);
+        step();
+      }
+      return [makeString(parts.join(separator))];
+    },
+    insert: (args) => {
+      const table = checkTable(args, 0, "insert");
+      const length = table.length();
+      if (args.length === 2) {
+        table.set(length + 1, args[1]);
+        return [];
+      }
+      if (args.length !== 3) fail("wrong number of arguments to 'insert'");
+      const position = checkInteger(args, 1, "insert");
+      if (position < 1 || position > length + 1) {
+        argError(2, "insert", "position out of bounds");
+      }
+      for (let i = length; i >= position; i--) {
+        table.set(i + 1, table.get(i));
+        step();
+      }
+      table.set(position, args[2]);
+      return [];
+    },
+    remove: (args) => {
+      const table = checkTable(args, 0, "remove");
+      const length = table.length();
+      const position = optInteger(args, 1, "remove", length);
+      if (length === 0 && args[1] === undefined) return [undefined];
+      const removed = table.get(position);
+      for (let i = position; i < length; i++) {
+        table.set(i, table.get(i + 1));
+        step();
+      }
+      if (position <= length) table.set(length, undefined);
+      return [removed];
+    },
+    sort: (args) => {
+      const table = checkTable(args, 0, "sort");
+      const comparator = args[1];
+      const values: LuaValue[] = [];
+      for (let i = 1; i <= table.length(); i++) values.push(table.get(i));
+      values.sort((a, b) => {
+        step();
+        const less = (x: LuaValue, y: LuaValue) =>
+          comparator === undefined
+            ? interpreter.lessThan(x, y, false)
+            : isTruthy(interpreter.call(comparator, [x, y])[0]);
+        if (less(a, b)) return -1;
+        return less(b, a) ? 1 : 0;
+      });
+      values.forEach((value, i) => table.set(i + 1, value));
+      return [];
+    },
+    unpack,
+    pack: (args) => {
+      const table = interpreter.newTable();
+      args.forEach((value, i) => table.set(i + 1, value));
+      table.set("n", args.length);
+      return [table];
+    },
+    find: (args) => {
+      const table = checkTable(args, 0, "find");
+      for (let i = optInteger(args, 2, "find", 1); i <= table.length(); i++) {
+        step();
+        if (table.get(i) === args[1]) return [i];
+      }
+      return [undefined];
+    },
+    create: (args) => {
+      const count = checkInteger(args, 0, "create");
+      if (count > MAX_STRING) fail("table overflow");
+      const table = interpreter.newTable();
+      if (args[1] !== undefined) {
+        for (let i = 1; i <= count; i++) table.set(i, args[1]);
+      }
+      return [table];
+    },
+    clear: (args) => {
+      const table = checkTable(args, 0, "clear");
+      for (
+        let entry = table.next(undefined);
+        entry;
+        entry = table.next(entry[0])
+      ) {
+        table.set(entry[0], undefined);
+      }
+      return [];
+    },
+  });
+
+  // math
+
+  const random = createRandom(0);
+  const math = library("math", {
+    abs: (args) => [Math.abs(checkNumber(args, 0, "abs"))],
+    ceil: (args) => [Math.ceil(checkNumber(args, 0, "ceil"))],
+    floor: (args) => [Math.floor(checkNumber(args, 0, "floor"))],
+    fmod: (args) => [
+      checkNumber(args, 0, "fmod") % checkNumber(args, 1, "fmod"),
+    ],
+    modf: (args) => {
+      const value = checkNumber(args, 0, "modf");
+      const whole = value >= 0 ? Math.floor(value) : Math.ceil(value);
+      return [whole, Number.isFinite(value) ? value - whole : 0];
+    },
+    max: (args) => [
+      Math.max(...args.map((_, i) => checkNumber(args, i, "max"))),
+    ],
+    min: (args) => [
+      Math.min(...args.map((_, i) => checkNumber(args, i, "min"))),
+    ],
+    sqrt: (args) => [Math.sqrt(checkNumber(args, 0, "sqrt"))],
+    exp: (args) => [Math.exp(checkNumber(args, 0, "exp"))],
+    log: (args) => {
+      const value = checkNumber(args, 0, "log");
+      if (args[1] === undefined) return [Math.log(value)];
+      return [Math.log(value) / Math.log(checkNumber(args, 1, "log"))];
+    },
+    log10: (args) => [Math.log10(checkNumber(args, 0, "log10"))],
+    pow: (args) => [
+      Math.pow(checkNumber(args, 0, "pow"), checkNumber(args, 1, "pow")),
+    ],
+    sin: (args) => [Math.sin(checkNumber(args, 0, "sin"))],
+    cos: (args) => [Math.cos(checkNumber(args, 0, "cos"))],
+    tan: (args) => [Math.tan(checkNumber(args, 0, "tan"))],
+    asin: (args) => [Math.asin(checkNumber(args, 0, "asin"))],
+    acos: (args) => [Math.acos(checkNumber(args, 0, "acos"))],
+    atan: (args) => [Math.atan(checkNumber(args, 0, "atan"))],
+    atan2: (args) => [
+      Math.atan2(checkNumber(args, 0, "atan2"), checkNumber(args, 1, "atan2")),
+    ],
+    sign: (args) => [Math.sign(checkNumber(args, 0, "sign"))],
+    clamp: (args) => [
+      Math.min(
+        Math.max(checkNumber(args, 0, "clamp"), checkNumber(args, 1, "clamp")),
+        checkNumber(args, 2, "clamp"),
+      ),
+    ],
+    round: (args) => {
+      const value = checkNumber(args, 0, "round");
+      return [Math.sign(value) * Math.round(Math.abs(value))];
+    },
+    // Seeded, so runs are reproducible
+    random: (args) => {
+      const value = random();
+      if (args.length === 0) return [value];
+      const [low, high] =
+        args.length === 1
+          ? [1, checkInteger(args, 0, "random")]
+          : [checkInteger(args, 0, "random"), checkInteger(args, 1, "random")];
+      if (low > high) argError(args.length, "random", "interval is empty");
+      return [low + Math.floor(value * (high - low + 1))];
+    },
+    randomseed: () => [],
+  });
+  math.set("pi", Math.PI);
+  math.set("huge", Infinity);
+
+  // bit32, on unsigned 32-bit integers
+
+  const u32 = (args: LuaValue[], i: number, name: string) =>
+    (checkNumber(args, i, name) % 2 ** 32) >>> 0;
+  const fold =
+    (name: string, combine: (a: number, b: number) => number, start: number) =>
+    (args: LuaValue[]) => [
+      args.reduce<number>(
+        (result, _, i) => combine(result, u32(args, i, name)) >>> 0,
+        start,
+      ),
+    ];
+  const shift = (value: number, by: number) =>
+    by <= -32 || by >= 32 ? 0 : by >= 0 ? (value << by) >>> 0 : value >>> -by;
+  library("bit32", {
+    band: fold("band", (a, b) => a & b, 0xffffffff),
+    bor: fold("bor", (a, b) => a | b, 0),
+    bxor: fold("bxor", (a, b) => a ^ b, 0),
+    btest: (args) => [
+      fold("btest", (a, b) => a & b, 0xffffffff)(args)[0] !== 0,
+    ],
+    bnot: (args) => [~u32(args, 0, "bnot") >>> 0],
+    lshift: (args) => [
+      shift(u32(args, 0, "lshift"), checkInteger(args, 1, "lshift")),
+    ],
+    rshift: (args) => [
+      shift(u32(args, 0, "rshift"), -checkInteger(args, 1, "rshift")),
+    ],
+    arshift: (args) => {
+      const value = u32(args, 0, "arshift");
+      const by = checkInteger(args, 1, "arshift");
+      if (by < 0) return [shift(value, -by)];
+      return [by >= 32 ? (value >> 31) >>> 0 : (value >> by) >>> 0];
+    },
+    lrotate: (args) => {
+      const value = u32(args, 0, "lrotate");
+      const by = ((checkInteger(args, 1, "lrotate") % 32) + 32) % 32;
+      return [((value << by) | (value >>> (32 - by))) >>> 0];
+    },
+    rrotate: (args) => {
+      const value = u32(args, 0, "rrotate");
+      const by = ((checkInteger(args, 1, "rrotate") % 32) + 32) % 32;
+      return [((value >>> by) | (value << (32 - by))) >>> 0];
+    },
+    extract: (args) => {
+      const value = u32(args, 0, "extract");
+      const field = checkInteger(args, 1, "extract");
+      const width = optInteger(args, 2, "extract", 1);
+      if (field < 0 || width < 1 || field + width > 32) {
+        fail("trying to access non-existent bits");
+      }
+      return [
+        (value >>> field) & (width === 32 ? 0xffffffff : (1 << width) - 1),
+      ];
+    },
+    replace: (args) => {
+      const value = u32(args, 0, "replace");
+      const replacement = u32(args, 1, "replace");
+      const field = checkInteger(args, 2, "replace");
+      const width = optInteger(args, 3, "replace", 1);
+      if (field < 0 || width < 1 || field + width > 32) {
+        fail("trying to access non-existent bits");
+      }
+      const mask = (width === 32 ? 0xffffffff : (1 << width) - 1) << field;
+      return [((value & ~mask) | ((replacement << field) & mask)) >>> 0];
+    },
+  });
+
+  // os, without anything that touches the machine
+
+  library("os", {
+    time: () => [Math.floor(Date.now() / 1000)],
+    clock: () => [process.cpuUsage().user / 1e6],
+  });
+
+  library("utf8", {
+    char: (args) => {
+      const text = String.fromCodePoint(
+        ...args.map((_, i) => checkInteger(args, i, "char")),
+      );
+      return [makeString(Buffer.from(text, "utf8").toString("latin1"))];
+    },
+  });
+
+  // coroutine and debug, which can't be run here: a coroutine has to
+  // suspend the interpreter mid-call, and it runs on the JavaScript stack
+
+  const unsupported = (name: string, functions: string[]) =>
+    library(
+      name,
+      Object.fromEntries(
+        functions.map((key): [string, NativeFunction] => [
+          key,
+          () => {
+            throw new UnsupportedError(
+              `${name}.${key} isn't supported in the sandbox`,
+            );
+          },
+        ]),
+      ),
+    );
+  unsupported("coroutine", [
+    "create",
+    "resume",
+    "yield",
+    "status",
+    "wrap",
+    "running",
+    "isyieldable",
+    "close",
+  ]);
+  unsupported("debug", ["traceback", "info", "getinfo"]);
+}
+
+function describe(value: LuaValue): string {
+  return value === undefined ? "no value" : typeOf(value);
+}
+
+function sign(negative: boolean, flags: string): string {
+  if (negative) return "-";
+  if (flags.includes("+")) return "+";
+  return flags.includes(" ") ? " " : "";
+}
+
+// C prints at least two exponent digits: `1e+05`
+function exponential(text: string): string {
+  return text.replace(/e([+-])(\d)$/, "e$10$2");
+}
+
+// `%g`: the shorter of `%e` and `%f`, without trailing zeros
+function general(value: number, precision: number, keepZeros: boolean): string {
+  const exponent = value === 0 ? 0 : Math.floor(Math.log10(value));
+  let text =
+    exponent < -4 || exponent >= precision
+      ? exponential(value.toExponential(precision - 1))
+      : value.toFixed(Math.max(precision - 1 - exponent, 0));
+  if (!keepZeros && text.includes(".")) {
+    text = text.replace(/\.?0+(?=e|$)/, "");
+  }
+  return text;
+}
+
+// `%q`: a literal that reads back as the same string
+function quote(value: string): string {
+  let out = '"';
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    const code = value.charCodeAt(i);
+    if (char === '"' || char === "\\") out += "\\" + char;
+    else if (char === "\n") out += "\\n";
+    else if (char === "\r") out += "\\r";
+    else if (code === 0) {
+      out += /\d/.test(value[i + 1] ?? "") ? "\\000" : "\\0";
+    } else out += char;
+  }
+  return out + '"';
+}
@@ -0,0 +1,252 @@
+import {
+  collectBlocks,
+  transformExpressions,
+  walk,
+  type Chunk,
+  type Expression,
+  type FunctionDeclaration,
+  type FunctionExpression,
+  type Identifier,
+  type Statement,
+} from "./ast";
+import * as b from "./builders";
+import { fromByteString, toByteString } from "./lexer";
+import { analyzeScopes, type Binding } from "./scope";
+
+// Escapes that hide which character is meant, unlike `\n` or `\"`
+const CODE_ESCAPE = /\\(\d|x[0-9a-fA-F]|u\{)/;
+
+// Text a reader can make sense of: valid UTF-8 with no control characters
+// besides line breaks and tabs
+function isReadable(value: string): boolean {
+  const text = fromByteString(value);
+  return (
+    toByteString(text) === value &&
+    !/[\x00-\x08\x0b\x0c\x0e-\x1f\x7f]/.test(text)
+  );
+}
+
+type Decoder = (input: string) => string | null;
+
+function base64Decoder(alphabet: string): Decoder {
+  return (input) => {
+    const digits = input.replace(/=+$/, "");
+    if (digits.length % 4 === 1) return null;
+    let bits = 0;
+    let width = 0;
+    let out = "";
+    for (const char of digits) {
+      const digit = alphabet.indexOf(char);
+      if (digit < 0) return null;
+      bits = (bits << 6) | digit;
+      width += 6;
+      if (width >= 8) {
+        width -= 8;
+        out += String.fromCharCode((bits >> width) & 0xff);
+        bits &= (1 << width) - 1;
+      }
+    }
+    return out;
+  };
+}
+
+const reverseDecoder: Decoder = (input) => Array.from(input).reverse().join("");
+
+type DecoderFunction = FunctionDeclaration | FunctionExpression;
+
+function isBase64Alphabet(value: string): boolean {
+  return (
+    value.length === 64 && new Set(value).size === 64 && !value.includes("=")
+  );
+}
+
+interface DecoderContext {
+  isGlobal: (identifier: Identifier) => boolean;
+  // The string a local always holds, if it's one that never changes
+  constantOf: (identifier: Identifier) => string | null;
+}
+
+/**
+ * Recognize the decoders obfuscators paste in front of their strings:
+ * base64 with any 64-character alphabet, written in the function or held in
+ * a local it uses, and `s:reverse()` wrappers. Both take the encoded string
+ * as their only parameter.
+ */
+function recognizeDecoder(
+  fn: DecoderFunction,
+  { isGlobal, constantOf }: DecoderContext,
+): Decoder | null {
+  if (fn.parameters.length !== 1 || fn.isVararg) return null;
+  const [parameter] = fn.parameters;
+
+  const [statement] = fn.body;
+  if (fn.body.length === 1 && statement.type === "ReturnStatement") {
+    const [result] = statement.arguments;
+    const isParameter = (node: Expression | undefined) =>
+      node?.type === "Identifier" && node.name === parameter.name;
+    if (
+      statement.arguments.length === 1 &&
+      result.type === "CallExpression" &&
+      result.base.type === "MemberExpression" &&
+      result.base.identifier.name === "reverse" &&
+      ((result.base.indexer === ":" &&
+        isParameter(result.base.base) &&
+        result.arguments.length === 0) ||
+        (result.base.indexer === "." &&
+          result.base.base.type === "Identifier" &&
+          result.base.base.name === "string" &&
+          isGlobal(result.base.base) &&
+          result.arguments.length === 1 &&
+          isParameter(result.arguments[0])))
+    ) {
+      return reverseDecoder;
+    }
+  }
+
+  let alphabet = null as string | null;
+  walk(fn, (node) => {
+    const value =
+      node.type === "StringLiteral"
+        ? node.value
+        : node.type === "Identifier"
+          ? constantOf(node)
+          : null;
+    if (value !== null && isBase64Alphabet(value)) alphabet = value;
+  });
+  return alphabet === null ? null : base64Decoder(alphabet);
+}
+
+interface DecoderBinding {
+  decode: Decoder;
+  statement: Statement;
+  calls: number;
+}
+
+/**
+ * Turn hidden strings back into plain literals. Decimal, hex and `\u{...}`
+ * escapes that spell out readable text are printed as that text, and calls
+ * to a recognized local decoder with a literal argument are replaced by
+ * their result. Decoders left with no callers are removed. Returns how many
+ * strings were decoded.
+ */
+export function decodeStrings(chunk: Chunk): number {
+  let decoded = 0;
+
+  walk(chunk, (node) => {
+    if (
+      node.type === "StringLiteral" &&
+      node.raw &&
+      !node.raw.startsWith("[") &&
+      CODE_ESCAPE.test(node.raw) &&
+      isReadable(node.value)
+    ) {
+      // The printer quotes literals without a raw spelling itself
+      node.raw = undefined;
+      decoded++;
+    }
+  });
+
+  const analysis = analyzeScopes(chunk);
+
+  // A decoder that is assigned to later might not be one when it's called
+  const reassigned = new Set<Binding>();
+  walk(chunk, (node) => {
+    const targets =
+      node.type === "AssignmentStatement"
+        ? node.variables
+        : node.type === "CompoundAssignmentStatement"
+          ? [node.variable]
+          : [];
+    for (const target of targets) {
+      const binding =
+        target.type === "Identifier" && analysis.resolved.get(target);
+      if (binding) reassigned.add(binding);
+    }
+  });
+
+  const constants = new Map<Binding, string>();
+  walk(chunk, (node) => {
+    if (node.type !== "LocalStatement") return;
+    node.variables.forEach((variable, index) => {
+      const init = node.init[index];
+      const binding = analysis.resolved.get(variable);
+      if (
+        init?.type === "StringLiteral" &&
+        binding &&
+        !reassigned.has(binding)
+      ) {
+        constants.set(binding, init.value);
+      }
+    });
+  });
+  const context: DecoderContext = {
+    isGlobal: (identifier) => !analysis.resolved.has(identifier),
+    constantOf: (identifier) => {
+      const binding = analysis.resolved.get(identifier);
+      return (binding && constants.get(binding)) ?? null;
+    },
+  };
+
+  const decoders = new Map<Binding, DecoderBinding>();
+  for (const block of collectBlocks(chunk)) {
+    for (const statement of block) {
+      let name: Identifier | null = null;
+      let fn: DecoderFunction | null = null;
+      if (
+        statement.type === "FunctionDeclaration" &&
+        statement.isLocal &&
+        statement.identifier.type === "Identifier"
+      ) {
+        name = statement.identifier;
+        fn = statement;
+      } else if (
+        statement.type === "LocalStatement" &&
+        statement.variables.length === 1 &&
+        statement.init.length === 1 &&
+        statement.init[0].type === "FunctionExpression"
+      ) {
+        name = statement.variables[0];
+        fn = statement.init[0];
+      }
+      const binding = name && analysis.resolved.get(name);
+      if (!fn || !binding || reassigned.has(binding)) continue;
+      const decode = recognizeDecoder(fn, context);
+      if (decode) decoders.set(binding, { decode, statement, calls: 0 });
+    }
+  }
+  if (decoders.size === 0) return decoded;
+
+  transformExpressions(chunk, (expression) => {
+    if (
+      expression.type !== "CallExpression" ||
+      expression.base.type !== "Identifier" ||
+      expression.arguments.length !== 1 ||
+      expression.arguments[0].type !== "StringLiteral"
+    ) {
+      return expression;
+    }
+    const binding = analysis.resolved.get(expression.base);
+    const decoder = binding && decoders.get(binding);
+    if (!decoder) return expression;
+    const result = decoder.decode(expression.arguments[0].value);
+    // Text that doesn't read as text means the guess about the decoder was
+    // wrong, so the call stays
+    if (result === null || !isReadable(result)) return expression;
+    decoder.calls++;
+    decoded++;
+    return b.string(result);
+  });
+
+  const unused = new Set<Statement>();
+  decoders.forEach((decoder, binding) => {
+    if (decoder.calls === binding.references.length) {
+      unused.add(decoder.statement);
+    }
+  });
+  for (const block of collectBlocks(chunk)) {
+    for (let i = block.length - 1; i >= 0; i--) {
+      if (unused.has(block[i])) block.splice(i, 1);
+    }
+  }
+  return decoded;
+}
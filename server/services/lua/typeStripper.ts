@@ -0,0 +1,37 @@
+import { collectBlocks, transformExpressions, walk, type Chunk } from "./ast";
+import * as b from "./builders";
+
+/**
+ * Remove every Luau type annotation so the output reads as plain Lua:
+ * declaration and signature annotations, generics, `type` aliases and `::`
+ * assertions.
+ */
+export function stripTypeAnnotations(chunk: Chunk): void {
+  transformExpressions(chunk, (expression) => {
+    if (expression.type !== "TypeAssertionExpression") return expression;
+    const inner = expression.expression;
+    // An assertion truncates a call or `...` to one value; keep that
+    return inner.type === "CallExpression" || inner.type === "VarargLiteral"
+      ? b.paren(inner)
+      : inner;
+  });
+
+  walk(chunk, (node) => {
+    if (node.type === "Identifier") {
+      delete node.typeAnnotation;
+    } else if (
+      node.type === "FunctionDeclaration" ||
+      node.type === "FunctionExpression"
+    ) {
+      delete node.typeParameters;
+      delete node.varargAnnotation;
+      delete node.returnType;
+    }
+  });
+
+  for (const block of collectBlocks(chunk)) {
+    for (let i = block.length - 1; i >= 0; i--) {
+      if (block[i].type === "TypeAliasStatement") block.splice(i, 1);
+    }
+  }
+}
@@ -0,0 +1,429 @@
+import {
+  collectBlocks,
+  walk,
+  type Chunk,
+  type Expression,
+  type IfStatement,
+  type Node,
+  type Statement,
+  type WhileStatement,
+} from "./ast";
+import * as b from "./builders";
+import { evaluateConstant } from "./deadCode";
+import { analyzeScopes, type Binding, type ScopeAnalysis } from "./scope";
+
+type Transition =
+  | { kind: "goto"; target: number }
+  | { kind: "branch"; condition: Expression; then: number; else: number }
+  | { kind: "return" };
+
+interface DispatchBlock {
+  statements: Statement[];
+  transition: Transition;
+}
+
+// The dispatcher doesn't have the shape the structurer can rebuild
+class Unstructured extends Error {}
+
+function mentions(node: Node, state: Binding, analysis: ScopeAnalysis) {
+  let found = false;
+  walk(node, (current) => {
+    if (
+      current.type === "Identifier" &&
+      analysis.resolved.get(current) === state
+    ) {
+      found = true;
+    }
+  });
+  return found;
+}
+
+// `state == 123` or `123 == state`, with either comparison operator
+function stateComparison(
+  condition: Expression,
+  operator: "==" | "~=",
+  isState: (node: Expression) => boolean,
+): number | null {
+  if (
+    condition.type !== "BinaryExpression" ||
+    condition.operator !== operator
+  ) {
+    return null;
+  }
+  const { left, right } = condition;
+  if (isState(left) && right.type === "NumericLiteral") return right.value;
+  if (isState(right) && left.type === "NumericLiteral") return left.value;
+  return null;
+}
+
+/**
+ * Split a dispatcher branch into its own statements and where it goes next:
+ * the one statement that sets the state, or a closing `return`. Nothing else
+ * in the branch may touch the state.
+ */
+function readBlock(
+  body: Statement[],
+  value: number,
+  state: Binding,
+  analysis: ScopeAnalysis,
+): DispatchBlock {
+  const isState = (node: Expression) =>
+    node.type === "Identifier" && analysis.resolved.get(node) === state;
+  // Relative transitions (`state = state + 12`) add to the branch's value
+  const target = (statement: Statement): number | null => {
+    if (
+      statement.type !== "AssignmentStatement" ||
+      statement.variables.length !== 1 ||
+      statement.init.length !== 1 ||
+      !isState(statement.variables[0])
+    ) {
+      return null;
+    }
+    const result = evaluateConstant(statement.init[0], (node) =>
+      isState(node) ? value : undefined,
+    );
+    return typeof result === "number" ? result : null;
+  };
+
+  const touching = body.flatMap((statement, index) =>
+    mentions(statement, state, analysis) ? [index] : [],
+  );
+  for (const statement of body) {
+    if (
+      statement.type === "LocalStatement" ||
+      (statement.type === "FunctionDeclaration" && statement.isLocal)
+    ) {
+      throw new Unstructured();
+    }
+  }
+
+  if (touching.length === 0) {
+    if (body[body.length - 1]?.type !== "ReturnStatement") {
+      throw new Unstructured();
+    }
+    return { statements: body, transition: { kind: "return" } };
+  }
+  if (touching.length > 1) throw new Unstructured();
+
+  const index = touching[0];
+  const statement = body[index];
+  const statements = body.filter((_, i) => i !== index);
+  const next = target(statement);
+  // The state is only read by the dispatcher, so statements after the
+  // assignment can run before it just the same
+  if (next !== null) {
+    return { statements, transition: { kind: "goto", target: next } };
+  }
+  if (
+    statement.type === "IfStatement" &&
+    index === body.length - 1 &&
+    statement.clauses.length === 1 &&
+    statement.clauses[0].body.length === 1 &&
+    statement.orelse?.length === 1
+  ) {
+    const [clause] = statement.clauses;
+    const then = target(clause.body[0]);
+    const otherwise = target(statement.orelse[0]);
+    if (
+      then !== null &&
+      otherwise !== null &&
+      !mentions(clause.condition, state, analysis)
+    ) {
+      return {
+        statements,
+        transition: {
+          kind: "branch",
+          condition: clause.condition,
+          then,
+          else: otherwise,
+        },
+      };
+    }
+  }
+  throw new Unstructured();
+}
+
+/**
+ * Rebuilds structured code from a dispatcher's blocks. Blocks are numbered
+ * by state value; `exit` stands for leaving the dispatcher, by `return` or
+ * by reaching the finished state.
+ */
+class Structurer {
+  private readonly exit = Number.NaN;
+  private readonly successors = new Map<number, number[]>();
+  private readonly postDominators = new Map<number, Set<number>>();
+  private readonly emitted = new Set<number>();
+
+  constructor(
+    private readonly blocks: Map<number, DispatchBlock>,
+    entry: number,
+    private readonly finished: number,
+  ) {
+    const pending = [entry];
+    while (pending.length > 0) {
+      const node = pending.pop()!;
+      if (this.successors.has(node)) continue;
+      const successors = this.next(node);
+      this.successors.set(node, successors);
+      pending.push(...successors.filter((s) => !Number.isNaN(s)));
+    }
+    this.computePostDominators();
+  }
+
+  get recovered(): number {
+    return this.emitted.size;
+  }
+
+  private next(node: number): number[] {
+    if (node === this.finished) return [this.exit];
+    const block = this.blocks.get(node);
+    if (!block) throw new Unstructured();
+    const { transition } = block;
+    switch (transition.kind) {
+      case "goto":
+        return [transition.target];
+      case "branch":
+        return [transition.then, transition.else];
+      case "return":
+        return [this.exit];
+    }
+  }
+
+  private computePostDominators(): void {
+    const nodes = Array.from(this.successors.keys());
+    const all = new Set([...nodes, this.exit]);
+    for (const node of nodes) this.postDominators.set(node, new Set(all));
+    this.postDominators.set(this.exit, new Set([this.exit]));
+    for (let changed = true; changed;) {
+      changed = false;
+      for (const node of nodes) {
+        const sets = this.successors
+          .get(node)!
+          .map((successor) => this.postDominators.get(successor)!);
+        const next = new Set(
+          Array.from(sets[0]).filter((n) => sets.every((set) => set.has(n))),
+        );
+        next.add(node);
+        if (next.size !== this.postDominators.get(node)!.size) {
+          this.postDominators.set(node, next);
+          changed = true;
+        }
+      }
+    }
+  }
+
+  // The closest node every path from `node` passes through
+  private join(node: number): number {
+    let best = this.exit;
+    let bestSize = 0;
+    for (const candidate of Array.from(this.postDominators.get(node)!)) {
+      if (candidate === node) continue;
+      const size = this.postDominators.get(candidate)!.size;
+      if (size > bestSize) {
+        best = candidate;
+        bestSize = size;
+      }
+    }
+    return best;
+  }
+
+  // Whether `to` can be reached from `from` without passing `barriers`
+  private reaches(from: number, to: number, barriers: number[]): boolean {
+    const seen = new Set<number>();
+    const pending = [from];
+    while (pending.length > 0) {
+      const node = pending.pop()!;
+      if (node === to) return true;
+      if (seen.has(node) || barriers.includes(node)) continue;
+      seen.add(node);
+      pending.push(...(this.successors.get(node) ?? []));
+    }
+    return false;
+  }
+
+  // Statements for the path from `start` up to `join`, inside `loops`
+  emit(start: number, join: number, loops: number[] = []): Statement[] {
+    const out: Statement[] = [];
+    const loop = loops[loops.length - 1];
+    let current = start;
+    while (!Object.is(current, join) && !Number.isNaN(current)) {
+      if (current === loop) break;
+      // Leaving the dispatcher from inside a loop would need a `break`
+      if (current === this.finished) {
+        if (loop !== undefined) throw new Unstructured();
+        break;
+      }
+      if (this.emitted.has(current)) throw new Unstructured();
+      this.emitted.add(current);
+
+      const block = this.blocks.get(current)!;
+      const { transition } = block;
+      if (transition.kind === "branch" && this.isLoop(current, loops)) {
+        if (block.statements.length > 0) throw new Unstructured();
+        const bodyFirst = this.reaches(transition.then, current, loops);
+        const body = bodyFirst ? transition.then : transition.else;
+        const condition = bodyFirst
+          ? transition.condition
+          : b.unary("not", b.paren(transition.condition));
+        out.push({
+          type: "WhileStatement",
+          condition,
+          body: this.emit(body, current, [...loops, current]),
+        } satisfies WhileStatement);
+        current = bodyFirst ? transition.else : transition.then;
+        continue;
+      }
+
+      out.push(...block.statements);
+      if (transition.kind === "return") return out;
+      if (transition.kind === "goto") {
+        current = transition.target;
+        continue;
+      }
+
+      const after = this.join(current);
+      if (
+        loop !== undefined &&
+        after !== loop &&
+        !Number.isNaN(after) &&
+        !this.reaches(after, loop, loops.slice(0, -1))
+      ) {
+        throw new Unstructured();
+      }
+      out.push(
+        ...this.conditional(
+          transition.condition,
+          this.emit(transition.then, after, loops),
+          this.emit(transition.else, after, loops),
+        ),
+      );
+      current = after;
+    }
+    return out;
+  }
+
+  private isLoop(node: number, loops: number[]): boolean {
+    return (this.successors.get(node) ?? []).some((successor) =>
+      this.reaches(successor, node, loops),
+    );
+  }
+
+  private conditional(
+    condition: Expression,
+    then: Statement[],
+    otherwise: Statement[],
+  ): Statement[] {
+    if (then.length === 0 && otherwise.length > 0) {
+      return this.conditional(
+        b.unary("not", b.paren(condition)),
+        otherwise,
+        then,
+      );
+    }
+    // Code after a branch that always returns needn't sit in an `else`
+    if (then[then.length - 1]?.type === "ReturnStatement") {
+      return [this.ifStatement(condition, then, null), ...otherwise];
+    }
+    return [
+      this.ifStatement(condition, then, otherwise.length ? otherwise : null),
+    ];
+  }
+
+  // `else if` chains read back as `elseif`
+  private ifStatement(
+    condition: Expression,
+    then: Statement[],
+    otherwise: Statement[] | null,
+  ): IfStatement {
+    const clause = { type: "IfClause" as const, condition, body: then };
+    const [nested] = otherwise ?? [];
+    if (otherwise?.length === 1 && nested.type === "IfStatement") {
+      return {
+        type: "IfStatement",
+        clauses: [clause, ...nested.clauses],
+        orelse: nested.orelse,
+      };
+    }
+    return { type: "IfStatement", clauses: [clause], orelse: otherwise };
+  }
+}
+
+/**
+ * Rebuild the statements a `local state = ...; while state ~= done do if
+ * state == a then ... elseif ... end end` dispatcher runs, or null if this
+ * isn't one.
+ */
+function unflattenDispatcher(
+  declaration: Statement,
+  loop: Statement | undefined,
+  analysis: ScopeAnalysis,
+): { statements: Statement[]; recovered: number } | null {
+  if (
+    declaration.type !== "LocalStatement" ||
+    declaration.variables.length !== 1 ||
+    declaration.init.length !== 1 ||
+    declaration.init[0].type !== "NumericLiteral" ||
+    loop?.type !== "WhileStatement" ||
+    loop.body.length !== 1 ||
+    loop.body[0].type !== "IfStatement" ||
+    loop.body[0].orelse
+  ) {
+    return null;
+  }
+  const state = analysis.resolved.get(declaration.variables[0]);
+  if (!state) return null;
+  const isState = (node: Expression) =>
+    node.type === "Identifier" && analysis.resolved.get(node) === state;
+
+  // The state has to be private to the loop
+  const inside = new Set<Node>();
+  walk(loop, (node) => {
+    inside.add(node);
+  });
+  if (!state.references.every((reference) => inside.has(reference))) {
+    return null;
+  }
+
+  const finished = stateComparison(loop.condition, "~=", isState);
+  if (finished === null) return null;
+  const branches = new Map<number, Statement[]>();
+  for (const clause of loop.body[0].clauses) {
+    const value = stateComparison(clause.condition, "==", isState);
+    if (value === null || branches.has(value)) return null;
+    branches.set(value, clause.body);
+  }
+
+  try {
+    const blocks = new Map<number, DispatchBlock>();
+    branches.forEach((body, value) => {
+      blocks.set(value, readBlock(body, value, state, analysis));
+    });
+    const entry = declaration.init[0].value;
+    const structurer = new Structurer(blocks, entry, finished);
+    const statements = structurer.emit(entry, finished);
+    return { statements, recovered: structurer.recovered };
+  } catch (error) {
+    if (error instanceof Unstructured) return null;
+    throw error;
+  }
+}
+
+/**
+ * Undo control flow flattening: find state-machine dispatcher loops, follow
+ * the state from block to block, and rebuild the `if`s and `while`s they
+ * came from. Unreachable decoy blocks are dropped. Returns how many blocks
+ * were recovered.
+ */
+export function unflattenControlFlow(chunk: Chunk): number {
+  const analysis = analyzeScopes(chunk);
+  let recovered = 0;
+  for (const block of collectBlocks(chunk)) {
+    for (let i = block.length - 2; i >= 0; i--) {
+      const result = unflattenDispatcher(block[i], block[i + 1], analysis);
+      if (!result) continue;
+      block.splice(i, 2, ...result.statements);
+      recovered += result.recovered;
+    }
+  }
+  return recovered;
+}
@@ -0,0 +1,87 @@
+import { Budget, Interpreter } from "./interpreter";
+import { fromByteString } from "./lexer";
+import { parse } from "./parser";
+import { analyzeScopes } from "./scope";
+import { installStandardLibrary } from "./stdlib";
+
+export interface UnpackOptions {
+  maxLayers?: number;
+  // Shared by all the layers: interpreter steps, bytes allocated and
+  // milliseconds. The time limit keeps a request from being held up for
+  // long however many layers there are.
+  maxSteps?: number;
+  maxMemory?: number;
+  maxTime?: number;
+}
+
+// Thrown from inside the sandbox to stop it once the next layer is known
+class LayerFound extends Error {
+  constructor(readonly source: string) {
+    super("layer found");
+  }
+}
+
+// Run a chunk until it hands a string to `loadstring` or `load`. Returns
+// that string, or null if the chunk finished or failed without doing so.
+function captureLoad(source: string, budget: Budget): string | null {
+  let chunk;
+  try {
+    chunk = parse(source).chunk;
+  } catch {
+    return null;
+  }
+  const { globals } = analyzeScopes(chunk);
+  if (!globals.has("loadstring") && !globals.has("load")) return null;
+
+  const interpreter = new Interpreter({ budget });
+  installStandardLibrary(interpreter, {
+    load: (loaded) => {
+      throw new LayerFound(loaded);
+    },
+  });
+  try {
+    interpreter.call(interpreter.load(chunk), []);
+  } catch (error) {
+    if (error instanceof LayerFound) return error.source;
+    // Anything else, the limits included, means this layer can't be
+    // unpacked here; it's left for the static passes
+  }
+  return null;
+}
+
+/**
+ * Peel `loadstring(<decoder>(...))()` wrappers by running each layer in a
+ * sandboxed interpreter and taking the first string it hands to
+ * `loadstring` or `load` as the next layer. Stops at source that doesn't
+ * load anything, can't be run without the outside world, or isn't Lua
+ * text (precompiled bytecode, say). Returns the layers found, outermost
+ * first; the input itself is not included.
+ */
+export function unpackLayers(
+  source: string,
+  options: UnpackOptions = {},
+): string[] {
+  const {
+    maxLayers = 16,
+    maxSteps = 5_000_000,
+    maxMemory = 32 * 1024 * 1024,
+    maxTime = 2_000,
+  } = options;
+  const budget = new Budget(maxSteps, maxMemory, maxTime);
+  const layers: string[] = [];
+  let current = source;
+  while (layers.length < maxLayers) {
+    const loaded = captureLoad(current, budget);
+    if (loaded === null) break;
+    const next = fromByteString(loaded);
+    if (next === current) break;
+    try {
+      parse(next);
+    } catch {
+      break;
+    }
+    layers.push(next);
+    current = next;
+  }
+  return layers;
+}
@@ -0,0 +1,242 @@
+import {
+  Budget,
+  ExecutionLimitError,
+  Interpreter,
+  LuaError,
+  LuaTable,
+  UnsupportedError,
+  type LuaValue,
+} from "./interpreter";
+import { parse } from "./parser";
+import { installRobloxStubs } from "./robloxStubs";
+import { installStandardLibrary } from "./stdlib";
+
+export type HarnessValue = string | number | boolean;
+
+export interface Harness {
+  // Passed to the script as `...`
+  inputs?: HarnessValue[];
+  // Set as globals before the script runs, over the Roblox stand-ins
+  globals?: Record<string, HarnessValue>;
+}
+
+export interface Divergence {
+  // Which observation differs: a line of output, what the script returned
+  // or the error it stopped with
+  kind: "output" | "return" | "error";
+  // Position of the line, for output
+  index?: number;
+  // What the original did and what the output did, normalized; null when
+  // that run has nothing there
+  expected: string | null;
+  actual: string | null;
+}
+
+export interface VerificationResult {
+  // "inconclusive" when the original itself couldn't be run to the end
+  verdict: "pass" | "fail" | "inconclusive";
+  divergence: Divergence | null;
+  // How much of the original's behavior was compared
+  outputLines: number;
+  message: string;
+}
+
+interface Observations {
+  output: string[];
+  // Exactly one of these three is set
+  returned: string | null;
+  error: string | null;
+  // The run was stopped by a limit or never started
+  aborted: string | null;
+  // Whether the sandbox stopped it, for a limit or for something it can't
+  // run, rather than it never parsing
+  limited: boolean;
+}
+
+export interface VerifyOptions {
+  // Steps, memory and milliseconds for the original. Transformed code, a
+  // virtualized build especially, takes more steps for the same work, so
+  // it's given `overhead` times as many steps, and twice the memory and
+  // time. The time limit keeps a request from being held up for long.
+  maxSteps?: number;
+  maxMemory?: number;
+  maxTime?: number;
+  overhead?: number;
+}
+
+// Runs differ in where the code is and which variables hold what, so error
+// positions, variable names in messages and table addresses are dropped
+function normalize(text: string): string {
+  return text
+    .replace(/[\w.[\]"]+:\d+: /g, "")
+    .replace(/ \((?:global|local|upvalue|field|method) '[^']*'\)/g, "")
+    .replace(/\b(table|function): 0x[0-9a-f]+/g, "$1: <address>");
+}
+
+function observe(
+  source: string,
+  harness: Harness,
+  budget: Budget,
+): Observations {
+  const observations: Observations = {
+    output: [],
+    returned: null,
+    error: null,
+    aborted: null,
+    limited: false,
+  };
+  let chunk;
+  try {
+    chunk = parse(source).chunk;
+  } catch (error) {
+    observations.aborted = `Parse error: ${error instanceof Error ? error.message : String(error)}`;
+    return observations;
+  }
+
+  const interpreter = new Interpreter({
+    budget,
+    chunkName: "script",
+  });
+  installStandardLibrary(interpreter, {
+    print: (line) => observations.output.push(normalize(line)),
+  });
+  installRobloxStubs(interpreter, {
+    warn: (line) => observations.output.push(`[warn] ${normalize(line)}`),
+  });
+  for (const [name, value] of Object.entries(harness.globals ?? {})) {
+    interpreter.globals.set(name, value);
+  }
+
+  const describe = (value: LuaValue) =>
+    typeof value === "string"
+      ? JSON.stringify(value)
+      : normalize(interpreter.tostring(value));
+  try {
+    const values = interpreter.call(
+      interpreter.load(chunk),
+      harness.inputs ?? [],
+    );
+    observations.returned = values.map(describe).join(", ");
+  } catch (error) {
+    if (error instanceof LuaError) {
+      observations.error =
+        error.value instanceof LuaTable
+          ? describe(error.value)
+          : normalize(interpreter.tostring(error.value));
+    } else if (
+      error instanceof ExecutionLimitError ||
+      error instanceof UnsupportedError
+    ) {
+      observations.aborted = error.message;
+      observations.limited = true;
+    } else if (error instanceof RangeError) {
+      // The host stack ran out before the interpreter's own depth limit
+      observations.aborted = "Stack overflow";
+      observations.limited = true;
+    } else {
+      throw error;
+    }
+  }
+  return observations;
+}
+
+// The first place the two runs differ, or null
+function compare(
+  expected: Observations,
+  actual: Observations,
+): Divergence | null {
+  const lines = Math.max(expected.output.length, actual.output.length);
+  for (let index = 0; index < lines; index++) {
+    const want = expected.output[index] ?? null;
+    const got = actual.output[index] ?? null;
+    if (want !== got) {
+      return { kind: "output", index, expected: want, actual: got };
+    }
+  }
+  if (expected.error !== actual.error) {
+    return {
+      kind: "error",
+      expected: expected.error,
+      actual: actual.error ?? actual.aborted,
+    };
+  }
+  if (expected.returned !== actual.returned) {
+    return {
+      kind: "return",
+      expected: expected.returned,
+      actual: actual.returned ?? actual.aborted,
+    };
+  }
+  return null;
+}
+
+/**
+ * Check that `transformed` behaves like `original`: both are run in fresh
+ * sandboxes with the same inputs and the same stand-in Roblox world (see
+ * `installRobloxStubs`), and what they print, warn, return and fail with is
+ * compared in order. The verdict comes with the first difference found;
+ * it's inconclusive when either run hits its limits before a difference.
+ */
+export function verifyEquivalence(
+  original: string,
+  transformed: string,
+  harness: Harness = {},
+  {
+    maxSteps = 2_000_000,
+    maxMemory = 32 * 1024 * 1024,
+    maxTime = 1_000,
+    overhead = 20,
+  }: VerifyOptions = {},
+): VerificationResult {
+  const expected = observe(
+    original,
+    harness,
+    new Budget(maxSteps, maxMemory, maxTime),
+  );
+  if (expected.aborted) {
+    return {
+      verdict: "inconclusive",
+      divergence: null,
+      outputLines: expected.output.length,
+      message: `The original script could not be run to the end: ${expected.aborted}`,
+    };
+  }
+  const actual = observe(
+    transformed,
+    harness,
+    new Budget(maxSteps * overhead, maxMemory * 2, maxTime * 2),
+  );
+  const divergence = compare(expected, actual);
+  // Cut short, the output can only be wrong in what it printed before that
+  if (
+    actual.limited &&
+    (divergence?.kind !== "output" || divergence.actual === null)
+  ) {
+    return {
+      verdict: "inconclusive",
+      divergence: null,
+      outputLines: actual.output.length,
+      message: `The output could not be run to the end: ${actual.aborted}`,
+    };
+  }
+  if (!divergence) {
+    return {
+      verdict: "pass",
+      divergence: null,
+      outputLines: expected.output.length,
+      message: `Output matches the original (${expected.output.length} lines of output, ${expected.error === null ? "same return values" : "same error"})`,
+    };
+  }
+  const where =
+    divergence.kind === "output"
+      ? `line ${divergence.index! + 1} of output`
+      : divergence.kind === "error"
+        ? "the error raised"
+        : "the values returned";
+  return {
+    verdict: "fail",
+    divergence,
+    outputLines: expected.output.length,
+    message: `Output differs from the original at ${where}`,
+  };
+}
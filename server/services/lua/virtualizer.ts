@@ -0,0 +1,1110 @@
+import {
+  walk,
+  type CallExpression,
+  type Chunk,
+  type Expression,
+  type FunctionNode,
+  type Identifier,
+  type Statement,
+} from "./ast";
+import * as b from "./builders";
+import { parse } from "./parser";
+import { analyzeScopes, type Binding, type ScopeAnalysis } from "./scope";
+
+export interface VirtualizeOptions {
+  random: () => number;
+}
+
+export interface VirtualizeResult {
+  // The interpreter with the encoded program, replacing the input chunk
+  chunk: Chunk;
+  instructionCount: number;
+  // Characters of interpreter source, not counting the encoded program
+  vmSize: number;
+}
+
+/**
+ * The instruction set of the embedded stack machine. Every instruction is
+ * four words (opcode and three operands); which number stands for which
+ * opcode is chosen at random for each build.
+ */
+const OPCODES = [
+  "LOADK",
+  "LOADNIL",
+  "LOADBOOL",
+  "GETLOCAL",
+  "SETLOCAL",
+  "NEWCELL",
+  "GETCELL",
+  "SETCELL",
+  "GETUP",
+  "SETUP",
+  "GETGLOBAL",
+  "SETGLOBAL",
+  "GETINDEX",
+  "SETINDEX",
+  "NEWTABLE",
+  "TSET",
+  "TAPPEND",
+  "SELF",
+  "MARK",
+  "CALL",
+  "VARARG",
+  "RETURN",
+  "ADJUST",
+  "JMP",
+  "JMPF",
+  "AND",
+  "OR",
+  "ADD",
+  "SUB",
+  "MUL",
+  "DIV",
+  "IDIV",
+  "MOD",
+  "POW",
+  "CONCAT",
+  "EQ",
+  "NE",
+  "LT",
+  "LE",
+  "GT",
+  "GE",
+  "NOT",
+  "UNM",
+  "LEN",
+  "TOSTRING",
+  "CLOSURE",
+  "FORPREP",
+  "FORLOOP",
+  "TFORPREP",
+  "TFORCALL",
+] as const;
+
+type Opcode = (typeof OPCODES)[number];
+
+const BINARY_OPCODES: Record<string, Opcode> = {
+  "+": "ADD",
+  "-": "SUB",
+  "*": "MUL",
+  "/": "DIV",
+  "//": "IDIV",
+  "%": "MOD",
+  "^": "POW",
+  "..": "CONCAT",
+  "==": "EQ",
+  "~=": "NE",
+  "<": "LT",
+  "<=": "LE",
+  ">": "GT",
+  ">=": "GE",
+};
+
+const UNARY_OPCODES: Record<string, Opcode> = {
+  not: "NOT",
+  "-": "UNM",
+  "#": "LEN",
+};
+
+// Lua source for each opcode. `a`, `b` and `c` are the operands; the stack
+// grows upwards from `stack[1]` and `marks` remembers where variable-length
+// value lists (call arguments, returns) begin.
+const HANDLERS: Record<Opcode, string> = {
+  LOADK: "top = top + 1 stack[top] = constants[a]",
+  LOADNIL: "top = top + 1 stack[top] = nil",
+  LOADBOOL: "top = top + 1 stack[top] = a == 1",
+  GETLOCAL: "top = top + 1 stack[top] = registers[a]",
+  SETLOCAL: "registers[a] = stack[top] top = top - 1",
+  NEWCELL: "registers[a] = { stack[top] } top = top - 1",
+  GETCELL: "top = top + 1 stack[top] = registers[a][1]",
+  SETCELL: "registers[a][1] = stack[top] top = top - 1",
+  GETUP: "top = top + 1 stack[top] = upvalues[a][1]",
+  SETUP: "upvalues[a][1] = stack[top] top = top - 1",
+  GETGLOBAL: "top = top + 1 stack[top] = env[constants[a]]",
+  SETGLOBAL: "env[constants[a]] = stack[top] top = top - 1",
+  GETINDEX: "stack[top - 1] = stack[top - 1][stack[top]] top = top - 1",
+  SETINDEX: "stack[top - 2][stack[top - 1]] = stack[top] top = top - 3",
+  NEWTABLE: "top = top + 1 stack[top] = {}",
+  TSET: "stack[top - 2][stack[top - 1]] = stack[top] top = top - 2",
+  TAPPEND: `
+    local mark = marks[markTop]
+    markTop = markTop - 1
+    local target = stack[mark]
+    for i = mark + 1, top do
+      target[a + i - mark - 1] = stack[i]
+    end
+    top = mark`,
+  SELF: `
+    local object = stack[top]
+    stack[top] = object[constants[a]]
+    top = top + 1
+    stack[top] = object`,
+  MARK: "markTop = markTop + 1 marks[markTop] = top",
+  CALL: `
+    local mark = marks[markTop]
+    markTop = markTop - 1
+    local results = pack(stack[mark + 1](unpackAll(stack, mark + 2, top)))
+    local wanted = a
+    if wanted < 0 then
+      wanted = results.n
+    end
+    top = mark
+    for i = 1, wanted do
+      top = top + 1
+      stack[top] = results[i]
+    end`,
+  VARARG: `
+    local wanted = a
+    if wanted < 0 then
+      wanted = varargCount
+    end
+    for i = 1, wanted do
+      top = top + 1
+      stack[top] = varargs[i]
+    end`,
+  RETURN: "return unpackAll(stack, marks[markTop] + 1, top)",
+  ADJUST: `
+    local mark = marks[markTop]
+    markTop = markTop - 1
+    for i = top + 1, mark + a do
+      stack[i] = nil
+    end
+    top = mark + a`,
+  JMP: "pc = a",
+  JMPF: `
+    local value = stack[top]
+    top = top - 1
+    if not value then
+      pc = a
+    end`,
+  AND: `
+    if stack[top] then
+      top = top - 1
+    else
+      pc = a
+    end`,
+  OR: `
+    if stack[top] then
+      pc = a
+    else
+      top = top - 1
+    end`,
+  ADD: "stack[top - 1] = stack[top - 1] + stack[top] top = top - 1",
+  SUB: "stack[top - 1] = stack[top - 1] - stack[top] top = top - 1",
+  MUL: "stack[top - 1] = stack[top - 1] * stack[top] top = top - 1",
+  DIV: "stack[top - 1] = stack[top - 1] / stack[top] top = top - 1",
+  // Written without `//` so the interpreter also parses as Lua 5.1
+  IDIV: "stack[top - 1] = floor(stack[top - 1] / stack[top]) top = top - 1",
+  MOD: "stack[top - 1] = stack[top - 1] % stack[top] top = top - 1",
+  POW: "stack[top - 1] = stack[top - 1] ^ stack[top] top = top - 1",
+  CONCAT: "stack[top - 1] = stack[top - 1] .. stack[top] top = top - 1",
+  EQ: "stack[top - 1] = stack[top - 1] == stack[top] top = top - 1",
+  NE: "stack[top - 1] = stack[top - 1] ~= stack[top] top = top - 1",
+  LT: "stack[top - 1] = stack[top - 1] < stack[top] top = top - 1",
+  LE: "stack[top - 1] = stack[top - 1] <= stack[top] top = top - 1",
+  GT: "stack[top - 1] = stack[top - 1] > stack[top] top = top - 1",
+  GE: "stack[top - 1] = stack[top - 1] >= stack[top] top = top - 1",
+  NOT: "stack[top] = not stack[top]",
+  UNM: "stack[top] = -stack[top]",
+  LEN: "stack[top] = #stack[top]",
+  TOSTRING: "stack[top] = toString(stack[top])",
+  CLOSURE: `
+    local child = protos[a]
+    local descriptors, captured = child[4], {}
+    for i = 1, #descriptors do
+      local descriptor = descriptors[i]
+      if descriptor[1] == 0 then
+        captured[i] = registers[descriptor[2]]
+      else
+        captured[i] = upvalues[descriptor[2]]
+      end
+    end
+    top = top + 1
+    stack[top] = wrap(child, captured)`,
+  FORPREP: `
+    local start = toNumber(stack[top - 2])
+    local limit = toNumber(stack[top - 1])
+    local step = toNumber(stack[top])
+    top = top - 3
+    registers[a], registers[a + 1], registers[a + 2] = start, limit, step
+    if not (step > 0 and start <= limit or step <= 0 and start >= limit) then
+      pc = b
+    end`,
+  FORLOOP: `
+    local step = registers[a + 2]
+    local index = registers[a] + step
+    registers[a] = index
+    if step > 0 and index <= registers[a + 1] or step <= 0 and index >= registers[a + 1] then
+      pc = b
+    end`,
+  // Luau's generalized iteration: `for k, v in t do` without pairs()
+  TFORPREP: `
+    local iterator = registers[a]
+    if kindOf(iterator) == "table" then
+      local meta = metatableOf(iterator)
+      if kindOf(meta) == "table" and meta.__iter then
+        registers[a], registers[a + 1], registers[a + 2] = meta.__iter(iterator)
+      elseif not (kindOf(meta) == "table" and meta.__call) then
+        registers[a], registers[a + 1], registers[a + 2] = nextKey, iterator, nil
+      end
+    end`,
+  TFORCALL: `
+    local results = pack(registers[a](registers[a + 1], registers[a + 2]))
+    if results[1] == nil then
+      pc = c
+    else
+      registers[a + 2] = results[1]
+      for i = 1, b do
+        top = top + 1
+        stack[top] = results[i]
+      end
+    end`,
+};
+
+// Operand for CALL, VARARG and friends meaning "every value"
+const ALL_VALUES = -1;
+
+interface Prototype {
+  parameters: number;
+  isVararg: boolean;
+  // (0, register) captures a local of the enclosing function, (1, index) one
+  // of its upvalues
+  upvalues: [number, number][];
+  constants: (string | number)[];
+  // Four words per instruction; opcodes are indices into OPCODES until the
+  // program is encoded
+  code: number[];
+  protos: Prototype[];
+}
+
+interface Loop {
+  breaks: number[];
+  continues: number[];
+}
+
+function isMultiValue(expression: Expression): boolean {
+  return (
+    expression.type === "CallExpression" || expression.type === "VarargLiteral"
+  );
+}
+
+/**
+ * Compiles one function (or the chunk) to a prototype. Locals live in
+ * registers; the ones captured by a nested function are boxed in a one-slot
+ * table ("cell") so that every closure sees the same variable.
+ */
+class FunctionCompiler {
+  readonly proto: Prototype = {
+    parameters: 0,
+    isVararg: true,
+    upvalues: [],
+    constants: [],
+    code: [],
+    protos: [],
+  };
+  private nextRegister = 1;
+  private readonly registers = new Map<Binding, number>();
+  private readonly upvalueIndex = new Map<Binding, number>();
+  private readonly constantIndex = new Map<string, number>();
+  private readonly loops: Loop[] = [];
+
+  constructor(
+    private readonly analysis: ScopeAnalysis,
+    private readonly parent: FunctionCompiler | null,
+  ) {}
+
+  compileChunk(chunk: Chunk): void {
+    this.block(chunk.body);
+    this.emit("MARK");
+    this.emit("RETURN");
+  }
+
+  compileFunction(node: FunctionNode): void {
+    const parameters: Binding[] = [];
+    if (
+      node.type === "FunctionDeclaration" &&
+      node.identifier.type === "MemberExpression" &&
+      node.identifier.indexer === ":"
+    ) {
+      const self = this.analysis.bindings.find(
+        (binding) => binding.kind === "self" && binding.scope.node === node,
+      );
+      if (self) parameters.push(self);
+    }
+    for (const parameter of node.parameters) {
+      parameters.push(this.bindingOf(parameter));
+    }
+
+    this.proto.parameters = parameters.length;
+    this.proto.isVararg = node.isVararg;
+    for (const binding of parameters) {
+      const register = this.allocate();
+      this.registers.set(binding, register);
+      if (binding.isUpvalue) {
+        this.emit("GETLOCAL", register);
+        this.emit("NEWCELL", register);
+      }
+    }
+    this.block(node.body);
+    this.emit("MARK");
+    this.emit("RETURN");
+  }
+
+  // Instruction index of the next instruction
+  private get here(): number {
+    return this.proto.code.length / 4;
+  }
+
+  private emit(opcode: Opcode, a = 0, b = 0, c = 0): number {
+    const index = this.here;
+    this.proto.code.push(OPCODES.indexOf(opcode), a, b, c);
+    return index;
+  }
+
+  // Point operand `operand` (1 to 3) of instruction `at` at instruction
+  // `target`. Jump operands hold the target's position in the code array.
+  private patch(at: number, target: number, operand = 1): void {
+    this.proto.code[at * 4 + operand] = target * 4 + 1;
+  }
+
+  private jumpTo(target: number): number {
+    return target * 4 + 1;
+  }
+
+  private constant(value: string | number): number {
+    const key = `${typeof value}:${value}`;
+    let index = this.constantIndex.get(key);
+    if (index === undefined) {
+      this.proto.constants.push(value);
+      index = this.proto.constants.length;
+      this.constantIndex.set(key, index);
+    }
+    return index;
+  }
+
+  private allocate(): number {
+    return this.nextRegister++;
+  }
+
+  private bindingOf(identifier: Identifier): Binding {
+    const binding = this.analysis.resolved.get(identifier);
+    if (!binding) {
+      throw new Error(`Unresolved declaration of '${identifier.name}'`);
+    }
+    return binding;
+  }
+
+  private upvalue(binding: Binding): number {
+    const existing = this.upvalueIndex.get(binding);
+    if (existing !== undefined) return existing;
+    if (!this.parent) {
+      throw new Error(`'${binding.name}' is not visible here`);
+    }
+    const register = this.parent.registers.get(binding);
+    this.proto.upvalues.push(
+      register !== undefined
+        ? [0, register]
+        : [1, this.parent.upvalue(binding)],
+    );
+    const index = this.proto.upvalues.length;
+    this.upvalueIndex.set(binding, index);
+    return index;
+  }
+
+  // Pop the top of the stack into a new register for `binding`
+  private declare(binding: Binding): void {
+    const register = this.allocate();
+    this.registers.set(binding, register);
+    this.emit(binding.isUpvalue ? "NEWCELL" : "SETLOCAL", register);
+  }
+
+  private load(identifier: Identifier): void {
+    const binding = this.analysis.resolved.get(identifier);
+    if (!binding) {
+      this.emit("GETGLOBAL", this.constant(identifier.name));
+      return;
+    }
+    const register = this.registers.get(binding);
+    if (register !== undefined) {
+      this.emit(binding.isUpvalue ? "GETCELL" : "GETLOCAL", register);
+    } else {
+      this.emit("GETUP", this.upvalue(binding));
+    }
+  }
+
+  // Pop the top of the stack into the variable `identifier` refers to
+  private store(identifier: Identifier): void {
+    const binding = this.analysis.resolved.get(identifier);
+    if (!binding) {
+      this.emit("SETGLOBAL", this.constant(identifier.name));
+      return;
+    }
+    const register = this.registers.get(binding);
+    if (register !== undefined) {
+      this.emit(binding.isUpvalue ? "SETCELL" : "SETLOCAL", register);
+    } else {
+      this.emit("SETUP", this.upvalue(binding));
+    }
+  }
+
+  private block(body: Statement[]): void {
+    const saved = this.nextRegister;
+    for (const statement of body) this.statement(statement);
+    this.nextRegister = saved;
+  }
+
+  private loop(body: () => void): Loop {
+    const loop: Loop = { breaks: [], continues: [] };
+    this.loops.push(loop);
+    body();
+    this.loops.pop();
+    return loop;
+  }
+
+  private closeLoop(loop: Loop, exit: number, next: number): void {
+    for (const at of loop.breaks) this.patch(at, exit);
+    for (const at of loop.continues) this.patch(at, next);
+  }
+
+  private statement(node: Statement): void {
+    switch (node.type) {
+      case "LocalStatement": {
+        const count = node.variables.length;
+        if (node.init.length === 0) {
+          for (let i = 0; i < count; i++) this.emit("LOADNIL");
+        } else if (node.init.length === count) {
+          for (const value of node.init) this.expression(value);
+        } else {
+          this.emit("MARK");
+          this.values(node.init);
+          this.emit("ADJUST", count);
+        }
+        for (let i = count - 1; i >= 0; i--) {
+          this.declare(this.bindingOf(node.variables[i]));
+        }
+        break;
+      }
+      case "AssignmentStatement":
+        this.assignment(node.variables, node.init);
+        break;
+      case "CompoundAssignmentStatement": {
+        const operator = BINARY_OPCODES[node.operator.slice(0, -1)];
+        if (node.variable.type === "Identifier") {
+          this.load(node.variable);
+          this.expression(node.value);
+          this.emit(operator);
+          this.store(node.variable);
+          break;
+        }
+        // The table and key are evaluated once
+        const saved = this.nextRegister;
+        const [object, key] = this.targetRegisters(node.variable);
+        this.emit("GETLOCAL", object);
+        this.emit("GETLOCAL", key);
+        this.emit("GETLOCAL", object);
+        this.emit("GETLOCAL", key);
+        this.emit("GETINDEX");
+        this.expression(node.value);
+        this.emit(operator);
+        this.emit("SETINDEX");
+        this.nextRegister = saved;
+        break;
+      }
+      case "CallStatement":
+        this.call(node.expression, 0);
+        break;
+      case "DoStatement":
+        this.block(node.body);
+        break;
+      case "WhileStatement": {
+        const start = this.here;
+        this.expression(node.condition);
+        const exitJump = this.emit("JMPF");
+        const loop = this.loop(() => this.block(node.body));
+        this.emit("JMP", this.jumpTo(start));
+        this.patch(exitJump, this.here);
+        this.closeLoop(loop, this.here, start);
+        break;
+      }
+      case "RepeatStatement": {
+        // The condition can see the body's locals
+        const saved = this.nextRegister;
+        const start = this.here;
+        let condition = start;
+        const loop = this.loop(() => {
+          for (const statement of node.body) this.statement(statement);
+          condition = this.here;
+          this.expression(node.condition);
+        });
+        this.emit("JMPF", this.jumpTo(start));
+        this.nextRegister = saved;
+        this.closeLoop(loop, this.here, condition);
+        break;
+      }
+      case "IfStatement": {
+        const exits: number[] = [];
+        node.clauses.forEach((clause, index) => {
+          this.expression(clause.condition);
+          const next = this.emit("JMPF");
+          this.block(clause.body);
+          if (index < node.clauses.length - 1 || node.orelse) {
+            exits.push(this.emit("JMP"));
+          }
+          this.patch(next, this.here);
+        });
+        if (node.orelse) this.block(node.orelse);
+        for (const at of exits) this.patch(at, this.here);
+        break;
+      }
+      case "NumericForStatement": {
+        const saved = this.nextRegister;
+        // Hidden counter, limit and step
+        const base = this.allocate();
+        this.allocate();
+        this.allocate();
+        this.expression(node.start);
+        this.expression(node.end);
+        if (node.step) this.expression(node.step);
+        else this.emit("LOADK", this.constant(1));
+        const prepare = this.emit("FORPREP", base);
+        const body = this.here;
+        // A fresh variable per iteration, so closures capture each value
+        this.emit("GETLOCAL", base);
+        this.declare(this.bindingOf(node.variable));
+        const loop = this.loop(() => this.block(node.body));
+        const next = this.emit("FORLOOP", base, this.jumpTo(body));
+        this.patch(prepare, this.here, 2);
+        this.closeLoop(loop, this.here, next);
+        this.nextRegister = saved;
+        break;
+      }
+      case "GenericForStatement": {
+        const saved = this.nextRegister;
+        // Hidden iterator function, state and control value
+        const base = this.allocate();
+        this.allocate();
+        this.allocate();
+        this.emit("MARK");
+        this.values(node.iterators);
+        this.emit("ADJUST", 3);
+        this.emit("SETLOCAL", base + 2);
+        this.emit("SETLOCAL", base + 1);
+        this.emit("SETLOCAL", base);
+        this.emit("TFORPREP", base);
+        const next = this.emit("TFORCALL", base, node.variables.length);
+        for (let i = node.variables.length - 1; i >= 0; i--) {
+          this.declare(this.bindingOf(node.variables[i]));
+        }
+        const loop = this.loop(() => this.block(node.body));
+        this.emit("JMP", this.jumpTo(next));
+        this.patch(next, this.here, 3);
+        this.closeLoop(loop, this.here, next);
+        this.nextRegister = saved;
+        break;
+      }
+      case "FunctionDeclaration": {
+        const target = node.identifier;
+        if (target.type === "MemberExpression") {
+          this.expression(target.base);
+          this.emit("LOADK", this.constant(target.identifier.name));
+          this.closure(node);
+          this.emit("SETINDEX");
+        } else if (node.isLocal) {
+          // Declared before the closure is built so the function can call
+          // itself
+          const binding = this.bindingOf(target);
+          const register = this.allocate();
+          this.registers.set(binding, register);
+          if (binding.isUpvalue) {
+            this.emit("LOADNIL");
+            this.emit("NEWCELL", register);
+          }
+          this.closure(node);
+          this.emit(binding.isUpvalue ? "SETCELL" : "SETLOCAL", register);
+        } else {
+          this.closure(node);
+          this.store(target);
+        }
+        break;
+      }
+      case "ReturnStatement":
+        this.emit("MARK");
+        this.values(node.arguments);
+        this.emit("RETURN");
+        break;
+      case "BreakStatement":
+        this.currentLoop().breaks.push(this.emit("JMP"));
+        break;
+      case "ContinueStatement":
+        this.currentLoop().continues.push(this.emit("JMP"));
+        break;
+      case "TypeAliasStatement":
+        break;
+    }
+  }
+
+  private currentLoop(): Loop {
+    const loop = this.loops[this.loops.length - 1];
+    if (!loop) throw new Error("break or continue outside a loop");
+    return loop;
+  }
+
+  // Evaluate the table and key of an assignment target into two fresh
+  // registers
+  private targetRegisters(target: Expression): [number, number] {
+    this.indexTarget(target);
+    const object = this.allocate();
+    const key = this.allocate();
+    this.emit("SETLOCAL", key);
+    this.emit("SETLOCAL", object);
+    return [object, key];
+  }
+
+  private assignment(targets: Expression[], values: Expression[]): void {
+    if (targets.length === 1 && values.length === 1) {
+      const [target] = targets;
+      if (target.type === "Identifier") {
+        this.expression(values[0]);
+        this.store(target);
+      } else {
+        this.indexTarget(target);
+        this.expression(values[0]);
+        this.emit("SETINDEX");
+      }
+      return;
+    }
+
+    // Lua evaluates every target and value before assigning any of them
+    const saved = this.nextRegister;
+    const prefixes = targets.map((target) =>
+      target.type === "Identifier" ? null : this.targetRegisters(target),
+    );
+    this.emit("MARK");
+    this.values(values);
+    this.emit("ADJUST", targets.length);
+    const results = targets.map(() => this.allocate());
+    for (let i = results.length - 1; i >= 0; i--) {
+      this.emit("SETLOCAL", results[i]);
+    }
+    targets.forEach((target, i) => {
+      const prefix = prefixes[i];
+      if (prefix) {
+        this.emit("GETLOCAL", prefix[0]);
+        this.emit("GETLOCAL", prefix[1]);
+        this.emit("GETLOCAL", results[i]);
+        this.emit("SETINDEX");
+      } else {
+        this.emit("GETLOCAL", results[i]);
+        this.store(target as Identifier);
+      }
+    });
+    this.nextRegister = saved;
+  }
+
+  // Push the table and key of `target`
+  private indexTarget(target: Expression): void {
+    if (target.type === "MemberExpression") {
+      this.expression(target.base);
+      this.emit("LOADK", this.constant(target.identifier.name));
+    } else if (target.type === "IndexExpression") {
+      this.expression(target.base);
+      this.expression(target.index);
+    } else {
+      throw new Error(`Cannot assign to ${target.type}`);
+    }
+  }
+
+  // Push an expression list; a trailing call or `...` expands to all of its
+  // values
+  private values(list: Expression[]): void {
+    list.forEach((expression, index) => {
+      const expand = index === list.length - 1 && isMultiValue(expression);
+      this.expression(expression, expand ? ALL_VALUES : 1);
+    });
+  }
+
+  private call(node: CallExpression, results: number): void {
+    this.emit("MARK");
+    const callee = node.base;
+    if (callee.type === "MemberExpression" && callee.indexer === ":") {
+      this.expression(callee.base);
+      this.emit("SELF", this.constant(callee.identifier.name));
+    } else {
+      this.expression(callee);
+    }
+    this.values(node.arguments);
+    this.emit("CALL", results);
+  }
+
+  private closure(node: FunctionNode): void {
+    const child = new FunctionCompiler(this.analysis, this);
+    child.compileFunction(node);
+    this.proto.protos.push(child.proto);
+    this.emit("CLOSURE", this.proto.protos.length);
+  }
+
+  // Push the value of `node`; `results` only matters for calls and `...`
+  private expression(node: Expression, results = 1): void {
+    switch (node.type) {
+      case "Identifier":
+        this.load(node);
+        break;
+      case "NilLiteral":
+        this.emit("LOADNIL");
+        break;
+      case "BooleanLiteral":
+        this.emit("LOADBOOL", node.value ? 1 : 0);
+        break;
+      case "NumericLiteral":
+      case "StringLiteral":
+        this.emit("LOADK", this.constant(node.value));
+        break;
+      case "VarargLiteral":
+        this.emit("VARARG", results);
+        break;
+      case "FunctionExpression":
+        this.closure(node);
+        break;
+      case "TableConstructorExpression": {
+        this.emit("NEWTABLE");
+        let position = 0;
+        node.fields.forEach((field, index) => {
+          if (field.type === "TableValue") {
+            position++;
+            if (index === node.fields.length - 1 && isMultiValue(field.value)) {
+              this.emit("MARK");
+              this.expression(field.value, ALL_VALUES);
+              this.emit("TAPPEND", position);
+              return;
+            }
+            this.emit("LOADK", this.constant(position));
+          } else if (field.type === "TableKeyString") {
+            this.emit("LOADK", this.constant(field.key.name));
+          } else {
+            this.expression(field.key);
+          }
+          this.expression(field.value);
+          this.emit("TSET");
+        });
+        break;
+      }
+      case "BinaryExpression": {
+        if (node.operator === "and" || node.operator === "or") {
+          this.expression(node.left);
+          const skip = this.emit(node.operator === "and" ? "AND" : "OR");
+          this.expression(node.right);
+          this.patch(skip, this.here);
+          break;
+        }
+        this.expression(node.left);
+        this.expression(node.right);
+        this.emit(BINARY_OPCODES[node.operator]);
+        break;
+      }
+      case "UnaryExpression":
+        this.expression(node.argument);
+        this.emit(UNARY_OPCODES[node.operator]);
+        break;
+      case "ParenthesizedExpression":
+        this.expression(node.expression);
+        break;
+      case "MemberExpression":
+        this.expression(node.base);
+        this.emit("LOADK", this.constant(node.identifier.name));
+        this.emit("GETINDEX");
+        break;
+      case "IndexExpression":
+        this.expression(node.base);
+        this.expression(node.index);
+        this.emit("GETINDEX");
+        break;
+      case "CallExpression":
+        this.call(node, results);
+        break;
+      case "IfExpression": {
+        const exits: number[] = [];
+        for (const clause of node.clauses) {
+          this.expression(clause.condition);
+          const next = this.emit("JMPF");
+          this.expression(clause.value);
+          exits.push(this.emit("JMP"));
+          this.patch(next, this.here);
+        }
+        this.expression(node.orelse);
+        for (const at of exits) this.patch(at, this.here);
+        break;
+      }
+      case "InterpolatedStringExpression": {
+        let pieces = 0;
+        const concat = () => {
+          if (++pieces > 1) this.emit("CONCAT");
+        };
+        node.parts.forEach((part, index) => {
+          if (part.length > 0) {
+            this.emit("LOADK", this.constant(part));
+            concat();
+          }
+          if (index < node.expressions.length) {
+            this.expression(node.expressions[index]);
+            this.emit("TOSTRING");
+            concat();
+          }
+        });
+        if (pieces === 0) this.emit("LOADK", this.constant(""));
+        break;
+      }
+      case "TypeAssertionExpression":
+        this.expression(node.expression);
+        break;
+    }
+  }
+}
+
+function countInstructions(proto: Prototype): number {
+  return proto.protos.reduce(
+    (total, child) => total + countInstructions(child),
+    proto.code.length / 4,
+  );
+}
+
+// Zigzag-encoded base-128 varints, then raw bytes for strings
+class ProgramWriter {
+  readonly bytes: number[] = [];
+
+  constructor(private readonly opcodeValues: number[]) {}
+
+  int(value: number): void {
+    let rest = value < 0 ? -2 * value - 1 : 2 * value;
+    while (rest >= 128) {
+      this.bytes.push((rest % 128) + 128);
+      rest = Math.floor(rest / 128);
+    }
+    this.bytes.push(rest);
+  }
+
+  string(value: string): void {
+    this.int(value.length);
+    for (let i = 0; i < value.length; i++) {
+      this.bytes.push(value.charCodeAt(i));
+    }
+  }
+
+  proto(proto: Prototype): void {
+    this.int(proto.parameters);
+    this.int(proto.isVararg ? 1 : 0);
+    this.int(proto.upvalues.length);
+    for (const [kind, index] of proto.upvalues) {
+      this.int(kind);
+      this.int(index);
+    }
+    this.int(proto.constants.length);
+    for (const constant of proto.constants) {
+      if (typeof constant === "string") {
+        this.int(1);
+        this.string(constant);
+      } else {
+        this.int(2);
+        // tonumber() reads an overflowing exponent back as infinity
+        this.string(
+          Number.isFinite(constant)
+            ? String(constant)
+            : constant > 0
+              ? "1e999"
+              : "-1e999",
+        );
+      }
+    }
+    this.int(proto.code.length / 4);
+    proto.code.forEach((word, index) => {
+      this.int(index % 4 === 0 ? this.opcodeValues[word] : word);
+    });
+    this.int(proto.protos.length);
+    for (const child of proto.protos) this.proto(child);
+  }
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+/**
+ * Compile the chunk to bytecode for a randomized instruction set and replace
+ * it with a self-contained interpreter that runs the encrypted program.
+ * Opcode numbers, handler order and the program key differ on every build.
+ */
+export function virtualize(
+  chunk: Chunk,
+  options: VirtualizeOptions,
+): VirtualizeResult {
+  const { random } = options;
+  const main = new FunctionCompiler(analyzeScopes(chunk), null);
+  main.compileChunk(chunk);
+
+  const opcodeValues = shuffle(
+    Array.from({ length: 255 }, (_, index) => index + 1),
+    random,
+  ).slice(0, OPCODES.length);
+  const writer = new ProgramWriter(opcodeValues);
+  writer.proto(main.proto);
+
+  // Rolling XOR key, advanced by every decrypted byte
+  const seed = Math.floor(random() * 256);
+  const multiplier = 1 + 4 * Math.floor(random() * 32);
+  const increment = Math.floor(random() * 256);
+  let key = seed;
+  const program = writer.bytes
+    .map((byte) => {
+      const encrypted = byte ^ key;
+      key = (key * multiplier + byte + increment) % 256;
+      return String.fromCharCode(encrypted);
+    })
+    .join("");
+
+  const dispatch = shuffle(
+    OPCODES.map((opcode, index) => ({ opcode, value: opcodeValues[index] })),
+    random,
+  )
+    .map(
+      ({ opcode, value }, index) =>
+        `${index === 0 ? "if" : "elseif"} op == ${value} then\n${HANDLERS[opcode]}`,
+    )
+    .join("\n");
+
+  // Lua 5.1 has no bitwise operators, so XOR is done bit by bit
+  const source = `
+local program = ""
+local getByte, toChar, join = string.byte, string.char, table.concat
+local count, kindOf, toNumber, toString = select, type, tonumber, tostring
+local metatableOf, nextKey, floor = getmetatable, next, math.floor
+local unpackAll = table.unpack or unpack
+local env = getfenv and getfenv(1) or _ENV
+
+local function xor(a, b)
+  local result, bit = 0, 1
+  for _ = 1, 8 do
+    local x, y = a % 2, b % 2
+    if x ~= y then
+      result = result + bit
+    end
+    a, b, bit = (a - x) / 2, (b - y) / 2, bit * 2
+  end
+  return result
+end
+
+local position, key = 1, ${seed}
+local function readByte()
+  local value = xor(getByte(program, position), key)
+  position = position + 1
+  key = (key * ${multiplier} + value + ${increment}) % 256
+  return value
+end
+
+local function readInt()
+  local value, scale = 0, 1
+  while true do
+    local byte = readByte()
+    value = value + byte % 128 * scale
+    if byte < 128 then
+      break
+    end
+    scale = scale * 128
+  end
+  if value % 2 == 1 then
+    return -(value + 1) / 2
+  end
+  return value / 2
+end
+
+local function readString()
+  local chars = {}
+  for i = 1, readInt() do
+    chars[i] = toChar(readByte())
+  end
+  return join(chars)
+end
+
+local function readProto()
+  local parameters = readInt()
+  local isVararg = readInt() == 1
+  local upvalues = {}
+  for i = 1, readInt() do
+    upvalues[i] = { readInt(), readInt() }
+  end
+  local constants = {}
+  for i = 1, readInt() do
+    local tag = readInt()
+    local text = readString()
+    if tag == 1 then
+      constants[i] = text
+    else
+      constants[i] = toNumber(text)
+    end
+  end
+  local code = {}
+  for i = 1, readInt() * 4 do
+    code[i] = readInt()
+  end
+  local protos = {}
+  for i = 1, readInt() do
+    protos[i] = readProto()
+  end
+  return { code, constants, protos, upvalues, parameters, isVararg }
+end
+
+local function pack(...)
+  return { n = count("#", ...), ... }
+end
+
+local execute
+local function wrap(proto, upvalues)
+  return function(...)
+    return execute(proto, upvalues, ...)
+  end
+end
+
+execute = function(proto, upvalues, ...)
+  local code, constants, protos = proto[1], proto[2], proto[3]
+  local args = pack(...)
+  local registers, stack, marks = {}, {}, {}
+  local top, markTop, pc = 0, 0, 1
+  local varargs, varargCount = {}, 0
+  for i = 1, proto[5] do
+    registers[i] = args[i]
+  end
+  if proto[6] then
+    for i = proto[5] + 1, args.n do
+      varargCount = varargCount + 1
+      varargs[varargCount] = args[i]
+    end
+  end
+  while true do
+    local op, a, b, c = code[pc], code[pc + 1], code[pc + 2], code[pc + 3]
+    pc = pc + 4
+${dispatch}
+    end
+  end
+end
+
+return execute(readProto(), {}, ...)
+`;
+
+  const vm = parse(source).chunk;
+  // The interpreter has no counterpart in the input, so it carries no
+  // positions for source maps to pick up
+  walk(vm, (node) => {
+    delete node.loc;
+  });
+  const declaration = vm.body[0];
+  if (declaration.type === "LocalStatement") {
+    declaration.init = [b.string(program)];
+  }
+  return {
+    chunk: vm,
+    instructionCount: countInstructions(main.proto),
+    vmSize: source.trim().length,
+  };
+}
@@ -1,18 +1,247 @@
-import type { ProcessRequest } from "@shared/schema";
+import {
+  resolveLevelPlan,
+  type PassIntensity,
+  type RenamingStrategy,
+} from "@shared/obfuscationLevels";
+import type {
+  ObfuscationPass,
+  PassReport,
+  ProcessRequest,
+  Snapshot,
+} from "@shared/schema";
+import {
+  collectBlocks,
+  transformExpressions,
+  walk,
+  type Chunk,
+  type Expression,
+  type Statement,
+} from "./lua/ast";
+import * as b from "./lua/builders";
+import { foldConstants } from "./lua/constantFolding";
+import { ConstantPool } from "./lua/constantPool";
+import { removeDeadBranches } from "./lua/deadCode";
+import { detectTechniques, type TechniqueReport } from "./lua/fingerprint";
+import { flattenControlFlow } from "./lua/flattener";
+import { createPreserveFilter } from "./lua/globals";
+import type { Comment } from "./lua/lexer";
+import {
+  assignShortNames,
+  isShorter,
+  printMinified,
+  shortenLiterals,
+} from "./lua/minifier";
+import { insertOpaquePredicates } from "./lua/opaquePredicates";
+import { parse } from "./lua/parser";
+import { runPipeline, takeSnapshot, type Pass } from "./lua/pipeline";
+import { Printer, type PrintOptions } from "./lua/printer";
+import { createRandom, randomSeed } from "./lua/random";
+import { analyzeScopes, renameBinding } from "./lua/scope";
+import { inferNames } from "./lua/semanticNames";
+import {
+  buildSourceMap,
+  snapshotDeclarations,
+  type SourceMap,
+} from "./lua/sourceMap";
+import { decodeStrings } from "./lua/stringDecoding";
+import { stripTypeAnnotations } from "./lua/typeStripper";
+import { unflattenControlFlow } from "./lua/unflattener";
+import { unpackLayers } from "./lua/unpacker";
+import { virtualize } from "./lua/virtualizer";
 
 interface ProcessResult {
   outputCode: string;
-  variablesRenamed: number;
-  stringsEncoded: number;
+  // What each pass did, in the order they ran; empty for formatting
+  passes: PassReport[];
+  // The code before the first pass and after each one, when requested
+  snapshots: Snapshot[];
+  // Seed behind every randomized choice; null when nothing was randomized
+  seed: number | null;
+  // Rename map and line mapping, when requested
+  sourceMap: SourceMap | null;
+  // Source of each `loadstring` layer unpacked by deobfuscation, outermost
+  // first
+  layers: string[];
+  // Obfuscation techniques and obfuscators recognized in a deobfuscated
+  // script
+  techniqueReport: TechniqueReport | null;
 }
 
 export async function processLuaCode(
   request: ProcessRequest,
 ): Promise<ProcessResult> {
+  const snapshots = request.settings?.snapshots ?? false;
   if (request.mode === "obfuscate") {
     return obfuscateCode(request.inputCode, request.settings);
+  } else if (request.mode === "minify") {
+    return minifyCode(request.inputCode, snapshots);
+  } else if (request.mode === "format") {
+    return formatCode(request.inputCode, request.settings?.format);
   } else {
-    return deobfuscateCode(request.inputCode);
+    return deobfuscateCode(
+      request.inputCode,
+      request.settings?.format,
+      snapshots,
+    );
+  }
+}
+
+// The order obfuscation passes always run in. Virtualization replaces the
+// whole script with an interpreter, so it comes first and the rest work on
+// the interpreter's own code.
+const OBFUSCATION_PASS_ORDER: ObfuscationPass["name"][] = [
+  "stripTypes",
+  "virtualize",
+  "renameVariables",
+  "constantPool",
+  "encodeStrings",
+  "flattenControlFlow",
+  "junkCode",
+];
+
+// The pass list for a request: the explicit one if given, otherwise the
+// level's plan
+function obfuscationPasses(
+  settings: ProcessRequest["settings"],
+): ObfuscationPass[] {
+  if (settings?.passes) return settings.passes;
+  const plan = resolveLevelPlan(settings?.obfuscationLevel ?? "medium", {
+    variableRenaming: settings?.variableRenaming,
+    stringEncoding: settings?.stringEncoding,
+    controlFlowObfuscation: settings?.controlFlowObfuscation,
+    constantPool: settings?.constantPool,
+  });
+  const intensity = (value: PassIntensity | null) => ({
+    enabled: value !== null,
+    intensity: value ?? "medium",
+  });
+  return [
+    { name: "stripTypes", enabled: settings?.stripTypeAnnotations ?? false },
+    { name: "virtualize", enabled: plan.virtualization },
+    {
+      name: "renameVariables",
+      enabled: plan.renaming !== null,
+      strategy: plan.renaming ?? "hex",
+    },
+    { name: "constantPool", ...intensity(plan.constantPool) },
+    { name: "encodeStrings", ...intensity(plan.stringEncoding) },
+    { name: "flattenControlFlow", ...intensity(plan.flattening) },
+    { name: "junkCode", ...intensity(plan.junkCode) },
+  ];
+}
+
+// How the renaming pass names locals, or null when it's off
+export function renamingStrategy(
+  settings: ProcessRequest["settings"],
+): RenamingStrategy | null {
+  const renaming = obfuscationPasses(settings).find(
+    (config) => config.name === "renameVariables",
+  );
+  return renaming?.name === "renameVariables" && renaming.enabled
+    ? renaming.strategy
+    : null;
+}
+
+interface ObfuscationContext {
+  chunk: Chunk;
+  random: () => number;
+  generateName: () => string;
+  isPreserved: (name: string) => boolean;
+  // Set by the constant pool pass, which takes over from string encoding
+  pool: ConstantPool | null;
+}
+
+function createObfuscationPass(
+  config: ObfuscationPass,
+): Pass<ObfuscationContext> {
+  const { name, enabled } = config;
+  switch (config.name) {
+    case "stripTypes":
+      return { name, enabled, run: ({ chunk }) => stripTypeAnnotations(chunk) };
+    case "virtualize":
+      return {
+        name,
+        enabled,
+        run: (context) => {
+          const virtualized = virtualize(context.chunk, {
+            random: context.random,
+          });
+          context.chunk.body = virtualized.chunk.body;
+          return {
+            instructionCount: virtualized.instructionCount,
+            vmSize: virtualized.vmSize,
+          };
+        },
+      };
+    case "renameVariables":
+      return {
+        name,
+        enabled,
+        run: ({ chunk, generateName, isPreserved }) => ({
+          variablesRenamed: renameVariables(chunk, generateName, isPreserved),
+        }),
+      };
+    case "constantPool":
+      // Strings and numbers alike move into one encrypted table
+      return {
+        name,
+        enabled,
+        run: (context) => {
+          const { chunk, random, generateName } = context;
+          const pool = new ConstantPool({
+            level: config.intensity,
+            random,
+            generateName,
+          });
+          context.pool = pool;
+          const stringsEncoded = encodeLiterals(
+            chunk,
+            (content) => pool.reference(content),
+            (value) => pool.reference(value),
+          );
+          if (pool.size > 0) chunk.body.unshift(...pool.declarations());
+          return { stringsEncoded, constantPoolSize: pool.size };
+        },
+      };
+    case "encodeStrings":
+      // Inline at each use, unless the constant pool already took them
+      return {
+        name,
+        enabled,
+        run: ({ chunk, random, pool }) => ({
+          stringsEncoded: pool
+            ? 0
+            : encodeLiterals(chunk, (content) =>
+                encodeString(content, config.intensity, random),
+              ),
+        }),
+      };
+    case "flattenControlFlow":
+      // State-machine dispatchers around function bodies
+      return {
+        name,
+        enabled,
+        run: ({ chunk, random, generateName }) => ({
+          functionsFlattened: flattenControlFlow(chunk, {
+            level: config.intensity,
+            random,
+            generateName,
+          }),
+        }),
+      };
+    case "junkCode":
+      // Real and fake branches behind opaque predicates
+      return {
+        name,
+        enabled,
+        run: ({ chunk, random, generateName }) => ({
+          predicatesInserted: insertOpaquePredicates(chunk, {
+            level: config.intensity,
+            random,
+            generateName,
+          }),
+        }),
+      };
   }
 }
 
@@ -20,207 +249,369 @@ function obfuscateCode(
   code: string,
   settings?: ProcessRequest["settings"],
 ): ProcessResult {
-  let obfuscated = code;
-  let variablesRenamed = 0;
-  let stringsEncoded = 0;
-
-  const config = {
-    variableRenaming: settings?.variableRenaming ?? true,
-    stringEncoding: settings?.stringEncoding ?? true,
-    controlFlowObfuscation: settings?.controlFlowObfuscation ?? false,
-    obfuscationLevel: settings?.obfuscationLevel ?? "medium",
-  };
+  const { chunk, comments } = parse(code);
+  const configs = obfuscationPasses(settings);
+  const passes = OBFUSCATION_PASS_ORDER.map((name) =>
+    createObfuscationPass(
+      configs.find((config) => config.name === name) ??
+        ({
+          name,
+          enabled: false,
+        } as ObfuscationPass),
+    ),
+  );
 
-  // Variable renaming
-  if (config.variableRenaming) {
-    const variablePattern = /\b(local\s+)([a-zA-Z_][a-zA-Z0-9_]*)/g;
-    const variables = new Map<string, string>();
-
-    // Extract variable declarations
-    let match;
-    while ((match = variablePattern.exec(code)) !== null) {
-      const originalName = match[2];
-      if (!variables.has(originalName) && !isReservedWord(originalName)) {
-        const obfuscatedName = generateObfuscatedName(variables.size);
-        variables.set(originalName, obfuscatedName);
-        variablesRenamed++;
-      }
-    }
+  const seed = settings?.seed ?? randomSeed();
+  const renaming = configs.find((config) => config.name === "renameVariables");
+  const strategy =
+    renaming?.name === "renameVariables" ? renaming.strategy : "hex";
+  // Names are handed out only once virtualization has produced the code
+  // they must not collide with
+  let generator: (() => string) | null = null;
+  const context: ObfuscationContext = {
+    chunk,
+    // Every randomized choice draws from this, so a seed reproduces the build
+    random: createRandom(seed),
+    generateName: () =>
+      (generator ??= createNameGenerator([chunk], strategy))(),
+    isPreserved: createPreserveFilter(settings?.preserveIdentifiers ?? []),
+    pool: null,
+  };
 
-    // Replace variables throughout the code
-    variables.forEach((obfuscatedName, originalName) => {
-      const regex = new RegExp(`\\b${escapeRegExp(originalName)}\\b`, "g");
-      obfuscated = obfuscated.replace(regex, obfuscatedName);
-    });
+  // The source map compares declarations before and after renaming, so it's
+  // taken between virtualization and the passes that rename
+  const split = OBFUSCATION_PASS_ORDER.indexOf("renameVariables");
+  const snapshots = settings?.snapshots
+    ? [takeSnapshot("input", chunk)]
+    : undefined;
+  const reports = runPipeline(passes.slice(0, split), context, { snapshots });
+  const declarations = settings?.sourceMap ? snapshotDeclarations(chunk) : null;
+  reports.push(...runPipeline(passes.slice(split), context, { snapshots }));
+
+  const output = printWithDirectives(chunk, comments);
+  return {
+    outputCode: output.code,
+    passes: reports,
+    snapshots: snapshots ?? [],
+    seed,
+    sourceMap: declarations && buildSourceMap(declarations, output.lines),
+    layers: [],
+    techniqueReport: null,
+  };
+}
 
-    // Also obfuscate function names
-    const functionPattern = /\bfunction\s+([a-zA-Z_][a-zA-Z0-9_]*)/g;
-    const functions = new Map<string, string>();
-
-    while ((match = functionPattern.exec(code)) !== null) {
-      const originalName = match[1];
-      if (!functions.has(originalName) && !isReservedWord(originalName)) {
-        const obfuscatedName = generateObfuscatedName(
-          variables.size + functions.size,
-        );
-        functions.set(originalName, obfuscatedName);
-        variablesRenamed++;
-      }
+// Replace every non-empty string literal with `encode`'s expression for
+// its text, and every number with `encodeNumber`'s if given. Interpolated
+// strings become a concatenation so their text can be encoded like any
+// other literal. Returns how many strings were encoded.
+function encodeLiterals(
+  chunk: Chunk,
+  encode: (content: string) => Expression,
+  encodeNumber?: (value: number) => Expression,
+): number {
+  let encoded = 0;
+  transformExpressions(chunk, (expression) => {
+    if (encodeNumber && expression.type === "NumericLiteral") {
+      return encodeNumber(expression.value);
     }
-
-    functions.forEach((obfuscatedName, originalName) => {
-      const regex = new RegExp(`\\b${escapeRegExp(originalName)}\\b`, "g");
-      obfuscated = obfuscated.replace(regex, obfuscatedName);
-    });
-  }
-
-  // String encoding
-  if (config.stringEncoding) {
-    // Encode single-quoted strings
-    obfuscated = obfuscated.replace(
-      /'([^'\\]*(\\.[^'\\]*)*)'/g,
-      (match, content) => {
-        if (content && content.length > 0) {
-          stringsEncoded++;
-          return encodeString(content, config.obfuscationLevel);
+    if (expression.type === "StringLiteral" && expression.value.length > 0) {
+      encoded++;
+      return encode(expression.value);
+    }
+    if (expression.type === "InterpolatedStringExpression") {
+      encoded++;
+      const pieces: Expression[] = [];
+      expression.parts.forEach((part, index) => {
+        if (part.length > 0) {
+          pieces.push(encode(part));
         }
-        return match;
-      },
-    );
-
-    // Encode double-quoted strings
-    obfuscated = obfuscated.replace(
-      /"([^"\\]*(\\.[^"\\]*)*)"/g,
-      (match, content) => {
-        if (content && content.length > 0) {
-          stringsEncoded++;
-          return encodeString(content, config.obfuscationLevel);
+        if (index < expression.expressions.length) {
+          pieces.push(
+            b.call(b.identifier("tostring"), [expression.expressions[index]]),
+          );
         }
-        return match;
-      },
-    );
-  }
+      });
+      if (pieces.length === 0) return b.string("");
+      return pieces.reduceRight((right, left) => b.binary("..", left, right));
+    }
+    return expression;
+  });
+  return encoded;
+}
 
-  // Basic control flow obfuscation
-  if (config.controlFlowObfuscation) {
-    // Add dummy conditions and loops
-    const lines = obfuscated.split("\n");
-    const obfuscatedLines: string[] = [];
+/**
+ * The smallest equivalent script: types and comments dropped, constants
+ * folded, locals renamed to the shortest safe names and everything printed
+ * on one line with only the spaces the lexer needs.
+ */
+function minifyCode(code: string, withSnapshots: boolean): ProcessResult {
+  const { chunk, comments } = parse(code);
+  const passes: Pass<{ chunk: Chunk }>[] = [
+    {
+      name: "stripTypes",
+      enabled: true,
+      run: ({ chunk }) => stripTypeAnnotations(chunk),
+    },
+    {
+      name: "foldConstants",
+      enabled: true,
+      run: ({ chunk }) => ({
+        folded: foldConstants(chunk, { accept: isShorter }).folded,
+      }),
+    },
+    {
+      name: "shortenNames",
+      enabled: true,
+      run: ({ chunk }) => ({ variablesRenamed: assignShortNames(chunk) }),
+    },
+    {
+      name: "shortenLiterals",
+      enabled: true,
+      run: ({ chunk }) => shortenLiterals(chunk),
+    },
+  ];
+  const snapshots = withSnapshots ? [takeSnapshot("input", chunk)] : undefined;
+  const reports = runPipeline(passes, { chunk }, { snapshots });
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      obfuscatedLines.push(line);
+  return {
+    outputCode: [
+      ...leadingDirectives(chunk, comments).map((comment) => comment.raw),
+      printMinified(chunk),
+    ].join("\n"),
+    passes: reports,
+    snapshots: snapshots ?? [],
+    seed: null,
+    sourceMap: null,
+    layers: [],
+    techniqueReport: null,
+  };
+}
 
-      // Randomly insert dummy code
-      if (Math.random() > 0.8 && line.trim() && !line.trim().startsWith("--")) {
-        const dummyCode = generateDummyCode();
-        obfuscatedLines.push(dummyCode);
-      }
-    }
+type FormatSettings = NonNullable<ProcessRequest["settings"]>["format"];
 
-    obfuscated = obfuscatedLines.join("\n");
-  }
+function formatOptions(
+  settings: FormatSettings,
+  comments: Comment[],
+): PrintOptions {
+  const indentWidth = settings?.indentWidth ?? 4;
+  return {
+    indent: settings?.useTabs ? "\t" : " ".repeat(indentWidth),
+    quoteStyle: settings?.quoteStyle ?? "auto",
+    callParentheses: settings?.callParentheses ?? "always",
+    maxLineWidth: settings?.maxLineWidth ?? 100,
+    comments,
+    preserveBlankLines: true,
+  };
+}
 
+/**
+ * Reprint the script from its AST in a consistent style. Comments and single
+ * blank lines between statements are kept; everything else about the layout
+ * comes from the settings.
+ */
+function formatCode(code: string, settings?: FormatSettings): ProcessResult {
+  const { chunk, comments } = parse(code);
   return {
-    outputCode: obfuscated,
-    variablesRenamed,
-    stringsEncoded,
+    outputCode: new Printer(formatOptions(settings, comments)).print(chunk),
+    passes: [],
+    snapshots: [],
+    seed: null,
+    sourceMap: null,
+    layers: [],
+    techniqueReport: null,
   };
 }
 
-function deobfuscateCode(code: string): ProcessResult {
-  let deobfuscated = code;
-  let variablesRenamed = 0;
-  let stringsEncoded = 0;
-
-  // Decode hex-encoded strings
-  deobfuscated = deobfuscated.replace(
-    /string\.char\(([^)]+)\)/g,
-    (match, args) => {
-      try {
-        const numbers = args.split(",").map((n: string) => parseInt(n.trim()));
-        const decoded = String.fromCharCode(...numbers);
-        stringsEncoded++;
-        return `"${decoded}"`;
-      } catch (e) {
-        return match;
-      }
+const DEOBFUSCATION_PASSES: Pass<{ chunk: Chunk }>[] = [
+  // Evaluate constant arithmetic and string building, which undoes
+  // `string.char` encoding, `(77 - 5)`-style offsets and strings split into
+  // concatenated chunks
+  {
+    name: "foldConstants",
+    enabled: true,
+    run: ({ chunk }) => {
+      const { folded, stringCalls } = foldConstants(chunk, {
+        stringLibrary: true,
+      });
+      return { folded, stringsDecoded: stringCalls };
     },
-  );
-
-  // Decode concatenated character codes
-  deobfuscated = deobfuscated.replace(
-    /string\.char\((\d+)\)\s*\.\.\s*string\.char\((\d+)\)/g,
-    (match, code1, code2) => {
-      try {
-        const char1 = String.fromCharCode(parseInt(code1));
-        const char2 = String.fromCharCode(parseInt(code2));
-        stringsEncoded++;
-        return `"${char1}${char2}"`;
-      } catch (e) {
-        return match;
+  },
+  // Then escapes and inline decoders; their results may fold further
+  {
+    name: "decodeStrings",
+    enabled: true,
+    run: ({ chunk }) => ({
+      stringsDecoded:
+        decodeStrings(chunk) +
+        foldConstants(chunk, { stringLibrary: true }).stringCalls,
+    }),
+  },
+  // Drop branches that can't run, opaque predicates included, then rebuild
+  // structured code from dispatcher loops
+  {
+    name: "removeDeadBranches",
+    enabled: true,
+    run: ({ chunk }) => ({ branchesRemoved: removeDeadBranches(chunk) }),
+  },
+  {
+    name: "unflattenControlFlow",
+    enabled: true,
+    run: ({ chunk }) => ({ blocksRecovered: unflattenControlFlow(chunk) }),
+  },
+  // Name obfuscated locals after what they hold and how they're used
+  {
+    name: "inferNames",
+    enabled: true,
+    run: ({ chunk }) => ({ variablesRenamed: inferNames(chunk) }),
+  },
+  {
+    name: "removeDummyCode",
+    enabled: true,
+    run: ({ chunk }) => {
+      let removed = 0;
+      for (const block of collectBlocks(chunk)) {
+        for (let i = block.length - 1; i >= 0; i--) {
+          if (isDummyStatement(block[i])) {
+            block.splice(i, 1);
+            removed++;
+          }
+        }
       }
+      return { statementsRemoved: removed };
     },
-  );
-
-  // Try to restore meaningful variable names
-  const obfuscatedVariables = code.match(/_0x[a-fA-F0-9]+/g) || [];
-  const uniqueVariables = Array.from(new Set(obfuscatedVariables));
-
-  const commonNames = [
-    "player",
-    "character",
-    "humanoid",
-    "input",
-    "data",
-    "value",
-    "result",
-    "position",
-    "rotation",
-    "velocity",
-    "force",
-    "part",
-    "model",
-    "script",
-    "service",
-    "event",
-    "connection",
-    "gui",
-    "frame",
-    "button",
-    "text",
-    "health",
-    "walkSpeed",
-    "jumpPower",
-    "camera",
-    "mouse",
-    "keyboard",
-  ];
+  },
+];
 
-  uniqueVariables.forEach((obfuscatedVar, index) => {
-    if (index < commonNames.length) {
-      const meaningfulName = commonNames[index];
-      const regex = new RegExp(`\\b${escapeRegExp(obfuscatedVar)}\\b`, "g");
-      deobfuscated = deobfuscated.replace(regex, meaningfulName);
-      variablesRenamed++;
-    }
+function deobfuscateCode(
+  code: string,
+  settings: FormatSettings,
+  withSnapshots: boolean,
+): ProcessResult {
+  // Run `loadstring` wrappers in the sandbox and carry on from the
+  // innermost layer they unpack to
+  const layers = unpackLayers(code);
+  // Fingerprint the script as it came in, before any of it is undone
+  const techniqueReport = detectTechniques([code, ...layers]);
+  const { chunk, comments } = parse(layers[layers.length - 1] ?? code);
+  const snapshots = withSnapshots ? [takeSnapshot("input", chunk)] : undefined;
+  const passes = runPipeline(DEOBFUSCATION_PASSES, { chunk }, { snapshots });
+
+  // Formatting comes last so the recovered code is laid out readably. Blank
+  // lines from the source mean little once blocks have been moved around.
+  const printer = new Printer({
+    ...formatOptions(settings, comments),
+    preserveBlankLines: false,
   });
+  return {
+    outputCode: printer.print(chunk),
+    passes,
+    snapshots: snapshots ?? [],
+    seed: null,
+    sourceMap: null,
+    layers,
+    techniqueReport,
+  };
+}
+
+/**
+ * Give every local binding (locals, parameters, loop variables and local
+ * functions) its own fresh name. Globals and table fields are left alone, and
+ * because each binding gets a distinct name, shadowing and upvalues keep
+ * resolving exactly as before.
+ */
+function renameVariables(
+  chunk: Chunk,
+  generateName: () => string,
+  isPreserved: (name: string) => boolean,
+): number {
+  const { bindings } = analyzeScopes(chunk);
+
+  let renamed = 0;
+  for (const binding of bindings) {
+    if (!binding.declaration || isPreserved(binding.name)) continue;
+    renameBinding(binding, generateName());
+    renamed++;
+  }
+  return renamed;
+}
+
+// Hands out obfuscated names in sequence, skipping any name already in the
+// sources so a generated name can never capture an existing variable
+export function createNameGenerator(
+  chunks: Chunk[],
+  strategy: RenamingStrategy,
+): () => string {
+  const taken = new Set<string>();
+  for (const chunk of chunks) {
+    walk(chunk, (node) => {
+      if (node.type === "Identifier") taken.add(node.name);
+    });
+  }
 
-  // Remove dummy code patterns
-  deobfuscated = deobfuscated.replace(/if true then\s*end/g, "");
-  deobfuscated = deobfuscated.replace(/while false do\s*end/g, "");
-  deobfuscated = deobfuscated.replace(/for i = 1, 0 do\s*end/g, "");
+  let index = 0;
+  return () => {
+    let name: string;
+    do {
+      name =
+        strategy === "confusable"
+          ? generateConfusableName(index++)
+          : generateObfuscatedName(index++);
+    } while (taken.has(name));
+    taken.add(name);
+    return name;
+  };
+}
 
-  // Clean up extra whitespace
-  deobfuscated = deobfuscated.replace(/\n\s*\n\s*\n/g, "\n\n");
+// `--!strict`, `--!native` and friends before the first statement
+function leadingDirectives(chunk: Chunk, comments: Comment[]): Comment[] {
+  const firstLine = chunk.loc?.start.line ?? 1;
+  return comments.filter(
+    (comment) =>
+      comment.loc.end.line < firstLine && /^![a-z]/i.test(comment.text),
+  );
+}
 
+// Luau reads `--!strict`-style directives from the top of the file, so they
+// survive even though other comments are dropped
+export function printWithDirectives(
+  chunk: Chunk,
+  comments: Comment[],
+): { code: string; lines: (number | null)[] } {
+  const directives = leadingDirectives(chunk, comments);
+  const printer = new Printer();
+  const body = printer.print(chunk);
   return {
-    outputCode: deobfuscated,
-    variablesRenamed,
-    stringsEncoded,
+    code: [...directives.map((comment) => comment.raw), body].join("\n"),
+    lines: [
+      ...directives.map((comment) => comment.loc.start.line),
+      ...printer.lineMap,
+    ],
   };
 }
 
+// Constant `if` and `while` conditions are handled by removeDeadBranches
+function isDummyStatement(statement: Statement): boolean {
+  switch (statement.type) {
+    case "NumericForStatement":
+      return (
+        statement.body.length === 0 &&
+        !statement.step &&
+        statement.start.type === "NumericLiteral" &&
+        statement.end.type === "NumericLiteral" &&
+        statement.start.value > statement.end.value
+      );
+    case "LocalStatement":
+      return (
+        statement.variables.length === 1 &&
+        statement.variables[0].name === "_" &&
+        statement.init.length === 1 &&
+        statement.init[0].type === "NilLiteral"
+      );
+    default:
+      return false;
+  }
+}
+
 function generateObfuscatedName(index: number): string {
   const prefixes = ["_0x", "_", "__", "___"];
   const prefix = prefixes[index % prefixes.length];
@@ -228,90 +619,54 @@ function generateObfuscatedName(index: number): string {
   return prefix + suffix;
 }
 
+// `lI1lIl1I1l`-style names that are hard to tell apart; the first character
+// alternates so consecutive names differ at a glance as little as possible
+function generateConfusableName(index: number): string {
+  const digits = ["l", "I", "1"];
+  let rest = Math.floor(index / 2);
+  let name = "";
+  for (let i = 0; i < 9; i++) {
+    name = digits[rest % 3] + name;
+    rest = Math.floor(rest / 3);
+  }
+  return (index % 2 === 0 ? "I" : "l") + name;
+}
+
 function encodeString(
   content: string,
   level: "light" | "medium" | "heavy",
-): string {
+  random: () => number,
+): Expression {
+  const stringChar = (codes: Expression[]) =>
+    b.call(b.path("string.char"), codes);
+  const bytes = Array.from(content).map((char) => char.charCodeAt(0));
+
   switch (level) {
     case "light":
       // Simple character code encoding
-      const codes = Array.from(content).map((char) => char.charCodeAt(0));
-      return `string.char(${codes.join(", ")})`;
+      return stringChar(bytes.map(b.number));
 
-    case "medium":
+    case "medium": {
       // Split into chunks and encode
-      const chunks = content.match(/.{1,2}/g) || [];
-      const encodedChunks = chunks.map((chunk) => {
-        const codes = Array.from(chunk).map((char) => char.charCodeAt(0));
-        return `string.char(${codes.join(", ")})`;
-      });
-      return encodedChunks.join(" .. ");
+      const chunks: Expression[] = [];
+      for (let i = 0; i < bytes.length; i += 2) {
+        chunks.push(stringChar(bytes.slice(i, i + 2).map(b.number)));
+      }
+      return chunks.reduceRight((right, left) => b.binary("..", left, right));
+    }
 
     case "heavy":
       // Add mathematical operations to character codes
-      const heavyCodes = Array.from(content).map((char) => {
-        const code = char.charCodeAt(0);
-        const offset = Math.floor(Math.random() * 10) + 1;
-        return `(${code + offset} - ${offset})`;
-      });
-      return `string.char(${heavyCodes.join(", ")})`;
+      return stringChar(
+        bytes.map((code) => {
+          const offset = Math.floor(random() * 10) + 1;
+          return b.paren(
+            b.binary("-", b.number(code + offset), b.number(offset)),
+          );
+        }),
+      );
 
     default:
-      return `"${content}"`;
+      return b.string(content);
   }
 }
-
-function generateDummyCode(): string {
-  const dummyPatterns = [
-    "if true then end",
-    "while false do end",
-    "for i = 1, 0 do end",
-    "-- dummy comment",
-    "local _ = nil",
-  ];
-  return dummyPatterns[Math.floor(Math.random() * dummyPatterns.length)];
-}
-
-function isReservedWord(word: string): boolean {
-  const reserved = [
-    "and",
-    "break",
-    "do",
-    "else",
-    "elseif",
-    "end",
-    "false",
-    "for",
-    "function",
-    "if",
-    "in",
-    "local",
-    "nil",
-    "not",
-    "or",
-    "repeat",
-    "return",
-    "then",
-    "true",
-    "until",
-    "while",
-    // Roblox-specific globals
-    "game",
-    "workspace",
-    "script",
-    "print",
-    "wait",
-    "spawn",
-    "delay",
-    "Players",
-    "LocalPlayer",
-    "UserInputService",
-    "RunService",
-    "TweenService",
-  ];
-  return reserved.includes(word.toLowerCase());
-}
-
-function escapeRegExp(string: string): string {
-  return string.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-}
@@ -0,0 +1,146 @@
+import type { PassReport, ProjectRequest } from "@shared/schema";
+import { createPreserveFilter } from "./lua/globals";
+import type { Comment } from "./lua/lexer";
+import {
+  linkModules,
+  normalizeInstancePath,
+  type ModuleLinks,
+  type ProjectScript,
+  type RequireEdge,
+  type ScriptClass,
+} from "./lua/modules";
+import { parse } from "./lua/parser";
+import { randomSeed } from "./lua/random";
+import {
+  remapSourceMap,
+  type OriginalName,
+  type SourceMap,
+} from "./lua/sourceMap";
+import {
+  createNameGenerator,
+  printWithDirectives,
+  processLuaCode,
+  renamingStrategy,
+} from "./luaProcessor";
+
+export interface ProjectFileResult {
+  path: string;
+  className: ScriptClass;
+  outputCode: string;
+  passes: PassReport[];
+  // Against the script as uploaded, when requested
+  sourceMap: SourceMap | null;
+}
+
+export interface ProjectRenameMap {
+  // Module path -> member name as written -> the name it was given, the
+  // same in every script that requires the module
+  members: Record<string, Record<string, string>>;
+  // Script path -> generated local name -> the variable it replaced
+  locals: Record<string, Record<string, OriginalName>>;
+}
+
+export interface ProjectResult {
+  files: ProjectFileResult[];
+  requires: RequireEdge[];
+  renameMap: ProjectRenameMap;
+  // Modules whose members kept their names, and why
+  skippedModules: ModuleLinks["skipped"];
+  // Shared by every script; null when nothing was randomized
+  seed: number | null;
+}
+
+/**
+ * Process every script of a project with the same settings. When
+ * obfuscating with renaming, module members are renamed first, across the
+ * whole project (see `linkModules`), and each script's locals after that,
+ * as for a single script.
+ */
+export async function processLuaProject(
+  request: ProjectRequest,
+): Promise<ProjectResult> {
+  const { mode, settings } = request;
+  const parsed: { chunk: ProjectScript["chunk"]; comments: Comment[] }[] = [];
+  const scripts: ProjectScript[] = [];
+  for (const file of request.files) {
+    const path = normalizeInstancePath(file.path);
+    try {
+      parsed.push(parse(file.source));
+    } catch (error) {
+      throw new Error(
+        `${path}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    scripts.push({
+      path,
+      className: file.className,
+      chunk: parsed[parsed.length - 1].chunk,
+    });
+  }
+
+  const strategy = mode === "obfuscate" ? renamingStrategy(settings) : null;
+  const links = linkModules(
+    scripts,
+    strategy
+      ? {
+          generateName: createNameGenerator(
+            scripts.map((script) => script.chunk),
+            strategy,
+          ),
+          isPreserved: createPreserveFilter(settings.preserveIdentifiers),
+        }
+      : {},
+  );
+  // Scripts whose code the member renaming reached
+  const renamed = new Set(Object.keys(links.members));
+  for (const edge of links.requires) {
+    if (edge.to && renamed.has(edge.to)) renamed.add(edge.from);
+  }
+
+  // One seed for the whole build, so it can be reproduced
+  const seed = mode === "obfuscate" ? (settings.seed ?? randomSeed()) : null;
+  const files: ProjectFileResult[] = [];
+  const locals: ProjectRenameMap["locals"] = {};
+  for (let index = 0; index < scripts.length; index++) {
+    const { path, className, chunk } = scripts[index];
+    // Scripts renaming didn't touch go through as uploaded
+    const printed = renamed.has(path)
+      ? printWithDirectives(chunk, parsed[index].comments)
+      : null;
+    let result;
+    try {
+      result = await processLuaCode({
+        inputCode: printed?.code ?? request.files[index].source,
+        mode,
+        settings:
+          mode === "obfuscate"
+            ? { ...settings, seed: seed!, sourceMap: true }
+            : settings,
+      });
+    } catch (error) {
+      throw new Error(
+        `${path}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    const sourceMap =
+      result.sourceMap && printed
+        ? remapSourceMap(result.sourceMap, printed.lines)
+        : result.sourceMap;
+    if (sourceMap) locals[path] = sourceMap.names;
+    files.push({
+      path,
+      className,
+      outputCode: result.outputCode,
+      passes: result.passes,
+      sourceMap: settings.sourceMap ? sourceMap : null,
+    });
+  }
+
+  return {
+    files,
+    requires: links.requires,
+    renameMap: { members: links.members, locals },
+    skippedModules: links.skipped,
+    seed,
+  };
+}
@@ -0,0 +1,246 @@
+import type { ProjectRequest } from "@shared/schema";
+import type { ScriptClass } from "./lua/modules";
+import { processLuaProject, type ProjectResult } from "./projectProcessor";
+
+const SCRIPT_CLASSES = new Set<string>([
+  "Script",
+  "LocalScript",
+  "ModuleScript",
+]);
+
+const ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code =
+        name[1] === "x" || name[1] === "X"
+          ? parseInt(name.slice(2), 16)
+          : parseInt(name.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return ENTITIES[name] ?? entity;
+  });
+}
+
+// Roblox splits CDATA around `]]>` the same way
+function encodeCdata(text: string): string {
+  return `<![CDATA[${text.split("]]>").join("]]]]><![CDATA[>")}]]>`;
+}
+
+export interface RobloxFileScript {
+  // Instance path from the top of the file, like `ServerScriptService.Main`
+  path: string;
+  className: ScriptClass;
+  source: string;
+  // Where the `Source` property's element starts and ends in the file, and
+  // the tag it's written with
+  start: number;
+  end: number;
+  tag: string;
+}
+
+interface ItemState {
+  className: string;
+  name: string | null;
+  parent: ItemState | null;
+  source: Omit<RobloxFileScript, "path" | "className"> | null;
+}
+
+interface OpenElement {
+  tag: string;
+  start: number;
+  item: ItemState | null;
+  // The property whose text is being read: `Name` or `Source`
+  property: { name: string; text: string } | null;
+}
+
+class XmlSyntaxError extends Error {
+  constructor(message: string, offset: number) {
+    super(`${message} at offset ${offset}`);
+    this.name = "XmlSyntaxError";
+  }
+}
+
+function tagEnd(xml: string, from: number): number {
+  let quote: string | null = null;
+  for (let i = from; i < xml.length; i++) {
+    const c = xml[i];
+    if (quote) {
+      if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === ">") {
+      return i;
+    }
+  }
+  throw new XmlSyntaxError("Unterminated tag", from);
+}
+
+function skipPast(xml: string, from: number, terminator: string): number {
+  const end = xml.indexOf(terminator, from);
+  if (end < 0) throw new XmlSyntaxError(`Missing ${terminator}`, from);
+  return end + terminator.length;
+}
+
+/**
+ * Find every script in a Roblox XML model or place (`.rbxmx`/`.rbxlx`),
+ * with its instance path and where its `Source` sits in the file. Scripts
+ * without a `Source` property are left out.
+ */
+export function findScripts(xml: string): RobloxFileScript[] {
+  if (xml.startsWith("<roblox!")) {
+    throw new Error(
+      "Binary model and place files aren't supported; save as .rbxmx or .rbxlx",
+    );
+  }
+  const items: ItemState[] = [];
+  const stack: OpenElement[] = [];
+  const currentItem = () => {
+    for (let i = stack.length - 1; i >= 0; i--) {
+      if (stack[i].item) return stack[i].item;
+    }
+    return null;
+  };
+  const appendText = (text: string) => {
+    const property = stack[stack.length - 1]?.property;
+    if (property) property.text += text;
+  };
+
+  const open = (tag: string, attributes: string, start: number) => {
+    const attribute = (name: string) =>
+      new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`).exec(attributes);
+    const element: OpenElement = { tag, start, item: null, property: null };
+    if (tag === "Item") {
+      const className = attribute("class");
+      element.item = {
+        className: decodeEntities(className?.[1] ?? className?.[2] ?? ""),
+        name: null,
+        parent: currentItem(),
+        source: null,
+      };
+      items.push(element.item);
+    } else if (stack[stack.length - 1]?.tag === "Properties") {
+      const name = attribute("name");
+      const property = decodeEntities(name?.[1] ?? name?.[2] ?? "");
+      if (property === "Name" || property === "Source") {
+        element.property = { name: property, text: "" };
+      }
+    }
+    stack.push(element);
+  };
+
+  const close = (tag: string, end: number) => {
+    const element = stack.pop();
+    if (!element || element.tag !== tag) {
+      throw new XmlSyntaxError(`Unexpected </${tag}>`, end);
+    }
+    const { property } = element;
+    const item = currentItem();
+    if (!property || !item) return;
+    if (property.name === "Name") {
+      item.name = property.text;
+    } else if (SCRIPT_CLASSES.has(item.className)) {
+      item.source = {
+        source: property.text,
+        start: element.start,
+        end,
+        tag: element.tag,
+      };
+    }
+  };
+
+  let i = 0;
+  while (i < xml.length) {
+    const lt = xml.indexOf("<", i);
+    if (lt < 0) break;
+    if (lt > i) appendText(decodeEntities(xml.slice(i, lt)));
+    if (xml.startsWith("<!--", lt)) {
+      i = skipPast(xml, lt, "-->");
+    } else if (xml.startsWith("<![CDATA[", lt)) {
+      const end = skipPast(xml, lt, "]]>");
+      appendText(xml.slice(lt + 9, end - 3));
+      i = end;
+    } else if (xml.startsWith("<?", lt)) {
+      i = skipPast(xml, lt, "?>");
+    } else if (xml.startsWith("<!", lt)) {
+      i = tagEnd(xml, lt) + 1;
+    } else if (xml[lt + 1] === "/") {
+      const gt = tagEnd(xml, lt);
+      i = gt + 1;
+      close(xml.slice(lt + 2, gt).trim(), i);
+    } else {
+      const gt = tagEnd(xml, lt);
+      const body = xml.slice(lt + 1, gt);
+      const selfClosing = body.endsWith("/");
+      const tag = /^[^\s/>]+/.exec(body)?.[0];
+      if (!tag) throw new XmlSyntaxError("Tag without a name", lt);
+      i = gt + 1;
+      open(tag, body.slice(tag.length), lt);
+      if (selfClosing) close(tag, i);
+    }
+  }
+  if (stack.length > 0) {
+    throw new XmlSyntaxError(
+      `<${stack[stack.length - 1].tag}> is never closed`,
+      xml.length,
+    );
+  }
+
+  const pathOf = (item: ItemState): string => {
+    const name = item.name ?? item.className;
+    return item.parent ? `${pathOf(item.parent)}.${name}` : name;
+  };
+  return items
+    .filter((item) => item.source)
+    .map((item) => ({
+      path: pathOf(item),
+      className: item.className as ScriptClass,
+      ...item.source!,
+    }));
+}
+
+/**
+ * Process every script of a Roblox XML model or place together, as
+ * `processLuaProject` does, and write each `Source` back in place. The rest
+ * of the file is left byte for byte as it was; empty scripts are skipped.
+ */
+export async function processRobloxFile(
+  file: Buffer,
+  { mode, settings }: Omit<ProjectRequest, "files">,
+): Promise<{ file: Buffer; result: ProjectResult }> {
+  const xml = file.toString("utf8");
+  const scripts = findScripts(xml)
+    .filter((script) => script.source.trim())
+    .sort((a, b) => a.start - b.start);
+  if (scripts.length === 0) throw new Error("The file has no scripts");
+
+  const result = await processLuaProject({
+    mode,
+    settings,
+    files: scripts.map(({ path, className, source }) => ({
+      path,
+      className,
+      source,
+    })),
+  });
+
+  let output = "";
+  let offset = 0;
+  scripts.forEach((script, index) => {
+    output +=
+      xml.slice(offset, script.start) +
+      `<${script.tag} name="Source">` +
+      encodeCdata(result.files[index].outputCode) +
+      `</${script.tag}>`;
+    offset = script.end;
+  });
+  output += xml.slice(offset);
+  return { file: Buffer.from(output, "utf8"), result };
+}
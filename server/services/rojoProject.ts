@@ -0,0 +1,237 @@
+import type { ProjectRequest } from "@shared/schema";
+import type { ScriptClass } from "./lua/modules";
+import { processLuaProject, type ProjectResult } from "./projectProcessor";
+import { readZip, writeZip, type ZipEntry } from "./zip";
+
+const PROJECT_FILE = "default.project.json";
+
+// `name.server.lua` and the rest; `.luau` works the same as `.lua`
+const SCRIPT_SUFFIXES: [RegExp, ScriptClass][] = [
+  [/\.server\.luau?$/, "Script"],
+  [/\.client\.luau?$/, "LocalScript"],
+  [/\.luau?$/, "ModuleScript"],
+];
+
+// A node of a project file's `tree`: `$`-keys describe the instance, every
+// other key is a child of it
+interface ProjectNode {
+  $className?: string;
+  $path?: string | { optional: string };
+  [child: string]: unknown;
+}
+
+export interface RojoScript {
+  // The archive entry the script's source is in
+  entry: ZipEntry;
+  // Instance path, as `ProjectRequest` takes it
+  path: string;
+  className: ScriptClass;
+}
+
+function scriptClass(
+  fileName: string,
+): { name: string; className: ScriptClass } | null {
+  for (const [suffix, className] of SCRIPT_SUFFIXES) {
+    if (suffix.test(fileName)) {
+      return { name: fileName.replace(suffix, ""), className };
+    }
+  }
+  return null;
+}
+
+// `a/./b/../c` -> `a/c`; null for paths that climb out of the archive
+function joinPath(directory: string, path: string): string | null {
+  const segments: string[] = [];
+  for (const segment of `${directory}/${path}`.split(/[/\\]/)) {
+    if (segment === "" || segment === ".") continue;
+    if (segment === "..") {
+      if (segments.length === 0) return null;
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join("/");
+}
+
+function directoryOf(path: string): string {
+  return path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+}
+
+class RojoMapper {
+  readonly scripts: RojoScript[] = [];
+  private readonly files = new Map<string, ZipEntry>();
+
+  constructor(entries: ZipEntry[]) {
+    for (const entry of entries) {
+      if (!entry.name.endsWith("/")) this.files.set(entry.name, entry);
+    }
+  }
+
+  // The project file nearest the top of the archive, which may sit in a
+  // folder of its own
+  findProject(): string {
+    const candidates = Array.from(this.files.keys()).filter(
+      (name) => name === PROJECT_FILE || name.endsWith(`/${PROJECT_FILE}`),
+    );
+    if (candidates.length === 0) {
+      throw new Error(`The archive has no ${PROJECT_FILE}`);
+    }
+    return candidates.reduce((best, name) =>
+      name.split("/").length < best.split("/").length ? name : best,
+    );
+  }
+
+  project(file: string, instancePath: string[] | null, depth = 0): void {
+    if (depth > 16) throw new Error(`${file} includes itself`);
+    let project: { name?: unknown; tree?: ProjectNode };
+    try {
+      project = JSON.parse(this.files.get(file)!.data.toString("utf8"));
+    } catch (error) {
+      throw new Error(
+        `${file} isn't valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    if (!project.tree || typeof project.tree !== "object") {
+      throw new Error(`${file} has no tree`);
+    }
+    // A place's tree is the DataModel; a model's is an instance named after
+    // the project
+    const path =
+      instancePath ??
+      (project.tree.$className === "DataModel"
+        ? []
+        : [String(project.name ?? "Project")]);
+    this.node(project.tree, path, directoryOf(file), depth);
+  }
+
+  private node(
+    node: ProjectNode,
+    instancePath: string[],
+    directory: string,
+    depth: number,
+  ): void {
+    const target =
+      typeof node.$path === "string" ? node.$path : node.$path?.optional;
+    if (target !== undefined) {
+      const path = joinPath(directory, target);
+      if (path === null) throw new Error(`${target} is outside the archive`);
+      if (this.exists(path)) {
+        this.path(path, instancePath, depth);
+      } else if (typeof node.$path === "string") {
+        throw new Error(`${target} is in the project but not in the archive`);
+      }
+    }
+    for (const [key, child] of Object.entries(node)) {
+      if (key.startsWith("$") || !child || typeof child !== "object") continue;
+      this.node(child as ProjectNode, [...instancePath, key], directory, depth);
+    }
+  }
+
+  private exists(path: string): boolean {
+    if (path === "" || this.files.has(path)) return true;
+    return Array.from(this.files.keys()).some((name) =>
+      name.startsWith(`${path}/`),
+    );
+  }
+
+  // A `$path`: a script file becomes the instance itself, a nested project
+  // (or a directory with one) is mapped in its place, and any other
+  // directory holds the instance's children
+  private path(path: string, instancePath: string[], depth: number): void {
+    const nested = path === "" ? PROJECT_FILE : `${path}/${PROJECT_FILE}`;
+    if (this.files.has(nested)) {
+      this.project(nested, instancePath, depth + 1);
+      return;
+    }
+    const file = this.files.get(path);
+    if (file) {
+      if (path.endsWith(".project.json")) {
+        this.project(path, instancePath, depth + 1);
+        return;
+      }
+      const script = scriptClass(path.slice(path.lastIndexOf("/") + 1));
+      if (script) this.add(file, instancePath, script.className);
+      return;
+    }
+    this.directory(path, instancePath, depth);
+  }
+
+  // Files become children named without their suffix; an `init` script
+  // turns the directory itself into that script
+  private directory(
+    directory: string,
+    instancePath: string[],
+    depth: number,
+  ): void {
+    const prefix = directory === "" ? "" : `${directory}/`;
+    const subdirectories = new Set<string>();
+    this.files.forEach((entry, name) => {
+      if (!name.startsWith(prefix)) return;
+      const rest = name.slice(prefix.length);
+      const slash = rest.indexOf("/");
+      if (slash >= 0) {
+        subdirectories.add(rest.slice(0, slash));
+        return;
+      }
+      const script = scriptClass(rest);
+      if (!script) return;
+      this.add(
+        entry,
+        script.name === "init" ? instancePath : [...instancePath, script.name],
+        script.className,
+      );
+    });
+    subdirectories.forEach((name) =>
+      this.path(`${prefix}${name}`, [...instancePath, name], depth),
+    );
+  }
+
+  private add(
+    entry: ZipEntry,
+    instancePath: string[],
+    className: ScriptClass,
+  ): void {
+    this.scripts.push({ entry, path: instancePath.join("."), className });
+  }
+}
+
+/**
+ * Map the scripts of a zipped Rojo project to where they sit in the
+ * instance tree, following its `default.project.json`: `$path` files and
+ * directories, `init` scripts, `.server`/`.client` suffixes and nested
+ * project files. Other files aren't scripts and are left out.
+ */
+export function mapRojoProject(entries: ZipEntry[]): RojoScript[] {
+  const mapper = new RojoMapper(entries);
+  mapper.project(mapper.findProject(), null);
+  return mapper.scripts;
+}
+
+/**
+ * Process every script of a zipped Rojo project together, as
+ * `processLuaProject` does, and zip the project back up with the same
+ * layout, every other file as it was.
+ */
+export async function processRojoArchive(
+  archive: Buffer,
+  { mode, settings }: Omit<ProjectRequest, "files">,
+): Promise<{ archive: Buffer; result: ProjectResult }> {
+  const entries = readZip(archive);
+  const scripts = mapRojoProject(entries);
+  if (scripts.length === 0) throw new Error("The project has no scripts");
+
+  const result = await processLuaProject({
+    mode,
+    settings,
+    files: scripts.map((script) => ({
+      path: script.path,
+      className: script.className,
+      source: script.entry.data.toString("utf8"),
+    })),
+  });
+  result.files.forEach((file, index) => {
+    scripts[index].entry.data = Buffer.from(file.outputCode, "utf8");
+  });
+  return { archive: writeZip(entries), result };
+}
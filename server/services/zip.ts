@@ -0,0 +1,192 @@
+import { deflateRawSync, inflateRawSync } from "zlib";
+
+export interface ZipEntry {
+  // Path inside the archive, `/`-separated; directories end in `/`
+  name: string;
+  data: Buffer;
+  // Modification time in MS-DOS format, kept from the archive read
+  dosTime: number;
+  dosDate: number;
+}
+
+export interface ZipLimits {
+  maxEntries?: number;
+  // Total uncompressed size, in bytes
+  maxSize?: number;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_DIRECTORY = 0x06054b50;
+// 1980-01-01, the earliest date the format can hold
+const DEFAULT_DOS_DATE = (1 << 5) | 1;
+
+const CRC_TABLE = (() => {
+  const table = new Int32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = -1;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ -1) >>> 0;
+}
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ZipError";
+  }
+}
+
+function findEndOfDirectory(zip: Buffer): number {
+  // The record is 22 bytes plus a comment of up to 65535
+  const stop = Math.max(0, zip.length - 22 - 0xffff);
+  for (let offset = zip.length - 22; offset >= stop; offset--) {
+    if (zip.readUInt32LE(offset) === END_OF_DIRECTORY) return offset;
+  }
+  throw new ZipError("Not a zip archive");
+}
+
+/**
+ * Read every entry of a zip archive. Only stored and deflated entries are
+ * supported, without encryption or ZIP64; the limits guard against archives
+ * that expand to far more than they look.
+ */
+export function readZip(
+  zip: Buffer,
+  { maxEntries = 10_000, maxSize = 64 * 1024 * 1024 }: ZipLimits = {},
+): ZipEntry[] {
+  const end = findEndOfDirectory(zip);
+  const count = zip.readUInt16LE(end + 10);
+  if (count > maxEntries) {
+    throw new ZipError(`The archive has more than ${maxEntries} entries`);
+  }
+  let offset = zip.readUInt32LE(end + 16);
+  let total = 0;
+  const entries: ZipEntry[] = [];
+  for (let index = 0; index < count; index++) {
+    if (
+      offset + 46 > zip.length ||
+      zip.readUInt32LE(offset) !== CENTRAL_HEADER
+    ) {
+      throw new ZipError("The archive's directory is damaged");
+    }
+    const flags = zip.readUInt16LE(offset + 8);
+    const method = zip.readUInt16LE(offset + 10);
+    const dosTime = zip.readUInt16LE(offset + 12);
+    const dosDate = zip.readUInt16LE(offset + 14);
+    const crc = zip.readUInt32LE(offset + 16);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const size = zip.readUInt32LE(offset + 24);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const headerOffset = zip.readUInt32LE(offset + 42);
+    // Bit 11 marks UTF-8 names; older tools wrote plain ASCII anyway
+    const name = zip
+      .subarray(offset + 46, offset + 46 + nameLength)
+      .toString(flags & 0x800 ? "utf8" : "latin1");
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (flags & 1) throw new ZipError(`${name} is encrypted`);
+    if (size === 0xffffffff || compressedSize === 0xffffffff) {
+      throw new ZipError(`${name} is too large`);
+    }
+    total += size;
+    if (total > maxSize) {
+      throw new ZipError(`The archive expands to more than ${maxSize} bytes`);
+    }
+
+    if (
+      headerOffset + 30 > zip.length ||
+      zip.readUInt32LE(headerOffset) !== LOCAL_HEADER
+    ) {
+      throw new ZipError(`The header of ${name} is damaged`);
+    }
+    const start =
+      headerOffset +
+      30 +
+      zip.readUInt16LE(headerOffset + 26) +
+      zip.readUInt16LE(headerOffset + 28);
+    const raw = zip.subarray(start, start + compressedSize);
+    if (method !== 0 && method !== 8) {
+      throw new ZipError(`${name} uses an unsupported compression method`);
+    }
+    let data: Buffer;
+    try {
+      data =
+        method === 0
+          ? Buffer.from(raw)
+          : inflateRawSync(raw, { maxOutputLength: Math.max(size, 1) });
+    } catch {
+      throw new ZipError(`${name} is damaged`);
+    }
+    if (data.length !== size || crc32(data) !== crc) {
+      throw new ZipError(`${name} is damaged`);
+    }
+    entries.push({ name, data, dosTime, dosDate });
+  }
+  return entries;
+}
+
+/**
+ * Write entries to a zip archive, deflating every file.
+ */
+export function writeZip(entries: ZipEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const compressed = deflateRawSync(entry.data);
+    const crc = crc32(entry.data);
+    const dosDate = entry.dosDate || DEFAULT_DOS_DATE;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER, 0);
+    local.writeUInt16LE(20, 4); // version needed: 2.0, for deflate
+    local.writeUInt16LE(0x800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8);
+    local.writeUInt16LE(entry.dosTime, 10);
+    local.writeUInt16LE(dosDate, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER, 0);
+    central.writeUInt16LE(20, 4); // made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(entry.dosTime, 12);
+    central.writeUInt16LE(dosDate, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_DIRECTORY, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
@@ -285,6 +285,13 @@ export class MemStorage implements IStorage {
       outputLines: insertScript.outputLines ?? 0,
       variablesRenamed: insertScript.variablesRenamed ?? 0,
       stringsEncoded: insertScript.stringsEncoded ?? 0,
+      constantPoolSize: insertScript.constantPoolSize ?? 0,
+      seed: insertScript.seed ?? null,
+      instructionCount: insertScript.instructionCount ?? 0,
+      vmSize: insertScript.vmSize ?? 0,
+      blocksRecovered: insertScript.blocksRecovered ?? 0,
+      sourceMap: insertScript.sourceMap ?? null,
+      techniqueReport: insertScript.techniqueReport ?? null,
       processingTime: insertScript.processingTime ?? 0,
       createdAt: new Date(),
     };
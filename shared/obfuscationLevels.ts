@@ -0,0 +1,169 @@
+export type ObfuscationLevel =
+  "light" | "medium" | "heavy" | "virtualize" | "custom";
+export type PassIntensity = "light" | "medium" | "heavy";
+export type RenamingStrategy = "hex" | "confusable";
+
+/**
+ * Which passes an obfuscation level runs, and how hard. A null intensity
+ * means the pass is off.
+ */
+export interface LevelPlan {
+  // `hex` names look like `_0x001a`; `confusable` names are built only from
+  // `l`, `I` and `1`
+  renaming: RenamingStrategy | null;
+  // Inline `string.char` encoding at each use site
+  stringEncoding: PassIntensity | null;
+  // Encrypted constant table; takes over from inline string encoding
+  constantPool: PassIntensity | null;
+  // State-machine dispatchers around function bodies
+  flattening: PassIntensity | null;
+  // Opaque-predicate guards and fake branches
+  junkCode: PassIntensity | null;
+  // Compile to bytecode for a randomized instruction set and ship it with
+  // an interpreter; runs before every other pass
+  virtualization: boolean;
+}
+
+export interface LevelDescription {
+  label: string;
+  summary: string;
+  plan: LevelPlan;
+}
+
+export const OBFUSCATION_LEVELS: Record<
+  Exclude<ObfuscationLevel, "custom">,
+  LevelDescription
+> = {
+  light: {
+    label: "Light",
+    summary: "Renamed locals and character-coded strings; logic untouched",
+    plan: {
+      renaming: "hex",
+      stringEncoding: "light",
+      constantPool: null,
+      flattening: null,
+      junkCode: null,
+      virtualization: false,
+    },
+  },
+  medium: {
+    label: "Medium",
+    summary: "Adds chunked strings, flattened control flow and some junk code",
+    plan: {
+      renaming: "hex",
+      stringEncoding: "medium",
+      constantPool: null,
+      flattening: "medium",
+      junkCode: "medium",
+      virtualization: false,
+    },
+  },
+  heavy: {
+    label: "Heavy",
+    summary:
+      "Confusable names, an encrypted constant pool, fine-grained flattening and dense junk code",
+    plan: {
+      renaming: "confusable",
+      stringEncoding: null,
+      constantPool: "heavy",
+      flattening: "heavy",
+      junkCode: "heavy",
+      virtualization: false,
+    },
+  },
+  virtualize: {
+    label: "Virtualize",
+    summary:
+      "Compiles the script to randomized bytecode run by an embedded interpreter; slowest at runtime",
+    plan: {
+      renaming: "confusable",
+      stringEncoding: null,
+      constantPool: null,
+      flattening: null,
+      junkCode: null,
+      virtualization: true,
+    },
+  },
+};
+
+export interface CustomPassToggles {
+  variableRenaming?: boolean;
+  stringEncoding?: boolean;
+  constantPool?: boolean;
+  controlFlowObfuscation?: boolean;
+}
+
+// What `custom` starts from before its toggles are applied
+const CUSTOM_DEFAULTS: Required<CustomPassToggles> = {
+  variableRenaming: true,
+  stringEncoding: true,
+  constantPool: false,
+  controlFlowObfuscation: false,
+};
+
+/**
+ * The passes a request runs. `custom` is built from the individual toggles,
+ * with every enabled pass at medium intensity. On a preset, a toggle that
+ * is set turns its pass off, or on at medium intensity if the preset leaves
+ * it out; toggles left unset keep the preset's choice.
+ */
+export function resolveLevelPlan(
+  level: ObfuscationLevel,
+  toggles: CustomPassToggles = {},
+): LevelPlan {
+  const base: LevelPlan =
+    level === "custom"
+      ? {
+          renaming: null,
+          stringEncoding: null,
+          constantPool: null,
+          flattening: null,
+          junkCode: null,
+          virtualization: false,
+        }
+      : OBFUSCATION_LEVELS[level].plan;
+  const defaults: CustomPassToggles = level === "custom" ? CUSTOM_DEFAULTS : {};
+  const toggle = (name: keyof CustomPassToggles) =>
+    toggles[name] ?? defaults[name];
+  const apply = (
+    enabled: boolean | undefined,
+    current: PassIntensity | null,
+  ): PassIntensity | null =>
+    enabled === undefined ? current : enabled ? (current ?? "medium") : null;
+  return {
+    renaming:
+      toggle("variableRenaming") === undefined
+        ? base.renaming
+        : toggle("variableRenaming")
+          ? (base.renaming ?? "hex")
+          : null,
+    stringEncoding: apply(toggle("stringEncoding"), base.stringEncoding),
+    constantPool: apply(toggle("constantPool"), base.constantPool),
+    flattening: apply(toggle("controlFlowObfuscation"), base.flattening),
+    junkCode: apply(toggle("controlFlowObfuscation"), base.junkCode),
+    virtualization: base.virtualization,
+  };
+}
+
+// Human-readable pass list for a plan, for display
+export function describePlan(plan: LevelPlan): string[] {
+  const passes: string[] = [];
+  if (plan.virtualization) passes.push("Bytecode virtualization");
+  if (plan.renaming) {
+    passes.push(
+      plan.renaming === "hex"
+        ? "Variable renaming (hex names)"
+        : "Variable renaming (confusable names)",
+    );
+  }
+  if (plan.constantPool) {
+    passes.push(`Encrypted constant pool (${plan.constantPool})`);
+  } else if (plan.stringEncoding) {
+    passes.push(`String encoding (${plan.stringEncoding})`);
+  }
+  if (plan.flattening) {
+    passes.push(`Control flow flattening (${plan.flattening})`);
+  }
+  if (plan.junkCode) passes.push(`Junk code (${plan.junkCode})`);
+  return passes;
+}
@@ -25,12 +25,19 @@ export const processedScripts = pgTable("processed_scripts", {
     .default(sql`gen_random_uuid()`),
   inputCode: text("input_code").notNull(),
   outputCode: text("output_code").notNull(),
-  mode: text("mode").notNull(), // 'obfuscate' or 'deobfuscate'
+  mode: text("mode").notNull(), // 'obfuscate', 'deobfuscate', 'minify' or 'format'
   settings: text("settings"), // JSON string of settings
   inputLines: integer("input_lines").default(0),
   outputLines: integer("output_lines").default(0),
   variablesRenamed: integer("variables_renamed").default(0),
   stringsEncoded: integer("strings_encoded").default(0),
+  constantPoolSize: integer("constant_pool_size").default(0),
+  seed: integer("seed"), // RNG seed of an obfuscation build
+  instructionCount: integer("instruction_count").default(0), // virtualized builds
+  vmSize: integer("vm_size").default(0), // interpreter source size, in characters
+  blocksRecovered: integer("blocks_recovered").default(0), // unflattened by deobfuscation
+  sourceMap: text("source_map"), // JSON string of rename map + line mapping
+  techniqueReport: text("technique_report"), // JSON string of detected obfuscation techniques
   processingTime: integer("processing_time").default(0), // in milliseconds
   benchmarkResults: text("benchmark_results"), // JSON string of benchmark data
   createdAt: timestamp("created_at").defaultNow(),
@@ -144,19 +151,139 @@ export const insertScriptCommentSchema = createInsertSchema(
   createdAt: true,
 });
 
+const harnessValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+const passIntensitySchema = z
+  .enum(["light", "medium", "heavy"])
+  .default("medium");
+const passEnabledSchema = z.boolean().default(true);
+
+// One obfuscation pass and its options, for requests that choose passes
+// directly rather than through a level
+export const obfuscationPassSchema = z.discriminatedUnion("name", [
+  z.object({ name: z.literal("stripTypes"), enabled: passEnabledSchema }),
+  z.object({ name: z.literal("virtualize"), enabled: passEnabledSchema }),
+  z.object({
+    name: z.literal("renameVariables"),
+    enabled: passEnabledSchema,
+    strategy: z.enum(["hex", "confusable"]).default("hex"),
+  }),
+  z.object({
+    name: z.literal("constantPool"),
+    enabled: passEnabledSchema,
+    intensity: passIntensitySchema,
+  }),
+  z.object({
+    name: z.literal("encodeStrings"),
+    enabled: passEnabledSchema,
+    intensity: passIntensitySchema,
+  }),
+  z.object({
+    name: z.literal("flattenControlFlow"),
+    enabled: passEnabledSchema,
+    intensity: passIntensitySchema,
+  }),
+  z.object({
+    name: z.literal("junkCode"),
+    enabled: passEnabledSchema,
+    intensity: passIntensitySchema,
+  }),
+]);
+
+const processModeSchema = z.enum([
+  "obfuscate",
+  "deobfuscate",
+  "minify",
+  "format",
+]);
+
+const processSettingsSchema = z.object({
+  // Pass toggles. "custom" is built from them; on a preset, a toggle that
+  // is set overrides the preset for its pass and one left out keeps it.
+  variableRenaming: z.boolean().optional(),
+  stringEncoding: z.boolean().optional(),
+  controlFlowObfuscation: z.boolean().optional(),
+  obfuscationLevel: z
+    .enum(["light", "medium", "heavy", "virtualize", "custom"])
+    .default("medium"),
+  stripTypeAnnotations: z.boolean().default(false),
+  // A pass toggle too, like the three above
+  constantPool: z.boolean().optional(),
+  // Same seed + same input + same settings = same output
+  seed: z.number().int().min(0).max(0x7fffffff).optional(),
+  // Return and store a rename map and line mapping for de-mangling
+  sourceMap: z.boolean().default(false),
+  // Explicit pass list, in place of the level and the pass toggles.
+  // Passes left out are off; the pipeline fixes the order they run in.
+  passes: z.array(obfuscationPassSchema).optional(),
+  // Return the code after each pass, to step through in the diff view
+  snapshots: z.boolean().default(false),
+  // Local names to keep, and module members in projects, exact or with
+  // `*`/`?` wildcards
+  preserveIdentifiers: z.array(z.string().min(1)).default([]),
+  // Layout for format mode, also applied to deobfuscated output
+  format: z
+    .object({
+      indentWidth: z.number().int().min(1).max(8).default(4),
+      useTabs: z.boolean().default(false),
+      // "auto" picks whichever quote needs fewer escapes
+      quoteStyle: z
+        .enum(["preserve", "double", "single", "auto"])
+        .default("auto"),
+      maxLineWidth: z.number().int().min(40).max(240).default(100),
+      // Whether `f("x")` and `f({...})` may drop their parentheses
+      callParentheses: z
+        .enum(["always", "noSingleString", "noSingleTable", "none"])
+        .default("always"),
+    })
+    .optional(),
+});
+
 export const processRequestSchema = z.object({
   inputCode: z.string().min(1, "Input code is required"),
-  mode: z.enum(["obfuscate", "deobfuscate"]),
-  settings: z
+  mode: processModeSchema,
+  settings: processSettingsSchema.optional(),
+  // Run the input and the output side by side in the sandbox and compare
+  // what they print, return and raise
+  verify: z
     .object({
-      variableRenaming: z.boolean().default(true),
-      stringEncoding: z.boolean().default(true),
-      controlFlowObfuscation: z.boolean().default(false),
-      obfuscationLevel: z.enum(["light", "medium", "heavy"]).default("medium"),
+      // Passed to the script as `...`
+      inputs: z.array(harnessValueSchema).max(64).default([]),
+      // Globals set before the script runs, over the Roblox stand-ins
+      globals: z.record(z.string(), harnessValueSchema).default({}),
     })
     .optional(),
 });
 
+// Many scripts of one game, processed together so that module members can
+// be renamed the same way in every script that requires them
+export const projectRequestSchema = z.object({
+  mode: processModeSchema,
+  files: z
+    .array(
+      z.object({
+        // Instance path, like `ReplicatedStorage.Modules.Inventory`
+        path: z.string().min(1, "Script path is required"),
+        className: z.enum(["Script", "LocalScript", "ModuleScript"]),
+        source: z.string(),
+      }),
+    )
+    .min(1, "At least one script is required")
+    .max(1000),
+  settings: processSettingsSchema.default({}),
+});
+
+// Options for processing an uploaded zipped Rojo project or XML model or
+// place file, which is sent as the body
+export const fileRequestSchema = projectRequestSchema.pick({
+  mode: true,
+  settings: true,
+});
+
+export const demangleRequestSchema = z.object({
+  trace: z.string().min(1, "Stack trace is required"),
+});
+
 export const shareScriptSchema = z.object({
   title: z.string().min(1, "Title is required"),
   description: z.string().optional(),
@@ -173,8 +300,42 @@ export type User = typeof users.$inferSelect;
 export type ProcessedScript = typeof processedScripts.$inferSelect;
 export type InsertProcessedScript = z.infer<typeof insertProcessedScriptSchema>;
 export type ProcessRequest = z.infer<typeof processRequestSchema>;
+export type ObfuscationPass = z.infer<typeof obfuscationPassSchema>;
+// What a client sends, before defaults are filled in
+export type ProcessRequestBody = z.input<typeof processRequestSchema>;
+export type ProjectRequest = z.infer<typeof projectRequestSchema>;
+export type ProjectRequestBody = z.input<typeof projectRequestSchema>;
+export type DemangleRequest = z.infer<typeof demangleRequestSchema>;
 export type SharedScript = typeof sharedScripts.$inferSelect;
 export type InsertSharedScript = z.infer<typeof insertSharedScriptSchema>;
 export type ScriptComment = typeof scriptComments.$inferSelect;
 export type InsertScriptComment = z.infer<typeof insertScriptCommentSchema>;
 export type ShareScriptRequest = z.infer<typeof shareScriptSchema>;
+
+// What one pass of a processing pipeline did, as `/api/process` reports it
+export interface PassReport {
+  name: string;
+  enabled: boolean;
+  // Wall time, in milliseconds
+  time: number;
+  // AST nodes the pass added, removed or changed in place
+  nodesChanged: number;
+  stats: Record<string, number>;
+}
+
+// The code as it stood at one point in a pipeline: before the first pass
+// ("input"), or after the named one
+export interface Snapshot {
+  stage: string;
+  code: string;
+}
+
+/**
+ * A counter summed over every pass that reports it.
+ */
+export function totalStat(reports: PassReport[], stat: string): number {
+  return reports.reduce(
+    (total, report) => total + (report.stats[stat] ?? 0),
+    0,
+  );
+}